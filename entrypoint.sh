@@ -44,13 +44,39 @@ cp /config/rclone.conf /tmp/rclone.conf
 chown appuser:appgroup /tmp/rclone.conf
 chmod 600 /tmp/rclone.conf
 
+# RC authentication: an htpasswd file, or RCLONE_RC_USER/RCLONE_RC_PASS. rclone reads those two
+# from the environment itself, so the password never shows up in the process list.
+if [ -n "$RCLONE_RC_HTPASSWD" ]; then
+  RC_AUTH_FLAGS="--rc-htpasswd=$RCLONE_RC_HTPASSWD"
+  echo "🔐 rclone RC authentication: htpasswd file $RCLONE_RC_HTPASSWD"
+elif [ -n "$RCLONE_RC_USER" ] && [ -n "$RCLONE_RC_PASS" ]; then
+  RC_AUTH_FLAGS=""
+  echo "🔐 rclone RC authentication: user $RCLONE_RC_USER"
+else
+  RC_AUTH_FLAGS="--rc-no-auth"
+  echo "⚠️  rclone RC authentication disabled; set RCLONE_RC_USER and RCLONE_RC_PASS to enable it"
+fi
+
+# RC TLS: serve https when a certificate and key are given, and let Node trust the CA
+RC_SCHEME="http"
+RC_TLS_FLAGS=""
+if [ -n "$RCLONE_RC_CERT" ] && [ -n "$RCLONE_RC_KEY" ]; then
+  RC_SCHEME="https"
+  RC_TLS_FLAGS="--rc-cert=$RCLONE_RC_CERT --rc-key=$RCLONE_RC_KEY"
+  export RCLONE_RC_URL="${RCLONE_RC_URL:-https://127.0.0.1:5572}"
+  echo "🔐 rclone RC TLS enabled with certificate $RCLONE_RC_CERT"
+fi
+if [ -n "$RCLONE_RC_CA" ]; then
+  export NODE_EXTRA_CA_CERTS="$RCLONE_RC_CA"
+fi
+
 # Start rclone daemon in background as appuser using /tmp config with file serving
-su appuser -c "rclone rcd --rc-addr=127.0.0.1:5572 --rc-no-auth --rc-serve --config=/tmp/rclone.conf" &
+su appuser -c "rclone rcd --rc-addr=127.0.0.1:5572 $RC_AUTH_FLAGS $RC_TLS_FLAGS --rc-serve --config=/tmp/rclone.conf" &
 
-# Wait for rclone daemon to be ready
+# Wait for rclone daemon to be ready (any HTTP answer will do, including 401)
 echo "Waiting for rclone daemon to start..."
 for i in $(seq 1 30); do
-  if curl -s --connect-timeout 1 --max-time 2 http://127.0.0.1:5572/core/version >/dev/null 2>&1; then
+  if curl -s -k --connect-timeout 1 --max-time 2 -X POST "$RC_SCHEME://127.0.0.1:5572/core/version" >/dev/null 2>&1; then
     echo "✅ rclone daemon is ready"
     break
   fi
@@ -172,8 +198,23 @@ if [ ! -f "./prisma/dev.db" ]; then
   "
 else
   echo "✅ Database already exists, skipping initialization"
+
+  # The search index FTS table is rebuilt by the app; drop it so db push only sees Prisma's tables
+  node -e "
+    const { PrismaClient } = require('@prisma/client');
+    const prisma = new PrismaClient();
+    prisma.\$executeRawUnsafe('DROP TABLE IF EXISTS search_index_fts')
+      .catch((error) => console.error('⚠️  Could not drop search index FTS table:', error.message))
+      .finally(() => prisma.\$disconnect());
+  "
+
+  # Apply schema additions to existing databases
+  npx prisma db push --skip-generate
 fi
 
+# Seed permission catalogue and system roles (idempotent, runs on every start)
+npx prisma db seed
+
 # Run appropriate command based on environment as the app user
 if [ "$NODE_ENV" = "production" ]; then
   su appuser -c "npm run build"
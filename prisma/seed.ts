@@ -0,0 +1,74 @@
+import { PrismaClient } from '@prisma/client'
+import { PERMISSION_CATALOG, SYSTEM_ROLES } from '../src/lib/permissions'
+
+const prisma = new PrismaClient()
+
+const ADMIN_ROLE = 'Administrator'
+
+async function main() {
+  // Permission catalogue
+  for (const permission of PERMISSION_CATALOG) {
+    await prisma.permission.upsert({
+      where: { name: permission.name },
+      update: {
+        resource: permission.resource,
+        action: permission.action,
+        description: permission.description
+      },
+      create: permission
+    })
+  }
+
+  // System roles hold exactly their catalogue permissions; they are read-only in the UI,
+  // so anything that drifted is put back
+  const permissions = await prisma.permission.findMany()
+  for (const systemRole of SYSTEM_ROLES) {
+    const role = await prisma.role.upsert({
+      where: { name: systemRole.name },
+      update: { description: systemRole.description, isSystem: true },
+      create: {
+        name: systemRole.name,
+        description: systemRole.description,
+        isSystem: true
+      }
+    })
+
+    const wanted = permissions.filter(permission => (systemRole.permissions as string[]).includes(permission.name))
+    await prisma.rolePermission.deleteMany({
+      where: { roleId: role.id, permissionId: { notIn: wanted.map(permission => permission.id) } }
+    })
+    for (const permission of wanted) {
+      await prisma.rolePermission.upsert({
+        where: { roleId_permissionId: { roleId: role.id, permissionId: permission.id } },
+        update: {},
+        create: { roleId: role.id, permissionId: permission.id }
+      })
+    }
+  }
+
+  const adminRole = await prisma.role.findUniqueOrThrow({ where: { name: ADMIN_ROLE } })
+
+  // Bootstrap: give the initial admin account the Administrator role
+  // only while nobody holds it, so later role changes are not undone on restart
+  const adminCount = await prisma.userRole.count({ where: { roleId: adminRole.id } })
+  if (adminCount === 0) {
+    const adminUser = await prisma.user.findUnique({ where: { username: 'admin' } })
+    if (adminUser) {
+      await prisma.userRole.create({
+        data: { userId: adminUser.id, roleId: adminRole.id }
+      })
+      console.log('✅ Assigned Administrator role to admin user')
+    }
+  }
+
+  console.log(`✅ Seeded ${PERMISSION_CATALOG.length} permissions and ${SYSTEM_ROLES.length} system roles`)
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Seed failed:', error)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -1,17 +1,31 @@
 'use client';
 
-import { useState, useEffect, use } from 'react';
+import { useState, useEffect, useRef, use } from 'react';
 import { FileItem, BreadcrumbItem, FileViewMode } from '@/lib/types/files';
 import Breadcrumb from '@/components/file-browser/Breadcrumb';
 import ViewToggle from '@/components/file-browser/ViewToggle';
 import FileGrid from '@/components/file-browser/FileGrid';
 import FileList from '@/components/file-browser/FileList';
 import Sidebar from '@/components/file-browser/Sidebar';
+import UploadQueue from '@/components/file-browser/UploadQueue';
+import OperationQueue from '@/components/file-browser/OperationQueue';
+import DeleteDialog from '@/components/file-browser/DeleteDialog';
+import TransferDialog from '@/components/file-browser/TransferDialog';
+import MediaPlayer from '@/components/file-browser/MediaPlayer';
+import ImageLightbox from '@/components/file-browser/ImageLightbox';
+import SearchPanel from '@/components/file-browser/SearchPanel';
+import { useUploadQueue } from '@/components/file-browser/useUploadQueue';
+import { useFileOperations, OperationSource } from '@/components/file-browser/useFileOperations';
+import { downloadArchive } from '@/lib/download';
+import { getMediaKind, isImageFile } from '@/lib/media';
 
 interface FilesResponse {
   files: FileItem[];
   remote: string;
   path: string;
+  // Granted root containing path; on 403, the folders the user may browse instead
+  root?: string;
+  roots?: string[];
   success: boolean;
   error?: string;
   tokenExpired?: boolean;
@@ -23,6 +37,12 @@ interface RemotesResponse {
   error?: string;
 }
 
+interface Clipboard {
+  operation: 'move' | 'copy';
+  remote: string;
+  items: OperationSource[];
+}
+
 interface Props {
   params: Promise<{
     path: string[];
@@ -34,6 +54,7 @@ export default function FileBrowser({ params }: Props) {
   const [remotes, setRemotes] = useState<string[]>([]);
   const [selectedRemote, setSelectedRemote] = useState<string | null>(null);
   const [currentPath, setCurrentPath] = useState<string>('');
+  const [accessRoot, setAccessRoot] = useState<string>('');
   const [files, setFiles] = useState<FileItem[]>([]);
   const [viewMode, setViewMode] = useState<FileViewMode['mode']>('list');
   const [loading, setLoading] = useState<boolean>(false);
@@ -41,6 +62,29 @@ export default function FileBrowser({ params }: Props) {
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [refreshingToken, setRefreshingToken] = useState<boolean>(false);
   const [selectedFiles, setSelectedFiles] = useState<Set<string>>(new Set());
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [pendingDelete, setPendingDelete] = useState<FileItem[] | null>(null);
+  const [pendingTransfer, setPendingTransfer] = useState<FileItem[] | null>(null);
+  const [playingFile, setPlayingFile] = useState<FileItem | null>(null);
+  const [viewingImage, setViewingImage] = useState<FileItem | null>(null);
+  const [showSearch, setShowSearch] = useState<boolean>(false);
+  const [clipboard, setClipboard] = useState<Clipboard | null>(null);
+  const dragDepth = useRef<number>(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Refresh the listing when an upload lands in the folder being viewed
+  const uploadQueue = useUploadQueue((remote, path) => {
+    if (remote === selectedRemote && path === currentPath) {
+      fetchFiles(remote, path);
+    }
+  });
+
+  // 이동/복사가 끝나면 현재 폴더가 영향을 받았을 때만 새로고침
+  const fileOperations = useFileOperations((remote, folders) => {
+    if (remote === selectedRemote && folders.includes(currentPath)) {
+      fetchFiles(remote, currentPath);
+    }
+  });
 
   // Parse URL parameters
   useEffect(() => {
@@ -88,8 +132,17 @@ export default function FileBrowser({ params }: Props) {
       const response = await fetch(`/api/rclone/files?${params}`);
       const data: FilesResponse = await response.json();
       
+      // Opening a folder above the user's granted root moves down to that root
+      const grantedRoot = !data.success && data.roots?.find(root => root && (!path || root.startsWith(`${path}/`)));
+      if (grantedRoot) {
+        window.history.replaceState(null, '', `/${encodeURIComponent(remote)}/${grantedRoot.split('/').map(p => encodeURIComponent(p)).join('/')}`);
+        setCurrentPath(grantedRoot);
+        return;
+      }
+
       if (data.success) {
         setFiles(data.files);
+        setAccessRoot(data.root || '');
         setError(null);
       } else {
         if (data.tokenExpired) {
@@ -138,6 +191,10 @@ export default function FileBrowser({ params }: Props) {
         '/browser';
       window.history.pushState(null, '', newUrl);
       setCurrentPath(newPath);
+    } else if (getMediaKind(file)) {
+      setPlayingFile(file);
+    } else if (isImageFile(file)) {
+      setViewingImage(file);
     } else {
       console.log('Download file:', file.Name);
       // TODO: Implement file download
@@ -172,6 +229,92 @@ export default function FileBrowser({ params }: Props) {
     }
   };
 
+  const getFullPath = (file: FileItem) => currentPath ? `${currentPath}/${file.Name}` : file.Name;
+
+  const runFileOperation = async (
+    operation: 'move' | 'copy' | 'rename',
+    sourceRemote: string,
+    sources: OperationSource[],
+    destinationRemote: string,
+    destination: string,
+    name?: string
+  ) => {
+    const operationError = await fileOperations.start(operation, sourceRemote, sources, destinationRemote, destination, name);
+    if (operationError) {
+      setError(operationError);
+    }
+  };
+
+  const handleRename = (file: FileItem, newName: string) => {
+    if (!selectedRemote) return;
+    runFileOperation('rename', selectedRemote, [{ path: getFullPath(file), isDir: file.IsDir }], selectedRemote, currentPath, newName);
+  };
+
+  const handleMoveToFolder = (movedFiles: FileItem[], folder: FileItem, copy: boolean) => {
+    if (!selectedRemote) return;
+    runFileOperation(
+      copy ? 'copy' : 'move',
+      selectedRemote,
+      movedFiles.map(file => ({ path: getFullPath(file), isDir: file.IsDir })),
+      selectedRemote,
+      getFullPath(folder)
+    );
+    setSelectedFiles(new Set());
+  };
+
+  const handleClipboard = (operation: Clipboard['operation']) => {
+    if (!selectedRemote) return;
+    const selectedFileItems = filteredFiles.filter(file => selectedFiles.has(file.Path));
+    setClipboard({
+      operation,
+      remote: selectedRemote,
+      items: selectedFileItems.map(file => ({ path: getFullPath(file), isDir: file.IsDir }))
+    });
+    setSelectedFiles(new Set());
+  };
+
+  // 다른 원격 저장소에서 잘라내거나 복사한 항목도 붙여넣을 수 있음
+  const handlePaste = () => {
+    if (!clipboard || !selectedRemote) return;
+    runFileOperation(clipboard.operation, clipboard.remote, clipboard.items, selectedRemote, currentPath);
+    // 잘라낸 항목은 한 번만 붙여넣을 수 있음
+    if (clipboard.operation === 'move') {
+      setClipboard(null);
+    }
+  };
+
+  const enqueueUploads = (fileList: FileList | null) => {
+    if (!selectedRemote || !fileList || fileList.length === 0) return;
+    uploadQueue.enqueue(Array.from(fileList), selectedRemote, currentPath);
+  };
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (!selectedRemote || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    dragDepth.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!selectedRemote || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = () => {
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    dragDepth.current = 0;
+    setIsDragging(false);
+    enqueueUploads(event.dataTransfer.files);
+  };
+
   const formatFileSize = (bytes?: number) => {
     if (!bytes) return '-';
     
@@ -209,6 +352,29 @@ export default function FileBrowser({ params }: Props) {
     }
   };
 
+  // 브라우저에서 OAuth 재인증 (관리자용)
+  const reauthorizeRemote = async () => {
+    if (!selectedRemote) return;
+
+    try {
+      const response = await fetch('/api/rclone/oauth', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ remote: selectedRemote, returnTo: window.location.pathname })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        window.location.href = data.authUrl;
+      } else {
+        setError(`Re-authorization failed: ${data.details || data.error}`);
+      }
+    } catch (err) {
+      setError('Failed to start re-authorization: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
   const generateBreadcrumbs = (): BreadcrumbItem[] => {
     if (!selectedRemote || !currentPath) return [];
     
@@ -230,9 +396,11 @@ export default function FileBrowser({ params }: Props) {
     file.Name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  // 경로가 변경되면 선택 해제
+  // 경로가 변경되면 선택 해제 및 플레이어 닫기
   useEffect(() => {
     setSelectedFiles(new Set());
+    setPlayingFile(null);
+    setViewingImage(null);
   }, [currentPath, selectedRemote]);
 
   return (
@@ -247,7 +415,28 @@ export default function FileBrowser({ params }: Props) {
       </aside>
 
       {/* Main Content */}
-      <main className="flex-1 flex flex-col min-w-0">
+      <main
+        className="flex-1 flex flex-col min-w-0 relative"
+        onDragEnter={handleDragEnter}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {/* Drop Overlay */}
+        {isDragging && (
+          <div className="absolute inset-0 z-30 bg-blue-50/90 border-4 border-dashed border-blue-400 flex items-center justify-center pointer-events-none">
+            <div className="text-center">
+              <svg className="mx-auto h-12 w-12 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+              </svg>
+              <p className="mt-2 text-sm font-medium text-blue-700">
+                Drop files to upload to {selectedRemote}:{currentPath ? `/${currentPath}` : '/'}
+              </p>
+            </div>
+          </div>
+        )}
+
+
         <div className="p-4 overflow-auto">
           {/* Header */}
           <div className="flex items-center justify-between mb-6">
@@ -258,6 +447,64 @@ export default function FileBrowser({ params }: Props) {
             </div>
             
             <div className="flex items-center space-x-4">
+              {/* Upload */}
+              {selectedRemote && (
+                <>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      enqueueUploads(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+                  >
+                    <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                    </svg>
+                    Upload
+                  </button>
+                </>
+              )}
+
+              {/* Paste */}
+              {clipboard && selectedRemote && (
+                <div className="inline-flex items-center rounded-lg bg-gray-100">
+                  <button
+                    onClick={handlePaste}
+                    className="px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200 rounded-l-lg transition-colors"
+                    title={clipboard.items.map(item => item.path).join('\n')}
+                  >
+                    Paste {clipboard.items.length} item{clipboard.items.length > 1 ? 's' : ''}
+                    {clipboard.remote !== selectedRemote ? ` from ${clipboard.remote}` : ' here'}
+                  </button>
+                  <button
+                    onClick={() => setClipboard(null)}
+                    className="px-2 py-2 text-gray-500 hover:text-gray-700 hover:bg-gray-200 rounded-r-lg transition-colors"
+                    title="Clear clipboard"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              )}
+
+              <a
+                href="/transfers"
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                title="Live transfer statistics"
+              >
+                Transfers
+              </a>
+
+              <ViewToggle viewMode={viewMode} onViewModeChange={setViewMode} />
+
               {/* Search */}
               <div className="relative">
                 <input
@@ -265,12 +512,26 @@ export default function FileBrowser({ params }: Props) {
                   placeholder="Search files..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyDown={(e) => {
+                    // Enter로 원격 저장소 전체 검색
+                    if (e.key === 'Enter' && selectedRemote) setShowSearch(true);
+                  }}
                   className="w-64 pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 />
                 <svg className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
                   <path fillRule="evenodd" d="M8 4a4 4 0 100 8 4 4 0 000-8zM2 8a6 6 0 1110.89 3.476l4.817 4.817a1 1 0 01-1.414 1.414l-4.816-4.816A6 6 0 012 8z" clipRule="evenodd" />
                 </svg>
               </div>
+
+              {selectedRemote && (
+                <button
+                  onClick={() => setShowSearch(true)}
+                  className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                  title="Search folders recursively with filters"
+                >
+                  Advanced search
+                </button>
+              )}
             </div>
           </div>
 
@@ -290,6 +551,7 @@ export default function FileBrowser({ params }: Props) {
               {/* Breadcrumb */}
               <Breadcrumb
                 items={generateBreadcrumbs()}
+                rootPath={accessRoot}
                 onNavigate={handleBreadcrumbNavigate}
               />
 
@@ -307,6 +569,14 @@ export default function FileBrowser({ params }: Props) {
                         {refreshingToken ? 'Refreshing...' : 'Refresh Token'}
                       </button>
                     )}
+                    {(error.includes('token expired') || error.includes('Token refresh failed')) && selectedRemote && (
+                      <button
+                        onClick={reauthorizeRemote}
+                        className="ml-2 bg-white hover:bg-red-50 border border-red-600 text-red-700 font-medium py-1 px-3 rounded text-sm transition-colors"
+                      >
+                        Re-authorize
+                      </button>
+                    )}
                   </div>
                 </div>
               )}
@@ -358,7 +628,22 @@ export default function FileBrowser({ params }: Props) {
                       <button
                         onClick={() => {
                           const selectedFileItems = filteredFiles.filter(file => selectedFiles.has(file.Path));
-                          console.log('Download selected:', selectedFileItems.map(f => f.Name));
+                          if (selectedFileItems.length === 0) return;
+
+                          const fullPath = (file: FileItem) => currentPath ? `${currentPath}/${file.Name}` : file.Name;
+                          if (selectedFileItems.length === 1 && !selectedFileItems[0].IsDir) {
+                            const link = document.createElement('a');
+                            link.href = `/api/rclone/download?remote=${encodeURIComponent(selectedRemote)}&path=${encodeURIComponent(fullPath(selectedFileItems[0]))}`;
+                            link.download = selectedFileItems[0].Name;
+                            link.style.display = 'none';
+                            document.body.appendChild(link);
+                            link.click();
+                            document.body.removeChild(link);
+                            return;
+                          }
+
+                          // 여러 항목이나 폴더는 하나의 ZIP으로 스트리밍
+                          downloadArchive(selectedRemote, currentPath, selectedFileItems.map(file => ({ path: fullPath(file), isDir: file.IsDir })));
                         }}
                         className="inline-flex items-center px-3 py-2 text-sm font-medium text-blue-700 bg-blue-100 hover:bg-blue-200 rounded-md transition-colors"
                       >
@@ -369,22 +654,44 @@ export default function FileBrowser({ params }: Props) {
                       </button>
                       
                       <button
-                        onClick={() => {
-                          const selectedFileItems = filteredFiles.filter(file => selectedFiles.has(file.Path));
-                          console.log('Move selected:', selectedFileItems.map(f => f.Name));
-                        }}
+                        onClick={() => handleClipboard('move')}
                         className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                        title="Cut, then paste in another folder to move"
                       >
                         <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
                         </svg>
-                        Move
+                        Cut
                       </button>
+
+                      <button
+                        onClick={() => handleClipboard('copy')}
+                        className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                        title="Copy, then paste in another folder"
+                      >
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                        </svg>
+                        Copy
+                      </button>
+
+                      {remotes.length > 1 && (
+                        <button
+                          onClick={() => setPendingTransfer(filteredFiles.filter(file => selectedFiles.has(file.Path)))}
+                          className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                          title="Copy or move to another remote"
+                        >
+                          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
+                          </svg>
+                          Transfer
+                        </button>
+                      )}
                       
                       <button
                         onClick={() => {
                           const selectedFileItems = filteredFiles.filter(file => selectedFiles.has(file.Path));
-                          console.log('Delete selected:', selectedFileItems.map(f => f.Name));
+                          setPendingDelete(selectedFileItems);
                         }}
                         className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-700 bg-red-100 hover:bg-red-200 rounded-md transition-colors"
                       >
@@ -421,22 +728,121 @@ export default function FileBrowser({ params }: Props) {
                 </div>
               ) : (
                 <div className="bg-white rounded-lg border border-gray-200">
-                  <FileList
-                    files={filteredFiles}
-                    onFileClick={handleFileClick}
-                    onFileDoubleClick={handleFileDoubleClick}
-                    selectedFiles={selectedFiles}
-                    onFileSelect={handleFileSelect}
-                    onSelectAll={handleSelectAll}
-                    currentRemote={selectedRemote || ''}
-                    currentPath={currentPath}
-                  />
+                  {viewMode === 'grid' ? (
+                    <FileGrid
+                      files={filteredFiles}
+                      onFileClick={handleFileClick}
+                      onFileDoubleClick={handleFileDoubleClick}
+                      currentRemote={selectedRemote || ''}
+                      currentPath={currentPath}
+                    />
+                  ) : (
+                    <FileList
+                      files={filteredFiles}
+                      onFileClick={handleFileClick}
+                      onFileDoubleClick={handleFileDoubleClick}
+                      selectedFiles={selectedFiles}
+                      onFileSelect={handleFileSelect}
+                      onSelectAll={handleSelectAll}
+                      currentRemote={selectedRemote || ''}
+                      currentPath={currentPath}
+                      onRename={handleRename}
+                      onMoveToFolder={handleMoveToFolder}
+                    />
+                  )}
                 </div>
               )}
             </>
           )}
         </div>
       </main>
+
+      {pendingDelete && selectedRemote && (
+        <DeleteDialog
+          remote={selectedRemote}
+          currentPath={currentPath}
+          items={pendingDelete}
+          onClose={(deleted) => {
+            setPendingDelete(null);
+            if (deleted) {
+              setSelectedFiles(new Set());
+              fetchFiles(selectedRemote, currentPath);
+            }
+          }}
+        />
+      )}
+
+      {pendingTransfer && selectedRemote && (
+        <TransferDialog
+          remotes={remotes}
+          sourceRemote={selectedRemote}
+          items={pendingTransfer}
+          onClose={() => setPendingTransfer(null)}
+          onSubmit={(operation, destinationRemote, destination) => {
+            runFileOperation(
+              operation,
+              selectedRemote,
+              pendingTransfer.map(file => ({ path: getFullPath(file), isDir: file.IsDir })),
+              destinationRemote,
+              destination
+            );
+            setPendingTransfer(null);
+            setSelectedFiles(new Set());
+          }}
+        />
+      )}
+
+      {playingFile && selectedRemote && (
+        <MediaPlayer
+          remote={selectedRemote}
+          currentPath={currentPath}
+          files={files}
+          file={playingFile}
+          onClose={() => setPlayingFile(null)}
+        />
+      )}
+
+      {showSearch && selectedRemote && (
+        <SearchPanel
+          remote={selectedRemote}
+          currentPath={currentPath}
+          initialQuery={searchQuery}
+          onNavigate={(path, remote) => {
+            setShowSearch(false);
+            setSearchQuery('');
+            // 인덱스 검색 결과는 다른 원격 저장소에 있을 수 있음
+            window.history.pushState(null, '', `/${encodeURIComponent(remote)}${path ? '/' + path.split('/').map(p => encodeURIComponent(p)).join('/') : ''}`);
+            setSelectedRemote(remote);
+            setCurrentPath(path);
+          }}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
+
+      {viewingImage && selectedRemote && (
+        <ImageLightbox
+          remote={selectedRemote}
+          currentPath={currentPath}
+          files={filteredFiles}
+          file={viewingImage}
+          onClose={() => setViewingImage(null)}
+        />
+      )}
+
+      <div className="fixed bottom-4 right-4 w-96 z-40 space-y-2">
+        <OperationQueue
+          items={fileOperations.items}
+          onCancel={fileOperations.cancel}
+          onDismiss={fileOperations.dismiss}
+          onClearFinished={fileOperations.clearFinished}
+        />
+        <UploadQueue
+          items={uploadQueue.items}
+          onCancel={uploadQueue.cancel}
+          onRetry={uploadQueue.retry}
+          onClearFinished={uploadQueue.clearFinished}
+        />
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,330 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface AuditRow {
+  id: string;
+  userId: string | null;
+  username: string | null;
+  action: string;
+  resource: string | null;
+  details: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  success: boolean;
+  createdAt: string;
+}
+
+interface Filters {
+  userId: string;
+  action: string;
+  resource: string;
+  success: '' | 'true' | 'false';
+  // yyyy-mm-dd from the date inputs, interpreted in the browser's time zone
+  fromDate: string;
+  toDate: string;
+}
+
+const EMPTY_FILTERS: Filters = { userId: '', action: '', resource: '', success: '', fromDate: '', toDate: '' };
+const PAGE_SIZE = 50;
+
+function toQuery(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.userId) params.set('userId', filters.userId);
+  if (filters.action) params.set('action', filters.action);
+  if (filters.resource) params.set('resource', filters.resource);
+  if (filters.success) params.set('success', filters.success);
+  if (filters.fromDate) params.set('from', new Date(`${filters.fromDate}T00:00:00`).toISOString());
+  if (filters.toDate) params.set('to', new Date(`${filters.toDate}T23:59:59.999`).toISOString());
+  return params;
+}
+
+export default function AuditPage() {
+  const [entries, setEntries] = useState<AuditRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [users, setUsers] = useState<{ id: string; username: string }[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [resources, setResources] = useState<string[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  // Form state, and the filters of the page being shown (used by export)
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = async (applied: Filters, pageNumber: number) => {
+    setLoading(true);
+    try {
+      const params = toQuery(applied);
+      params.set('page', String(pageNumber));
+      params.set('pageSize', String(PAGE_SIZE));
+      const response = await fetch(`/api/admin/audit?${params}`);
+      const data = await response.json();
+      if (data.success) {
+        setEntries(data.entries);
+        setTotal(data.total);
+        setActions(data.actions);
+        setResources(data.resources);
+        setRetentionDays(data.retentionDays);
+        setError(null);
+      } else {
+        setError(data.details || data.error || 'Failed to load audit log');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/admin/users');
+      const data = await response.json();
+      if (data.success) {
+        setUsers(data.users);
+      }
+    } catch (err) {
+      console.error('Failed to load users:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  useEffect(() => {
+    fetchEntries(filters, page);
+  }, [filters, page]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters(draft);
+  };
+
+  const resetFilters = () => {
+    setDraft(EMPTY_FILTERS);
+    setPage(1);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const exportUrl = (format: 'csv' | 'json') => {
+    const params = toQuery(filters);
+    params.set('format', format);
+    return `/api/admin/audit/export?${params}`;
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const inputClass = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm';
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Audit log</h1>
+            <p className="text-sm text-gray-500">
+              Sign-ins, file access and administrative changes.{' '}
+              {retentionDays > 0
+                ? `Entries are kept for ${retentionDays} days.`
+                : 'Entries are kept until AUDIT_RETENTION_DAYS is set.'}
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <a
+              href={exportUrl('csv')}
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Export CSV
+            </a>
+            <a
+              href={exportUrl('json')}
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Export JSON
+            </a>
+            <a
+              href="/"
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Back
+            </a>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {/* Filters */}
+        <form onSubmit={applyFilters} className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">User</span>
+              <select
+                value={draft.userId}
+                onChange={(e) => setDraft({ ...draft, userId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                {users.map(user => (
+                  <option key={user.id} value={user.id}>{user.username}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Action</span>
+              <select
+                value={draft.action}
+                onChange={(e) => setDraft({ ...draft, action: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                {actions.map(action => (
+                  <option key={action} value={action}>{action}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Resource</span>
+              <select
+                value={draft.resource}
+                onChange={(e) => setDraft({ ...draft, resource: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                {resources.map(resource => (
+                  <option key={resource} value={resource}>{resource}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Result</span>
+              <select
+                value={draft.success}
+                onChange={(e) => setDraft({ ...draft, success: e.target.value as Filters['success'] })}
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                <option value="true">Success</option>
+                <option value="false">Failure</option>
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">From</span>
+              <input
+                type="date"
+                value={draft.fromDate}
+                onChange={(e) => setDraft({ ...draft, fromDate: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">To</span>
+              <input
+                type="date"
+                value={draft.toDate}
+                onChange={(e) => setDraft({ ...draft, toDate: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={resetFilters}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Reset
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+            >
+              Apply
+            </button>
+          </div>
+        </form>
+
+        {/* Entries */}
+        <div className="bg-white rounded-lg shadow-sm border p-6 overflow-x-auto">
+          {loading && entries.length === 0 ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500">No entries match these filters.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 font-medium">Time</th>
+                  <th className="py-2 font-medium">User</th>
+                  <th className="py-2 font-medium">Action</th>
+                  <th className="py-2 font-medium">Result</th>
+                  <th className="py-2 font-medium">IP</th>
+                  <th className="py-2 font-medium">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.id} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-2 text-gray-500 whitespace-nowrap">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </td>
+                    <td className="py-2 pr-2 text-gray-900">
+                      {entry.username || (entry.userId ? <span className="text-gray-400">deleted user</span> : <span className="text-gray-400">system</span>)}
+                    </td>
+                    <td className="py-2 pr-2">
+                      <span className="font-mono text-xs text-gray-900">{entry.action}</span>
+                      {entry.resource && <div className="text-xs text-gray-500">{entry.resource}</div>}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {entry.success ? (
+                        <span className="text-green-700">Success</span>
+                      ) : (
+                        <span className="text-red-600">Failure</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-2 text-gray-500 whitespace-nowrap" title={entry.userAgent || undefined}>
+                      {entry.ipAddress || '-'}
+                    </td>
+                    <td className="py-2 font-mono text-xs text-gray-600 break-all">
+                      {entry.details ? JSON.stringify(entry.details) : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {/* Pagination */}
+          {total > 0 && (
+            <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+              <span>
+                {total} entr{total === 1 ? 'y' : 'ies'} · page {page} of {pageCount}
+              </span>
+              <div className="space-x-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1 || loading}
+                  className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pageCount || loading}
+                  className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,309 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface BandwidthStatus {
+  rate: string;
+  bytesPerSecondTx: number;
+  bytesPerSecondRx: number;
+}
+
+interface ScheduleEntry {
+  id?: string;
+  dayOfWeek: number | null;
+  startTime: string;
+  upload: string;
+  download: string;
+  enabled: boolean;
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function formatLimit(bytesPerSecond: number) {
+  if (bytesPerSecond < 0) return 'Unlimited';
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  if (bytesPerSecond === 0) return '0 B/s';
+  const i = Math.min(Math.floor(Math.log(bytesPerSecond) / Math.log(1024)), sizes.length - 1);
+  return Math.round(bytesPerSecond / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i] + '/s';
+}
+
+export default function BandwidthSettingsPage() {
+  const [current, setCurrent] = useState<BandwidthStatus | null>(null);
+  const [schedule, setSchedule] = useState<ScheduleEntry[]>([]);
+  const [activeEntryId, setActiveEntryId] = useState<string | null>(null);
+  const [upload, setUpload] = useState('off');
+  const [download, setDownload] = useState('off');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/rclone/bwlimit');
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.details || data.error || 'Failed to load bandwidth settings');
+        return;
+      }
+      setCurrent(data.current);
+      setSchedule(data.schedule);
+      setActiveEntryId(data.activeEntryId);
+      setError(null);
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const handleApplyLimit = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/rclone/bwlimit', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ upload, download })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setCurrent(data.current);
+        setError(null);
+        setMessage('Bandwidth limit applied');
+      } else {
+        setError(data.details || data.error || 'Failed to set bandwidth limit');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveSchedule = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/rclone/bwlimit/schedule', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entries: schedule })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setSchedule(data.schedule);
+        setActiveEntryId(data.activeEntryId);
+        setError(null);
+        setMessage('Schedule saved');
+        // The entry in effect has been applied; show the resulting limit
+        fetchSettings();
+      } else {
+        setError(data.details || data.error || 'Failed to save schedule');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateEntry = (index: number, changes: Partial<ScheduleEntry>) => {
+    setSchedule(prev => prev.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+  };
+
+  const addEntry = () => {
+    setSchedule(prev => [...prev, { dayOfWeek: null, startTime: '09:00', upload: '10M', download: '10M', enabled: true }]);
+  };
+
+  const removeEntry = (index: number) => {
+    setSchedule(prev => prev.filter((_, i) => i !== index));
+  };
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Bandwidth</h1>
+            <p className="text-sm text-gray-500">Throttle the rclone daemon now or on a time-of-day schedule</p>
+          </div>
+          <a
+            href="/transfers"
+            className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            Back
+          </a>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">{message}</div>
+        )}
+
+        {/* Current limit */}
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Current limit</h2>
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : current && (
+            <div className="grid grid-cols-2 gap-4 mb-6">
+              <div>
+                <div className="text-xs text-gray-500">Upload</div>
+                <div className="text-xl font-semibold text-gray-900">{formatLimit(current.bytesPerSecondTx)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Download</div>
+                <div className="text-xl font-semibold text-gray-900">{formatLimit(current.bytesPerSecondRx)}</div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-end space-x-3">
+            <label className="text-sm text-gray-700">
+              Upload
+              <input
+                type="text"
+                value={upload}
+                onChange={(e) => setUpload(e.target.value)}
+                className="mt-1 block w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                placeholder="off"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Download
+              <input
+                type="text"
+                value={download}
+                onChange={(e) => setDownload(e.target.value)}
+                className="mt-1 block w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                placeholder="off"
+              />
+            </label>
+            <button
+              onClick={handleApplyLimit}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Apply now
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Use sizes such as 512K or 10M (bytes per second), or &quot;off&quot; for no limit.
+            A manual limit holds until the next scheduled start time.
+          </p>
+        </div>
+
+        {/* Schedule */}
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Schedule</h2>
+            <button
+              onClick={addEntry}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Add entry
+            </button>
+          </div>
+
+          {schedule.length === 0 ? (
+            <p className="text-sm text-gray-500">No schedule. The limit only changes when set manually.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 font-medium">Day</th>
+                  <th className="py-2 font-medium">From</th>
+                  <th className="py-2 font-medium">Upload</th>
+                  <th className="py-2 font-medium">Download</th>
+                  <th className="py-2 font-medium">Enabled</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {schedule.map((entry, index) => (
+                  <tr
+                    key={entry.id || `new-${index}`}
+                    className={`border-b last:border-0 ${entry.id && entry.id === activeEntryId ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="py-2 pr-2">
+                      <select
+                        value={entry.dayOfWeek === null ? '' : String(entry.dayOfWeek)}
+                        onChange={(e) => updateEntry(index, { dayOfWeek: e.target.value === '' ? null : parseInt(e.target.value, 10) })}
+                        className="px-2 py-1 border border-gray-300 rounded"
+                      >
+                        <option value="">Every day</option>
+                        {DAYS.map((day, value) => (
+                          <option key={day} value={value}>{day}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="time"
+                        value={entry.startTime}
+                        onChange={(e) => updateEntry(index, { startTime: e.target.value })}
+                        className="px-2 py-1 border border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="text"
+                        value={entry.upload}
+                        onChange={(e) => updateEntry(index, { upload: e.target.value })}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="text"
+                        value={entry.download}
+                        onChange={(e) => updateEntry(index, { download: e.target.value })}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={entry.enabled}
+                        onChange={(e) => updateEntry(index, { enabled: e.target.checked })}
+                      />
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => removeEntry(index)}
+                        className="text-xs text-gray-500 hover:text-red-600"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex items-center justify-between mt-4">
+            <p className="text-xs text-gray-500">
+              Each entry applies from its start time (server time) until the next entry starts.
+            </p>
+            <button
+              onClick={handleSaveSchedule}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Save schedule
+            </button>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
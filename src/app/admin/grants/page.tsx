@@ -0,0 +1,378 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { PERMISSION_CATALOG, AccessExplanation } from '@/lib/permissions';
+import type { GrantSummary } from '@/lib/grants';
+import FolderTree from '@/components/admin/FolderTree';
+
+interface UserOption {
+  id: string;
+  username: string;
+  isActive: boolean;
+}
+
+interface EffectiveAccess {
+  isActive: boolean;
+  access: AccessExplanation[];
+}
+
+// Defaults for a new grant: enough to see the remote and browse and download the folder
+const DEFAULT_SELECTION = ['remote:list', 'file:read', 'file:download'];
+
+function describeScope(grant: GrantSummary): string {
+  const path = grant.filePath ?? grant.folderPath;
+  return `${grant.remoteName || 'all remotes'}:${path ? `/${path}` : ' (whole remote)'}`;
+}
+
+export default function GrantsPage() {
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [remotes, setRemotes] = useState<string[]>([]);
+  const [catalog, setCatalog] = useState<typeof PERMISSION_CATALOG>([]);
+  const [userId, setUserId] = useState('');
+  const [remote, setRemote] = useState('');
+  const [folderPath, setFolderPath] = useState('');
+  const [selection, setSelection] = useState<string[]>(DEFAULT_SELECTION);
+  const [grants, setGrants] = useState<GrantSummary[]>([]);
+  const [effective, setEffective] = useState<EffectiveAccess | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchOptions = async () => {
+    try {
+      const [usersResponse, remotesResponse] = await Promise.all([
+        fetch('/api/admin/users'),
+        fetch('/api/rclone/remotes')
+      ]);
+      const usersData = await usersResponse.json();
+      const remotesData = await remotesResponse.json();
+      if (usersData.success) {
+        setUsers(usersData.users);
+      } else {
+        setError(usersData.details || usersData.error || 'Failed to load users');
+      }
+      if (remotesData.success) {
+        setRemotes(remotesData.remotes);
+        setRemote(current => current || remotesData.remotes[0] || '');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const fetchGrants = async (id: string) => {
+    try {
+      const response = await fetch(`/api/admin/grants?userId=${encodeURIComponent(id)}`);
+      const data = await response.json();
+      if (data.success) {
+        setGrants(data.grants);
+        setCatalog(data.permissions);
+      } else {
+        setError(data.details || data.error || 'Failed to load grants');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const fetchEffective = async (id: string, remoteName: string, path: string) => {
+    try {
+      const params = new URLSearchParams({ userId: id, remote: remoteName, path });
+      const response = await fetch(`/api/admin/grants/effective?${params}`);
+      const data = await response.json();
+      if (data.success) {
+        setEffective({ isActive: data.isActive, access: data.access });
+      } else {
+        setEffective(null);
+        setError(data.details || data.error || 'Failed to resolve effective access');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  useEffect(() => {
+    fetchOptions();
+  }, []);
+
+  useEffect(() => {
+    if (userId) {
+      fetchGrants(userId);
+    } else {
+      setGrants([]);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId && remote) {
+      fetchEffective(userId, remote, folderPath);
+    } else {
+      setEffective(null);
+    }
+  }, [userId, remote, folderPath]);
+
+  const togglePermission = (name: string) => {
+    setSelection(current =>
+      current.includes(name) ? current.filter(permission => permission !== name) : [...current, name]
+    );
+  };
+
+  const handleSave = async (granted: boolean) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/admin/grants', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, remote, folderPath, permissions: selection, granted })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setError(null);
+        setMessage(`${granted ? 'Granted' : 'Denied'} ${selection.join(', ')} on ${remote}:/${folderPath}`);
+        fetchGrants(userId);
+        fetchEffective(userId, remote, folderPath);
+      } else {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to save grant');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (grant: GrantSummary) => {
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/admin/grants?id=${encodeURIComponent(grant.id)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        setError(null);
+        setMessage(`Removed ${grant.permission} on ${describeScope(grant)}`);
+        fetchGrants(userId);
+        fetchEffective(userId, remote, folderPath);
+      } else {
+        setError(data.details || data.error || 'Failed to delete grant');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const selectedUser = users.find(user => user.id === userId);
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Access grants</h1>
+            <p className="text-sm text-gray-500">Grant or deny actions on a remote folder and everything below it</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <a
+              href="/admin/users"
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Users
+            </a>
+            <a
+              href="/"
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Back
+            </a>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">{message}</div>
+        )}
+
+        {/* User and remote */}
+        <div className="bg-white rounded-lg shadow-sm border p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">User</span>
+            <select
+              value={userId}
+              onChange={(e) => {
+                setMessage(null);
+                setUserId(e.target.value);
+              }}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">Select a user</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>
+                  {user.username}{user.isActive ? '' : ' (inactive)'}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Remote</span>
+            <select
+              value={remote}
+              onChange={(e) => {
+                setRemote(e.target.value);
+                setFolderPath('');
+              }}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {remotes.length === 0 && <option value="">No remotes</option>}
+              {remotes.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {userId && remote && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Folder tree */}
+            <div className="bg-white rounded-lg shadow-sm border p-6 overflow-x-auto">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Folder</h2>
+              <FolderTree remote={remote} selectedPath={folderPath} onSelect={setFolderPath} />
+            </div>
+
+            <div className="lg:col-span-2 space-y-6">
+              {/* Grant editor */}
+              <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  {remote}:/{folderPath}
+                </h2>
+                <div className="space-y-1">
+                  {catalog.map(permission => (
+                    <label key={permission.name} className="flex items-start space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={selection.includes(permission.name)}
+                        onChange={() => togglePermission(permission.name)}
+                        className="mt-0.5"
+                      />
+                      <span>
+                        <span className="font-mono text-gray-900">{permission.name}</span>
+                        <span className="block text-xs text-gray-500">{permission.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Grants and denies apply to the folder and everything below it. A deny always wins,
+                  including over role permissions.
+                </p>
+                <div className="flex justify-end space-x-3">
+                  <button
+                    onClick={() => handleSave(false)}
+                    disabled={saving || selection.length === 0}
+                    className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Deny
+                  </button>
+                  <button
+                    onClick={() => handleSave(true)}
+                    disabled={saving || selection.length === 0}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Grant'}
+                  </button>
+                </div>
+              </div>
+
+              {/* Effective access inspector */}
+              <div className="bg-white rounded-lg shadow-sm border p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-1">Effective access</h2>
+                <p className="text-xs text-gray-500 mb-4">
+                  What {selectedUser?.username || 'the user'} may do on {remote}:/{folderPath}, and why
+                </p>
+                {effective && !effective.isActive && (
+                  <p className="mb-3 text-sm text-yellow-700">This user is inactive and has no access at all.</p>
+                )}
+                {effective && (
+                  <ul className="space-y-3 text-sm">
+                    {effective.access.map(entry => (
+                      <li key={entry.permission}>
+                        <div className="flex items-center space-x-2">
+                          <span className={entry.allowed ? 'text-green-700' : 'text-red-600'}>
+                            {entry.allowed ? 'Allowed' : 'Denied'}
+                          </span>
+                          <span className="font-mono text-gray-900">{entry.permission}</span>
+                          {entry.allowed && entry.root !== null && (
+                            <span className="text-xs text-gray-500">from {remote}:/{entry.root}</span>
+                          )}
+                        </div>
+                        <ul className="ml-4 text-xs text-gray-500 list-disc list-inside">
+                          {entry.reasons.map(reason => (
+                            <li key={reason}>{reason}</li>
+                          ))}
+                        </ul>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Existing grants */}
+              <div className="bg-white rounded-lg shadow-sm border p-6 overflow-x-auto">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Grants of {selectedUser?.username}</h2>
+                {grants.length === 0 ? (
+                  <p className="text-sm text-gray-500">No grants or denies. The user only has their role permissions.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 font-medium">Scope</th>
+                        <th className="py-2 font-medium">Permission</th>
+                        <th className="py-2 font-medium">Effect</th>
+                        <th className="py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {grants.map(grant => (
+                        <tr key={grant.id} className="border-b last:border-0">
+                          <td className="py-2 pr-2">
+                            {grant.remoteName === remote ? (
+                              <button
+                                onClick={() => setFolderPath(grant.folderPath || '')}
+                                className="text-left text-gray-900 hover:text-blue-600"
+                              >
+                                {describeScope(grant)}
+                              </button>
+                            ) : (
+                              <span className="text-gray-700">{describeScope(grant)}</span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-2 font-mono text-xs">{grant.permission}</td>
+                          <td className="py-2 pr-2">
+                            {grant.granted ? (
+                              <span className="text-green-700">Grant</span>
+                            ) : (
+                              <span className="text-red-600">Deny</span>
+                            )}
+                          </td>
+                          <td className="py-2 text-right">
+                            <button
+                              onClick={() => handleDelete(grant)}
+                              className="text-xs text-gray-500 hover:text-red-600"
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
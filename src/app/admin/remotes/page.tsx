@@ -0,0 +1,248 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { Provider, RemoteConfig } from '@/lib/remote-config';
+import RemoteConfigForm from '@/components/admin/RemoteConfigForm';
+
+interface RemoteSummary {
+  name: string;
+  type: string;
+  oauth: boolean;
+}
+
+type EditorState = { mode: 'create' } | { mode: 'edit'; remote: RemoteConfig } | null;
+
+export default function RemoteSettingsPage() {
+  const [remotes, setRemotes] = useState<RemoteSummary[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [canCreate, setCanCreate] = useState(false);
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchRemotes = async () => {
+    try {
+      const response = await fetch('/api/rclone/config');
+      const data = await response.json();
+      if (data.success) {
+        setRemotes(data.remotes);
+        setCanCreate(data.canCreate);
+        setError(null);
+      } else {
+        setError(data.details || data.error || 'Failed to load remotes');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    // Show the result of an OAuth re-authorization redirect once the list has loaded
+    fetchRemotes().then(() => {
+      const params = new URLSearchParams(window.location.search);
+      if (params.get('reauthorized')) {
+        setMessage(`Remote ${params.get('reauthorized')} re-authorized`);
+      } else if (params.get('oauthError')) {
+        setError(`Re-authorization failed: ${params.get('oauthError')}`);
+      }
+    });
+
+    fetch('/api/rclone/config/providers')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setProviders(data.providers);
+      })
+      .catch(err => console.error('Failed to load providers:', err));
+  }, []);
+
+  const openEditor = async (name: string) => {
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/rclone/config?name=${encodeURIComponent(name)}`);
+      const data = await response.json();
+      if (data.success) {
+        setEditor({ mode: 'edit', remote: data.remote });
+        setError(null);
+      } else {
+        setError(data.details || data.error || 'Failed to load remote');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const handleSubmit = async (name: string, type: string, parameters: Record<string, string>) => {
+    const isNew = editor?.mode === 'create';
+    setSaving(true);
+    try {
+      const response = await fetch('/api/rclone/config', {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, type, parameters })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setEditor(null);
+        setError(null);
+        setMessage(isNew ? `Remote ${name} created` : `Remote ${name} updated`);
+        fetchRemotes();
+      } else {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to save remote');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Send the browser through the provider's consent screen; the callback brings it back here
+  const handleReauthorize = async (name: string) => {
+    setMessage(null);
+    try {
+      const response = await fetch('/api/rclone/oauth', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ remote: name, returnTo: '/admin/remotes' })
+      });
+      const data = await response.json();
+      if (data.success) {
+        window.location.href = data.authUrl;
+      } else {
+        setError(data.details || data.error || 'Failed to start re-authorization');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!confirm(`Delete remote "${name}" from the rclone config? Files on the remote are not touched.`)) return;
+
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/rclone/config?name=${encodeURIComponent(name)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        if (editor?.mode === 'edit' && editor.remote.name === name) setEditor(null);
+        setMessage(data.message);
+        fetchRemotes();
+      } else {
+        setError(data.details || data.error || 'Failed to delete remote');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Remotes</h1>
+            <p className="text-sm text-gray-500">Create, edit and delete rclone remotes</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            {canCreate && (
+              <button
+                onClick={() => {
+                  setMessage(null);
+                  setEditor({ mode: 'create' });
+                }}
+                className="px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+              >
+                New remote
+              </button>
+            )}
+            <a
+              href="/"
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Back
+            </a>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">{message}</div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Remote list */}
+          <div className="bg-white rounded-lg shadow-sm border p-4 md:col-span-1">
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : remotes.length === 0 ? (
+              <p className="text-sm text-gray-500">No remotes configured.</p>
+            ) : (
+              <ul className="divide-y">
+                {remotes.map(remote => (
+                  <li key={remote.name} className="py-2 flex items-center justify-between">
+                    <button
+                      onClick={() => openEditor(remote.name)}
+                      className={`text-left text-sm truncate ${
+                        editor?.mode === 'edit' && editor.remote.name === remote.name ? 'font-semibold text-blue-700' : 'text-gray-900 hover:text-blue-600'
+                      }`}
+                    >
+                      {remote.name}
+                      <span className="ml-2 text-xs text-gray-500">{remote.type}</span>
+                    </button>
+                    <div className="flex-shrink-0 ml-2 space-x-2">
+                      {remote.oauth && (
+                        <button
+                          onClick={() => handleReauthorize(remote.name)}
+                          className="text-xs text-gray-500 hover:text-blue-600"
+                        >
+                          Re-authorize
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDelete(remote.name)}
+                        className="text-xs text-gray-500 hover:text-red-600"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Editor */}
+          <div className="bg-white rounded-lg shadow-sm border p-6 md:col-span-2">
+            {editor ? (
+              <>
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                  {editor.mode === 'create' ? 'New remote' : `Edit ${editor.remote.name}`}
+                </h2>
+                <RemoteConfigForm
+                  key={editor.mode === 'edit' ? editor.remote.name : 'new'}
+                  providers={providers}
+                  remote={editor.mode === 'edit' ? editor.remote : undefined}
+                  saving={saving}
+                  onSubmit={handleSubmit}
+                  onCancel={() => setEditor(null)}
+                />
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Select a remote to edit it. Secret values such as passwords and tokens are never shown;
+                leave them blank to keep the current value.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { PERMISSION_CATALOG } from '@/lib/permissions';
+import type { RoleDetails } from '@/lib/roles';
+import RoleForm, { RoleFormValues } from '@/components/admin/RoleForm';
+
+// System roles open read-only; "Duplicate" starts a custom role from their permissions
+type EditorState =
+  | { mode: 'create'; initial?: RoleFormValues }
+  | { mode: 'edit'; role: RoleDetails }
+  | { mode: 'view'; role: RoleDetails }
+  | null;
+
+function toFormValues(role: RoleDetails): RoleFormValues {
+  return {
+    name: role.name,
+    description: role.description || '',
+    permissions: role.permissions
+  };
+}
+
+export default function RolesPage() {
+  const [roles, setRoles] = useState<RoleDetails[]>([]);
+  const [catalog, setCatalog] = useState<typeof PERMISSION_CATALOG>([]);
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchRoles = async () => {
+    try {
+      const response = await fetch('/api/admin/roles');
+      const data = await response.json();
+      if (data.success) {
+        setRoles(data.roles);
+        setCatalog(data.permissions);
+        setError(null);
+      } else {
+        setError(data.details || data.error || 'Failed to load roles');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  const openRole = (role: RoleDetails) => {
+    setMessage(null);
+    setEditor(role.isSystem ? { mode: 'view', role } : { mode: 'edit', role });
+  };
+
+  const handleSubmit = async (values: RoleFormValues) => {
+    const isNew = editor?.mode === 'create';
+    setSaving(true);
+    try {
+      const response = await fetch('/api/admin/roles', {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isNew ? values : { id: editor?.mode === 'edit' ? editor.role.id : '', ...values })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setEditor(null);
+        setError(null);
+        setMessage(`Role ${data.role.name} ${isNew ? 'created' : 'updated'}`);
+        fetchRoles();
+      } else {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to save role');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: RoleDetails) => {
+    const holders = role.userCount === 1 ? '1 user loses it' : `${role.userCount} users lose it`;
+    if (!confirm(`Delete role "${role.name}"? ${holders}. This cannot be undone.`)) return;
+
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/admin/roles?id=${encodeURIComponent(role.id)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        if (editor?.mode === 'edit' && editor.role.id === role.id) setEditor(null);
+        setError(null);
+        setMessage(data.message);
+        fetchRoles();
+      } else {
+        setError(data.details || data.error || 'Failed to delete role');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const describePermission = (name: string) =>
+    catalog.find(permission => permission.name === name)?.description;
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Roles</h1>
+            <p className="text-sm text-gray-500">Bundle permissions into roles that can be assigned to users</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => {
+                setMessage(null);
+                setEditor({ mode: 'create' });
+              }}
+              className="px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+            >
+              New role
+            </button>
+            <a
+              href="/admin/users"
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Users
+            </a>
+            <a
+              href="/"
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Back
+            </a>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">{message}</div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Role list */}
+          <div className="bg-white rounded-lg shadow-sm border p-6 lg:col-span-2 overflow-x-auto">
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : roles.length === 0 ? (
+              <p className="text-sm text-gray-500">No roles. Run the database seed to create the system roles.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 font-medium">Role</th>
+                    <th className="py-2 font-medium">Permissions</th>
+                    <th className="py-2 font-medium">Users</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {roles.map(role => (
+                    <tr key={role.id} className="border-b last:border-0 align-top">
+                      <td className="py-2 pr-2">
+                        <button
+                          onClick={() => openRole(role)}
+                          className={`text-left ${
+                            editor && editor.mode !== 'create' && editor.role.id === role.id
+                              ? 'font-semibold text-blue-700'
+                              : 'text-gray-900 hover:text-blue-600'
+                          }`}
+                        >
+                          {role.name}
+                        </button>
+                        {role.isSystem && (
+                          <span className="ml-2 px-1.5 py-0.5 text-xs text-gray-600 bg-gray-100 rounded">System</span>
+                        )}
+                        {role.description && <div className="text-xs text-gray-500">{role.description}</div>}
+                      </td>
+                      <td className="py-2 pr-2 text-gray-700">
+                        {role.permissions.length > 0 ? (
+                          <span className="font-mono text-xs">{role.permissions.join(', ')}</span>
+                        ) : (
+                          <span className="text-gray-400">None</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2 text-gray-500">{role.userCount}</td>
+                      <td className="py-2 text-right whitespace-nowrap space-x-2">
+                        <button
+                          onClick={() => {
+                            setMessage(null);
+                            setEditor({
+                              mode: 'create',
+                              initial: { ...toFormValues(role), name: `${role.name} (copy)` }
+                            });
+                          }}
+                          className="text-xs text-gray-500 hover:text-blue-600"
+                        >
+                          Duplicate
+                        </button>
+                        {!role.isSystem && (
+                          <button
+                            onClick={() => handleDelete(role)}
+                            className="text-xs text-gray-500 hover:text-red-600"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Editor */}
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            {editor?.mode === 'view' ? (
+              <>
+                <h2 className="text-lg font-semibold text-gray-900 mb-1">{editor.role.name}</h2>
+                <p className="text-xs text-gray-500 mb-4">
+                  System roles are restored on every start and cannot be changed or deleted.
+                  Duplicate this role to customise it.
+                </p>
+                <ul className="space-y-1 text-sm">
+                  {editor.role.permissions.map(name => (
+                    <li key={name}>
+                      <span className="font-mono text-gray-900">{name}</span>
+                      {describePermission(name) && (
+                        <span className="block text-xs text-gray-500">{describePermission(name)}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : editor ? (
+              <>
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                  {editor.mode === 'create' ? 'New role' : `Edit ${editor.role.name}`}
+                </h2>
+                <RoleForm
+                  key={editor.mode === 'edit' ? editor.role.id : editor.initial?.name || 'new'}
+                  catalog={catalog}
+                  role={editor.mode === 'edit' ? toFormValues(editor.role) : editor.initial}
+                  isNew={editor.mode === 'create'}
+                  saving={saving}
+                  onSubmit={handleSubmit}
+                  onCancel={() => setEditor(null)}
+                />
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Select a role to see its permissions. Custom roles can be edited and deleted;
+                a change that would leave no active user administrator is refused.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
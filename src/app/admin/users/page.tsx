@@ -0,0 +1,437 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { RoleSummary } from '@/lib/users';
+import UserForm, { UserFormValues } from '@/components/admin/UserForm';
+
+interface UserRow {
+  id: string;
+  username: string;
+  email: string;
+  name: string | null;
+  isActive: boolean;
+  isFirstLogin: boolean;
+  mustChangePassword: boolean;
+  lastLogin: string | null;
+  createdAt: string;
+  roles: { id: string; name: string }[];
+}
+
+interface LockoutRow {
+  id: string;
+  scope: 'user' | 'ip';
+  subject: string;
+  failures: number;
+  lockedUntil: string;
+}
+
+type EditorState = { mode: 'create' } | { mode: 'edit'; user: UserRow } | null;
+
+function toFormValues(user: UserRow): UserFormValues {
+  return {
+    username: user.username,
+    email: user.email,
+    name: user.name || '',
+    roleIds: user.roles.map(role => role.id),
+    isActive: user.isActive,
+    mustChangePassword: user.mustChangePassword
+  };
+}
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<UserRow[]>([]);
+  const [lockouts, setLockouts] = useState<LockoutRow[]>([]);
+  const [roles, setRoles] = useState<RoleSummary[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Shown once after creating a user or resetting a password
+  const [temporaryPassword, setTemporaryPassword] = useState<{ username: string; password: string } | null>(null);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/admin/users');
+      const data = await response.json();
+      if (data.success) {
+        setUsers(data.users);
+        setRoles(data.roles);
+        setCurrentUserId(data.currentUserId);
+        setError(null);
+      } else {
+        setError(data.details || data.error || 'Failed to load users');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLockouts = async () => {
+    try {
+      const response = await fetch('/api/admin/lockouts');
+      const data = await response.json();
+      if (data.success) {
+        setLockouts(data.lockouts);
+      }
+    } catch (err) {
+      console.error('Failed to load lockouts:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+    fetchLockouts();
+  }, []);
+
+  const clearNotices = () => {
+    setMessage(null);
+    setTemporaryPassword(null);
+  };
+
+  const handleSubmit = async (values: UserFormValues) => {
+    const isNew = editor?.mode === 'create';
+    setSaving(true);
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isNew
+          ? { username: values.username, email: values.email, name: values.name, roleIds: values.roleIds }
+          : { id: editor?.mode === 'edit' ? editor.user.id : '', ...values })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setEditor(null);
+        setError(null);
+        if (isNew) {
+          setTemporaryPassword({ username: data.user.username, password: data.temporaryPassword });
+          setMessage(`User ${data.user.username} created`);
+        } else {
+          setMessage(`User ${data.user.username} updated`);
+        }
+        fetchUsers();
+      } else {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to save user');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (user: UserRow) => {
+    clearNotices();
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: user.id, isActive: !user.isActive })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setError(null);
+        setMessage(`User ${user.username} ${user.isActive ? 'deactivated' : 'activated'}`);
+        fetchUsers();
+      } else {
+        setError(data.details || data.error || 'Failed to update user');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const handleResetPassword = async (user: UserRow) => {
+    if (!confirm(`Reset the password of "${user.username}"? Their current password stops working immediately.`)) return;
+
+    clearNotices();
+    try {
+      const response = await fetch('/api/admin/users/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: user.id })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setError(null);
+        setTemporaryPassword({ username: user.username, password: data.temporaryPassword });
+        fetchUsers();
+      } else {
+        setError(data.details || data.error || 'Failed to reset password');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const handleUnlock = async (lockout: LockoutRow) => {
+    clearNotices();
+    try {
+      const response = await fetch(`/api/admin/lockouts?id=${encodeURIComponent(lockout.id)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        setError(null);
+        setMessage(data.message);
+      } else {
+        setError(data.details || data.error || 'Failed to unlock');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      fetchLockouts();
+    }
+  };
+
+  const userLockout = (user: UserRow) =>
+    lockouts.find(lockout => lockout.scope === 'user' && lockout.subject === user.username);
+
+  const handleDelete = async (user: UserRow) => {
+    if (!confirm(`Delete user "${user.username}"? This cannot be undone.`)) return;
+
+    clearNotices();
+    try {
+      const response = await fetch(`/api/admin/users?id=${encodeURIComponent(user.id)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        if (editor?.mode === 'edit' && editor.user.id === user.id) setEditor(null);
+        setError(null);
+        setMessage(data.message);
+        fetchUsers();
+      } else {
+        setError(data.details || data.error || 'Failed to delete user');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+            <p className="text-sm text-gray-500">Create accounts, assign roles and reset passwords</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => {
+                clearNotices();
+                setEditor({ mode: 'create' });
+              }}
+              className="px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+            >
+              New user
+            </button>
+            <a
+              href="/admin/roles"
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Roles
+            </a>
+            <a
+              href="/admin/grants"
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Grants
+            </a>
+            <a
+              href="/"
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Back
+            </a>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">{message}</div>
+        )}
+        {temporaryPassword && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+            Temporary password for <span className="font-semibold">{temporaryPassword.username}</span>:{' '}
+            <code className="px-1.5 py-0.5 bg-white border rounded font-mono select-all">{temporaryPassword.password}</code>
+            <span className="block text-xs mt-1">
+              It is shown only once. The user must change it at next sign-in.
+            </span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* User list */}
+          <div className="bg-white rounded-lg shadow-sm border p-6 lg:col-span-2 overflow-x-auto">
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : users.length === 0 ? (
+              <p className="text-sm text-gray-500">No users.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 font-medium">User</th>
+                    <th className="py-2 font-medium">Roles</th>
+                    <th className="py-2 font-medium">Status</th>
+                    <th className="py-2 font-medium">Last login</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {users.map(user => {
+                    const lockout = userLockout(user);
+                    return (
+                    <tr key={user.id} className="border-b last:border-0 align-top">
+                      <td className="py-2 pr-2">
+                        <button
+                          onClick={() => {
+                            clearNotices();
+                            setEditor({ mode: 'edit', user });
+                          }}
+                          className={`text-left ${
+                            editor?.mode === 'edit' && editor.user.id === user.id ? 'font-semibold text-blue-700' : 'text-gray-900 hover:text-blue-600'
+                          }`}
+                        >
+                          {user.username}
+                          {user.id === currentUserId && <span className="ml-1 text-xs text-gray-500">(you)</span>}
+                        </button>
+                        <div className="text-xs text-gray-500">{user.name ? `${user.name} · ` : ''}{user.email}</div>
+                      </td>
+                      <td className="py-2 pr-2 text-gray-700">
+                        {user.roles.length > 0 ? user.roles.map(role => role.name).join(', ') : <span className="text-gray-400">None</span>}
+                      </td>
+                      <td className="py-2 pr-2">
+                        {user.isActive ? (
+                          <span className="text-green-700">Active</span>
+                        ) : (
+                          <span className="text-gray-500">Inactive</span>
+                        )}
+                        {(user.mustChangePassword || user.isFirstLogin) && (
+                          <div className="text-xs text-yellow-700">Password change pending</div>
+                        )}
+                        {lockout && (
+                          <div className="text-xs text-red-600">
+                            Locked until {new Date(lockout.lockedUntil).toLocaleTimeString()}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2 text-gray-500 whitespace-nowrap">
+                        {user.lastLogin ? new Date(user.lastLogin).toLocaleString() : 'Never'}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap space-x-2">
+                        {lockout && (
+                          <button
+                            onClick={() => handleUnlock(lockout)}
+                            className="text-xs text-gray-500 hover:text-blue-600"
+                          >
+                            Unlock
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleResetPassword(user)}
+                          className="text-xs text-gray-500 hover:text-blue-600"
+                        >
+                          Reset password
+                        </button>
+                        {user.id !== currentUserId && (
+                          <>
+                            <button
+                              onClick={() => handleToggleActive(user)}
+                              className="text-xs text-gray-500 hover:text-blue-600"
+                            >
+                              {user.isActive ? 'Deactivate' : 'Activate'}
+                            </button>
+                            <button
+                              onClick={() => handleDelete(user)}
+                              className="text-xs text-gray-500 hover:text-red-600"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Editor */}
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            {editor ? (
+              <>
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                  {editor.mode === 'create' ? 'New user' : `Edit ${editor.user.username}`}
+                </h2>
+                <UserForm
+                  key={editor.mode === 'edit' ? editor.user.id : 'new'}
+                  roles={roles}
+                  user={editor.mode === 'edit' ? toFormValues(editor.user) : undefined}
+                  isSelf={editor.mode === 'edit' && editor.user.id === currentUserId}
+                  saving={saving}
+                  onSubmit={handleSubmit}
+                  onCancel={() => setEditor(null)}
+                />
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Select a user to edit their details and roles. The last active administrator
+                cannot be deactivated, deleted or lose the Administrator role.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Lockouts */}
+        {lockouts.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border p-6 overflow-x-auto">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Locked out</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Usernames and IP addresses blocked after repeated failed sign-ins. Unknown usernames are
+              listed too, since sign-in failures are counted whether or not the account exists.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 font-medium">Type</th>
+                  <th className="py-2 font-medium">Username or IP</th>
+                  <th className="py-2 font-medium">Failures</th>
+                  <th className="py-2 font-medium">Locked until</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {lockouts.map(lockout => (
+                  <tr key={lockout.id} className="border-b last:border-0">
+                    <td className="py-2 pr-2 text-gray-700">{lockout.scope === 'ip' ? 'IP address' : 'User'}</td>
+                    <td className="py-2 pr-2 font-mono text-xs text-gray-900">{lockout.subject}</td>
+                    <td className="py-2 pr-2 text-gray-700">{lockout.failures}</td>
+                    <td className="py-2 pr-2 text-gray-500 whitespace-nowrap">
+                      {new Date(lockout.lockedUntil).toLocaleString()}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleUnlock(lockout)}
+                        className="text-xs text-gray-500 hover:text-blue-600"
+                      >
+                        Unlock
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_EXPORT_LIMIT, exportAuditLogs, parseAuditFilter, recordAudit, toAuditCsv } from '@/lib/audit';
+
+// GET: ?format=csv|json downloads the entries matching the same filters as the viewer,
+// newest first and capped at AUDIT_EXPORT_LIMIT rows
+export const GET = withApiAuth(async (request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.USER_ADMIN)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Permission denied'
+    }, { status: 403 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const format = searchParams.get('format') === 'json' ? 'json' : 'csv';
+  const filter = parseAuditFilter(searchParams);
+
+  try {
+    const entries = await exportAuditLogs(filter);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'audit_export',
+      resource: 'audit',
+      details: {
+        format,
+        rows: entries.length,
+        truncated: entries.length >= AUDIT_EXPORT_LIMIT,
+        filter: JSON.parse(JSON.stringify(filter))
+      }
+    }, request);
+
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+    return new Response(format === 'json' ? JSON.stringify(entries, null, 2) : toAuditCsv(entries), {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json; charset=utf-8' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Audit log export error:', error);
+    return NextResponse.json({
+      error: 'Failed to export audit log',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_RETENTION_DAYS, getAuditFacets, parseAuditFilter, queryAuditLogs } from '@/lib/audit';
+
+const MAX_PAGE_SIZE = 200;
+
+// GET: one page of audit entries, newest first, filtered by userId, action, resource, success, from and to.
+// Also returns the known actions and resources for the filter form.
+export const GET = withApiAuth(async (request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.USER_ADMIN)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Permission denied'
+    }, { status: 403 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('pageSize') || '50', 10) || 50));
+
+  try {
+    const [{ entries, total }, facets] = await Promise.all([
+      queryAuditLogs(parseAuditFilter(searchParams), page, pageSize),
+      getAuditFacets()
+    ]);
+
+    return NextResponse.json({
+      entries,
+      total,
+      page,
+      pageSize,
+      ...facets,
+      retentionDays: AUDIT_RETENTION_DAYS,
+      success: true
+    });
+  } catch (error) {
+    console.error('Audit log query error:', error);
+    return NextResponse.json({
+      error: 'Failed to load audit log',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
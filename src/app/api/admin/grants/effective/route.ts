@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { explainAccess, getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { GRANTABLE_PERMISSIONS } from '@/lib/grants';
+import { getUser } from '@/lib/users';
+
+// GET: ?userId=&remote=&path= explains, per permission, whether the user may act on the path and why
+export const GET = withApiAuth(async (request, session) => {
+  if (!hasPermission(await getEffectivePermissions(session.user.id), PERMISSIONS.USER_ADMIN)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Permission denied'
+    }, { status: 403 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const userId = searchParams.get('userId') || '';
+  const remote = searchParams.get('remote') || '';
+  const path = searchParams.get('path') || '';
+
+  if (!userId || !remote) {
+    return NextResponse.json({
+      success: false,
+      error: 'User and remote are required'
+    }, { status: 400 });
+  }
+
+  try {
+    const user = await getUser(userId);
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 });
+    }
+
+    // Inactive users resolve to no permissions at all
+    const permissions = await getEffectivePermissions(userId);
+    return NextResponse.json({
+      isActive: user.isActive,
+      access: GRANTABLE_PERMISSIONS.map(permission => explainAccess(permissions, permission, { remote, path })),
+      success: true
+    });
+  } catch (error) {
+    console.error('Effective access error:', error);
+    return NextResponse.json({
+      error: 'Failed to resolve effective access',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { rcloneClient, RcloneTokenExpiredError } from '@/lib/rclone/client';
+import { joinRemotePath } from '@/lib/rclone/paths';
+
+// GET: ?remote=&path= lists the subfolders of a folder for the grant editor's tree.
+// Uses the administrator's user:admin permission, not their own file access.
+export const GET = withApiAuth(async (request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.USER_ADMIN)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Permission denied'
+    }, { status: 403 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const remote = searchParams.get('remote');
+  const path = searchParams.get('path') || '';
+
+  if (!remote) {
+    return NextResponse.json({
+      error: 'Remote parameter is required',
+      success: false
+    }, { status: 400 });
+  }
+
+  try {
+    const folders = await rcloneClient.list(remote, path, { dirsOnly: true, noModTime: true, noMimeType: true });
+
+    return NextResponse.json({
+      folders: folders
+        .map(folder => ({ name: folder.Name, path: joinRemotePath(path, folder.Path) }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      success: true
+    });
+  } catch (error) {
+    console.error('Folder listing failed:', error);
+
+    const isTokenExpired = error instanceof RcloneTokenExpiredError;
+    return NextResponse.json({
+      error: isTokenExpired ? 'Authentication token expired' : 'Failed to list folders',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: isTokenExpired ? 401 : 500 });
+  }
+});
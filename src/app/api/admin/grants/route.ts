@@ -0,0 +1,161 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { deleteGrant, GrantAdminError, grantablePermissions, listGrants, setGrants } from '@/lib/grants';
+
+function permissionDenied() {
+  return NextResponse.json({
+    success: false,
+    error: 'Permission denied'
+  }, { status: 403 });
+}
+
+async function canManageGrants(userId: string) {
+  return hasPermission(await getEffectivePermissions(userId), PERMISSIONS.USER_ADMIN);
+}
+
+function errorResponse(error: unknown, message: string) {
+  if (error instanceof GrantAdminError) {
+    return NextResponse.json({
+      error: error.message,
+      success: false
+    }, { status: error.status });
+  }
+  return NextResponse.json({
+    error: message,
+    success: false,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 });
+}
+
+// GET: ?userId= lists the user's grants and denies, with the permissions that can be granted per folder
+export const GET = withApiAuth(async (request, session) => {
+  if (!(await canManageGrants(session.user.id))) {
+    return permissionDenied();
+  }
+
+  const userId = request.nextUrl.searchParams.get('userId') || '';
+  if (!userId) {
+    return NextResponse.json({
+      success: false,
+      error: 'User id is required'
+    }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({
+      grants: await listGrants(userId),
+      permissions: grantablePermissions(),
+      success: true
+    });
+  } catch (error) {
+    console.error('Grant list error:', error);
+    return errorResponse(error, 'Failed to load grants');
+  }
+});
+
+// POST: { userId, remote, folderPath, permissions, granted } grants or denies recursively
+export const POST = withApiAuth(async (request, session) => {
+  if (!(await canManageGrants(session.user.id))) {
+    return permissionDenied();
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const input = {
+    userId: typeof body.userId === 'string' ? body.userId : '',
+    remote: typeof body.remote === 'string' ? body.remote : '',
+    folderPath: typeof body.folderPath === 'string' ? body.folderPath : '',
+    permissions: Array.isArray(body.permissions) ? body.permissions.map(String) : [],
+    granted: body.granted !== false
+  };
+
+  if (!input.userId || !input.remote) {
+    return NextResponse.json({
+      success: false,
+      error: 'User and remote are required'
+    }, { status: 400 });
+  }
+
+  try {
+    const grants = await setGrants(input);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: input.granted ? 'grant_create' : 'grant_deny',
+      resource: 'grant',
+      details: {
+        targetUserId: input.userId,
+        remote: input.remote,
+        folderPath: input.folderPath,
+        permissions: grants.map(grant => grant.permission)
+      }
+    }, request);
+
+    return NextResponse.json({ grants, success: true });
+  } catch (error) {
+    console.error('Grant create error:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: input.granted ? 'grant_create' : 'grant_deny',
+      resource: 'grant',
+      details: {
+        targetUserId: input.userId,
+        remote: input.remote,
+        folderPath: input.folderPath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      success: false
+    }, request);
+
+    return errorResponse(error, 'Failed to save grant');
+  }
+});
+
+// DELETE: ?id= removes a single grant or deny
+export const DELETE = withApiAuth(async (request, session) => {
+  if (!(await canManageGrants(session.user.id))) {
+    return permissionDenied();
+  }
+
+  const id = request.nextUrl.searchParams.get('id') || '';
+  if (!id) {
+    return NextResponse.json({
+      success: false,
+      error: 'Grant id is required'
+    }, { status: 400 });
+  }
+
+  try {
+    const grant = await deleteGrant(id);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'grant_delete',
+      resource: 'grant',
+      details: {
+        targetUserId: grant.userId,
+        permission: grant.permission,
+        remote: grant.remoteName,
+        folderPath: grant.folderPath,
+        filePath: grant.filePath,
+        granted: grant.granted
+      }
+    }, request);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Grant delete error:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'grant_delete',
+      resource: 'grant',
+      details: { grantId: id, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
+
+    return errorResponse(error, 'Failed to delete grant');
+  }
+});
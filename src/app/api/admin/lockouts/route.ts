@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { listLockouts, unlockLogin } from '@/lib/login-throttle';
+
+function permissionDenied() {
+  return NextResponse.json({
+    success: false,
+    error: 'Permission denied'
+  }, { status: 403 });
+}
+
+async function canManageLockouts(userId: string) {
+  return hasPermission(await getEffectivePermissions(userId), PERMISSIONS.USER_ADMIN);
+}
+
+// GET: usernames and IP addresses currently locked out after repeated failed sign-ins
+export const GET = withApiAuth(async (_request, session) => {
+  if (!(await canManageLockouts(session.user.id))) {
+    return permissionDenied();
+  }
+
+  try {
+    return NextResponse.json({ lockouts: await listLockouts(), success: true });
+  } catch (error) {
+    console.error('Lockout list error:', error);
+    return NextResponse.json({
+      error: 'Failed to load lockouts',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// DELETE: ?id= lifts a lockout and resets its failure count
+export const DELETE = withApiAuth(async (request, session) => {
+  if (!(await canManageLockouts(session.user.id))) {
+    return permissionDenied();
+  }
+
+  const id = request.nextUrl.searchParams.get('id') || '';
+  if (!id) {
+    return NextResponse.json({
+      success: false,
+      error: 'Lockout id is required'
+    }, { status: 400 });
+  }
+
+  try {
+    const lockout = await unlockLogin(id);
+    if (!lockout) {
+      return NextResponse.json({
+        success: false,
+        error: 'Lockout not found'
+      }, { status: 404 });
+    }
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'login_unlock',
+      resource: 'auth',
+      details: { scope: lockout.scope, subject: lockout.subject, failures: lockout.failures }
+    }, request);
+
+    return NextResponse.json({
+      success: true,
+      message: `${lockout.scope === 'ip' ? 'IP address' : 'User'} ${lockout.subject} unlocked`
+    });
+  } catch (error) {
+    console.error('Unlock error:', error);
+    return NextResponse.json({
+      error: 'Failed to unlock',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
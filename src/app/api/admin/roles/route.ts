@@ -0,0 +1,180 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSION_CATALOG, PERMISSIONS } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { createRole, deleteRole, listRoleDetails, RoleAdminError, updateRole } from '@/lib/roles';
+
+function permissionDenied() {
+  return NextResponse.json({
+    success: false,
+    error: 'Permission denied'
+  }, { status: 403 });
+}
+
+async function canManageRoles(userId: string) {
+  return hasPermission(await getEffectivePermissions(userId), PERMISSIONS.USER_ADMIN);
+}
+
+function errorResponse(error: unknown, message: string) {
+  if (error instanceof RoleAdminError) {
+    return NextResponse.json({
+      error: error.message,
+      success: false
+    }, { status: error.status });
+  }
+  return NextResponse.json({
+    error: message,
+    success: false,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 });
+}
+
+// Body fields shared by POST and PUT
+function parseRoleInput(body: Record<string, unknown>) {
+  return {
+    name: typeof body.name === 'string' ? body.name : '',
+    description: typeof body.description === 'string' ? body.description : null,
+    permissions: Array.isArray(body.permissions) ? body.permissions.map(String) : []
+  };
+}
+
+// GET: every role with its permissions and user count, plus the permission catalogue
+export const GET = withApiAuth(async (_request, session) => {
+  if (!(await canManageRoles(session.user.id))) {
+    return permissionDenied();
+  }
+
+  try {
+    return NextResponse.json({
+      roles: await listRoleDetails(),
+      permissions: PERMISSION_CATALOG,
+      success: true
+    });
+  } catch (error) {
+    console.error('Role list error:', error);
+    return errorResponse(error, 'Failed to load roles');
+  }
+});
+
+// POST: create a custom role from { name, description, permissions }
+export const POST = withApiAuth(async (request, session) => {
+  if (!(await canManageRoles(session.user.id))) {
+    return permissionDenied();
+  }
+
+  const input = parseRoleInput(await request.json().catch(() => ({})));
+
+  try {
+    const role = await createRole(input);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'role_create',
+      resource: 'role',
+      details: { roleId: role.id, name: role.name, permissions: role.permissions }
+    }, request);
+
+    return NextResponse.json({ role, success: true });
+  } catch (error) {
+    console.error('Role create error:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'role_create',
+      resource: 'role',
+      details: { name: input.name, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
+
+    return errorResponse(error, 'Failed to create role');
+  }
+});
+
+// PUT: replace { id, name, description, permissions } of a custom role
+export const PUT = withApiAuth(async (request, session) => {
+  if (!(await canManageRoles(session.user.id))) {
+    return permissionDenied();
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body.id !== 'string' || !body.id) {
+    return NextResponse.json({
+      success: false,
+      error: 'Role id is required'
+    }, { status: 400 });
+  }
+
+  try {
+    const { role, previous, added, removed } = await updateRole(body.id, parseRoleInput(body));
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'role_update',
+      resource: 'role',
+      details: {
+        roleId: role.id,
+        name: role.name,
+        ...(previous.name !== role.name ? { previousName: previous.name } : {}),
+        added,
+        removed
+      }
+    }, request);
+
+    return NextResponse.json({ role, success: true });
+  } catch (error) {
+    console.error('Role update error:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'role_update',
+      resource: 'role',
+      details: { roleId: body.id, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
+
+    return errorResponse(error, 'Failed to update role');
+  }
+});
+
+// DELETE: ?id= removes a custom role; its users lose the role
+export const DELETE = withApiAuth(async (request, session) => {
+  if (!(await canManageRoles(session.user.id))) {
+    return permissionDenied();
+  }
+
+  const id = request.nextUrl.searchParams.get('id') || '';
+  if (!id) {
+    return NextResponse.json({
+      success: false,
+      error: 'Role id is required'
+    }, { status: 400 });
+  }
+
+  try {
+    const role = await deleteRole(id);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'role_delete',
+      resource: 'role',
+      details: { roleId: role.id, name: role.name, userCount: role.userCount }
+    }, request);
+
+    return NextResponse.json({
+      success: true,
+      message: `Role ${role.name} deleted`
+    });
+  } catch (error) {
+    console.error('Role delete error:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'role_delete',
+      resource: 'role',
+      details: { roleId: id, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
+
+    return errorResponse(error, 'Failed to delete role');
+  }
+});
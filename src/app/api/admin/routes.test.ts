@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { apiRequest, ALL_PERMISSIONS, createUser, routeHandlers, RouteHandler, signIn } from '@/test/api';
+import * as auditExport from '@/app/api/admin/audit/export/route';
+import * as audit from '@/app/api/admin/audit/route';
+import * as grantsEffective from '@/app/api/admin/grants/effective/route';
+import * as grantsFolders from '@/app/api/admin/grants/folders/route';
+import * as grants from '@/app/api/admin/grants/route';
+import * as lockouts from '@/app/api/admin/lockouts/route';
+import * as roles from '@/app/api/admin/roles/route';
+import * as resetPassword from '@/app/api/admin/users/reset-password/route';
+import * as users from '@/app/api/admin/users/route';
+
+const ROUTES: Record<string, Record<string, unknown>> = {
+  '/api/admin/audit/export': auditExport,
+  '/api/admin/audit': audit,
+  '/api/admin/grants/effective': grantsEffective,
+  '/api/admin/grants/folders': grantsFolders,
+  '/api/admin/grants': grants,
+  '/api/admin/lockouts': lockouts,
+  '/api/admin/roles': roles,
+  '/api/admin/users/reset-password': resetPassword,
+  '/api/admin/users': users,
+};
+
+// Requests that would succeed for an administrator
+const REQUESTS: Record<string, () => ReturnType<typeof apiRequest>> = {
+  'GET /api/admin/audit/export': () => apiRequest('/api/admin/audit/export?format=csv'),
+  'GET /api/admin/audit': () => apiRequest('/api/admin/audit'),
+  'GET /api/admin/grants/effective': () => apiRequest('/api/admin/grants/effective?userId=bob&remote=gdrive&path=docs'),
+  'GET /api/admin/grants/folders': () => apiRequest('/api/admin/grants/folders?remote=gdrive'),
+  'GET /api/admin/grants': () => apiRequest('/api/admin/grants?userId=bob'),
+  'POST /api/admin/grants': () => apiRequest('/api/admin/grants', {
+    json: { userId: 'bob', remote: 'gdrive', folderPath: 'docs', permissions: ['file:read'], granted: true }
+  }),
+  'DELETE /api/admin/grants': () => apiRequest('/api/admin/grants?id=grant-1', { method: 'DELETE' }),
+  'GET /api/admin/lockouts': () => apiRequest('/api/admin/lockouts'),
+  'DELETE /api/admin/lockouts': () => apiRequest('/api/admin/lockouts?id=lockout-1', { method: 'DELETE' }),
+  'GET /api/admin/roles': () => apiRequest('/api/admin/roles'),
+  'POST /api/admin/roles': () => apiRequest('/api/admin/roles', { json: { name: 'Auditor', permissions: ['user:admin'] } }),
+  'PUT /api/admin/roles': () => apiRequest('/api/admin/roles', { method: 'PUT', json: { id: 'role-1', name: 'Auditor' } }),
+  'DELETE /api/admin/roles': () => apiRequest('/api/admin/roles?id=role-1', { method: 'DELETE' }),
+  'POST /api/admin/users/reset-password': () => apiRequest('/api/admin/users/reset-password', { json: { id: 'bob' } }),
+  'GET /api/admin/users': () => apiRequest('/api/admin/users'),
+  'POST /api/admin/users': () => apiRequest('/api/admin/users', { json: { username: 'carol', email: 'carol@example.com' } }),
+  'PUT /api/admin/users': () => apiRequest('/api/admin/users', { method: 'PUT', json: { id: 'bob', isActive: false } }),
+  'DELETE /api/admin/users': () => apiRequest('/api/admin/users?id=bob', { method: 'DELETE' }),
+};
+
+const CASES: [string, RouteHandler][] = Object.entries(ROUTES).flatMap(([path, module]) =>
+  routeHandlers(module).map(([method, handler]): [string, RouteHandler] => [`${method} ${path}`, handler])
+);
+
+describe('admin API routes', () => {
+  it('have a request for every handler', () => {
+    expect(CASES.map(([name]) => name).sort()).toEqual(Object.keys(REQUESTS).sort());
+  });
+
+  describe.each(CASES)('%s', (name, handler) => {
+    beforeEach(() => {
+      createUser('bob');
+    });
+
+    it('rejects unauthenticated requests', async () => {
+      signIn(null);
+      const response = await handler(REQUESTS[name](), {});
+      expect(response.status).toBe(401);
+    });
+
+    it('rejects users without user:admin', async () => {
+      signIn(createUser('alice', { permissions: ALL_PERMISSIONS.filter(permission => permission !== 'user:admin') }));
+      const response = await handler(REQUESTS[name](), {});
+      expect(response.status).toBe(403);
+    });
+
+    it('rejects administrators deactivated since they signed in', async () => {
+      signIn(createUser('alice', { isActive: false, permissions: ALL_PERMISSIONS }));
+      const response = await handler(REQUESTS[name](), {});
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { resetPassword, UserAdminError } from '@/lib/users';
+
+// POST: { id } replaces the user's password with a temporary one and forces a change at next login.
+// The temporary password is only ever returned in this response.
+export const POST = withApiAuth(async (request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.USER_ADMIN)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Permission denied'
+    }, { status: 403 });
+  }
+
+  const { id } = await request.json().catch(() => ({}));
+  if (typeof id !== 'string' || !id) {
+    return NextResponse.json({
+      success: false,
+      error: 'User id is required'
+    }, { status: 400 });
+  }
+
+  try {
+    const { user, temporaryPassword } = await resetPassword(id);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'user_password_reset',
+      resource: 'user',
+      details: { targetUserId: user.id, username: user.username }
+    }, request);
+
+    return NextResponse.json({ user, temporaryPassword, success: true });
+  } catch (error) {
+    console.error('Password reset error:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'user_password_reset',
+      resource: 'user',
+      details: { targetUserId: id, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
+
+    if (error instanceof UserAdminError) {
+      return NextResponse.json({
+        error: error.message,
+        success: false
+      }, { status: error.status });
+    }
+    return NextResponse.json({
+      error: 'Failed to reset password',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,207 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { createUser, deleteUser, getUser, listRoles, listUsers, updateUser, UserAdminError } from '@/lib/users';
+
+function permissionDenied() {
+  return NextResponse.json({
+    success: false,
+    error: 'Permission denied'
+  }, { status: 403 });
+}
+
+async function canManageUsers(userId: string) {
+  return hasPermission(await getEffectivePermissions(userId), PERMISSIONS.USER_ADMIN);
+}
+
+function errorResponse(error: unknown, message: string) {
+  if (error instanceof UserAdminError) {
+    return NextResponse.json({
+      error: error.message,
+      success: false
+    }, { status: error.status });
+  }
+  return NextResponse.json({
+    error: message,
+    success: false,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 });
+}
+
+// GET: ?id= returns one user; without an id, every user plus the roles that can be assigned
+export const GET = withApiAuth(async (request, session) => {
+  if (!(await canManageUsers(session.user.id))) {
+    return permissionDenied();
+  }
+
+  const id = request.nextUrl.searchParams.get('id');
+
+  try {
+    if (id) {
+      const user = await getUser(id);
+      if (!user) {
+        return NextResponse.json({
+          error: 'User not found',
+          success: false
+        }, { status: 404 });
+      }
+      return NextResponse.json({ user, success: true });
+    }
+
+    const [users, roles] = await Promise.all([listUsers(), listRoles()]);
+    return NextResponse.json({
+      users,
+      roles,
+      currentUserId: session.user.id,
+      success: true
+    });
+  } catch (error) {
+    console.error('User list error:', error);
+    return errorResponse(error, 'Failed to load users');
+  }
+});
+
+// POST: create a user from { username, email, name, roleIds }; the response carries the
+// temporary password, which is not stored anywhere in plain text and cannot be shown again
+export const POST = withApiAuth(async (request, session) => {
+  if (!(await canManageUsers(session.user.id))) {
+    return permissionDenied();
+  }
+
+  const { username, email, name, roleIds } = await request.json().catch(() => ({}));
+  if (typeof username !== 'string' || typeof email !== 'string') {
+    return NextResponse.json({
+      success: false,
+      error: 'Username and email are required'
+    }, { status: 400 });
+  }
+
+  try {
+    const { user, temporaryPassword } = await createUser({
+      username,
+      email,
+      name: typeof name === 'string' ? name : null,
+      roleIds: Array.isArray(roleIds) ? roleIds.map(String) : []
+    });
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'user_create',
+      resource: 'user',
+      details: { targetUserId: user.id, username: user.username, roles: user.roles.map(role => role.name) }
+    }, request);
+
+    return NextResponse.json({ user, temporaryPassword, success: true });
+  } catch (error) {
+    console.error('User create error:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'user_create',
+      resource: 'user',
+      details: { username, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
+
+    return errorResponse(error, 'Failed to create user');
+  }
+});
+
+// PUT: update { id, email, name, isActive, mustChangePassword, roleIds }; omitted fields are unchanged
+export const PUT = withApiAuth(async (request, session) => {
+  if (!(await canManageUsers(session.user.id))) {
+    return permissionDenied();
+  }
+
+  const { id, email, name, isActive, mustChangePassword, roleIds } = await request.json().catch(() => ({}));
+  if (typeof id !== 'string' || !id) {
+    return NextResponse.json({
+      success: false,
+      error: 'User id is required'
+    }, { status: 400 });
+  }
+
+  try {
+    const { user, changed } = await updateUser(id, {
+      email: typeof email === 'string' ? email : undefined,
+      name: typeof name === 'string' || name === null ? name : undefined,
+      isActive: typeof isActive === 'boolean' ? isActive : undefined,
+      mustChangePassword: typeof mustChangePassword === 'boolean' ? mustChangePassword : undefined,
+      roleIds: Array.isArray(roleIds) ? roleIds.map(String) : undefined
+    }, session.user.id);
+
+    if (changed.length > 0) {
+      await recordAudit({
+        userId: session.user.id,
+        action: 'user_update',
+        resource: 'user',
+        details: {
+          targetUserId: user.id,
+          username: user.username,
+          changed,
+          isActive: user.isActive,
+          mustChangePassword: user.mustChangePassword,
+          roles: user.roles.map(role => role.name)
+        }
+      }, request);
+    }
+
+    return NextResponse.json({ user, success: true });
+  } catch (error) {
+    console.error('User update error:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'user_update',
+      resource: 'user',
+      details: { targetUserId: id, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
+
+    return errorResponse(error, 'Failed to update user');
+  }
+});
+
+// DELETE: ?id= removes the user, their role assignments and permission overrides
+export const DELETE = withApiAuth(async (request, session) => {
+  if (!(await canManageUsers(session.user.id))) {
+    return permissionDenied();
+  }
+
+  const id = request.nextUrl.searchParams.get('id') || '';
+  if (!id) {
+    return NextResponse.json({
+      success: false,
+      error: 'User id is required'
+    }, { status: 400 });
+  }
+
+  try {
+    const user = await deleteUser(id, session.user.id);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'user_delete',
+      resource: 'user',
+      details: { targetUserId: user.id, username: user.username }
+    }, request);
+
+    return NextResponse.json({
+      success: true,
+      message: `User ${user.username} deleted`
+    });
+  } catch (error) {
+    console.error('User delete error:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'user_delete',
+      resource: 'user',
+      details: { targetUserId: id, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
+
+    return errorResponse(error, 'Failed to delete user');
+  }
+});
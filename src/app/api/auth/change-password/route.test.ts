@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/auth/change-password/route';
+import { apiRequest, createUser, signIn } from '@/test/api';
+
+describe('POST /api/auth/change-password', () => {
+  const request = () => apiRequest('/api/auth/change-password', { json: { currentPassword: 'old', newPassword: 'short' } });
+
+  it('rejects unauthenticated requests', async () => {
+    signIn(null);
+    expect((await POST(request(), {})).status).toBe(401);
+  });
+
+  it('rejects deactivated users', async () => {
+    signIn(createUser('alice'), { isActive: false });
+    expect((await POST(request(), {})).status).toBe(401);
+  });
+
+  it('is reachable while a password change is pending', async () => {
+    signIn(createUser('alice'), { mustChangePassword: true });
+    // Gets as far as validating the new password
+    expect((await POST(request(), {})).status).toBe(400);
+  });
+});
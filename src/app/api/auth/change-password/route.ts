@@ -1,19 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
+import { NextResponse } from 'next/server'
 import { PrismaClient } from '@prisma/client'
 import bcryptjs from 'bcryptjs'
-import { authOptions } from '@/lib/auth'
+import { withApiAuth } from '@/lib/api-auth'
+import { recordAudit } from '@/lib/audit'
 
 const prisma = new PrismaClient()
 
-export async function POST(req: NextRequest) {
+// Reachable while a password change is pending, which is the whole point of this endpoint
+export const POST = withApiAuth(async (req, session) => {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: '인증되지 않은 요청입니다.' }, { status: 401 })
-    }
-
     const { currentPassword, newPassword } = await req.json()
 
     if (!currentPassword || !newPassword) {
@@ -35,6 +30,13 @@ export async function POST(req: NextRequest) {
     const passwordMatch = await bcryptjs.compare(currentPassword, user.password)
     
     if (!passwordMatch) {
+      await recordAudit({
+        userId: user.id,
+        action: 'password_change',
+        resource: 'user',
+        details: { username: user.username, error: 'Current password mismatch' },
+        success: false
+      }, req)
       return NextResponse.json({ error: '현재 비밀번호가 올바르지 않습니다.' }, { status: 400 })
     }
 
@@ -50,15 +52,12 @@ export async function POST(req: NextRequest) {
       }
     })
 
-    await prisma.auditLog.create({
-      data: {
-        userId: user.id,
-        action: 'password_change',
-        resource: 'user',
-        details: { username: user.username },
-        success: true
-      }
-    })
+    await recordAudit({
+      userId: user.id,
+      action: 'password_change',
+      resource: 'user',
+      details: { username: user.username }
+    }, req)
 
     return NextResponse.json({ 
       message: '비밀번호가 성공적으로 변경되었습니다.',
@@ -68,4 +67,4 @@ export async function POST(req: NextRequest) {
     console.error('Password change error:', error)
     return NextResponse.json({ error: '비밀번호 변경 중 오류가 발생했습니다.' }, { status: 500 })
   }
-}
\ No newline at end of file
+}, { allowPasswordChange: true })
\ No newline at end of file
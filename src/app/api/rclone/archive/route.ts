@@ -0,0 +1,186 @@
+import { NextResponse } from 'next/server';
+import archiver from 'archiver';
+import { once } from 'events';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { checkRemote, withApiAuth } from '@/lib/api-auth';
+import { EffectivePermissions, getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { rcloneClient } from '@/lib/rclone/client';
+import { isSafeRemotePath, joinRemotePath, normalizeRemotePath } from '@/lib/rclone/paths';
+import { contentDisposition } from '@/lib/rclone/serve';
+import { FileItem } from '@/lib/types/files';
+import { recordAudit } from '@/lib/audit';
+
+interface ArchiveItem {
+  path: string;
+  isDir: boolean;
+}
+
+interface ArchiveEntry {
+  remotePath: string;
+  name: string;
+  modTime?: string;
+}
+
+// List every file below a directory with a single recursive operations/list call
+async function listFilesRecursive(remote: string, dir: string): Promise<FileItem[]> {
+  return rcloneClient.list(remote, dir, {
+    recurse: true,
+    filesOnly: true
+  }, { timeout: 120000 }); // large trees take a while to walk
+}
+
+// Expand the selection into archive entries, named relative to the current directory
+async function collectEntries(
+  remote: string,
+  base: string,
+  items: ArchiveItem[],
+  permissions: EffectivePermissions
+): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = [];
+  const relativeName = (path: string) =>
+    base && path.startsWith(`${base}/`) ? path.slice(base.length + 1) : path;
+
+  for (const item of items) {
+    if (!item.isDir) {
+      if (hasPermission(permissions, PERMISSIONS.FILE_DOWNLOAD, { remote, path: item.path })) {
+        entries.push({ remotePath: item.path, name: relativeName(item.path) });
+      }
+      continue;
+    }
+
+    if (!hasPermission(permissions, PERMISSIONS.FILE_READ, { remote, path: item.path })) {
+      continue;
+    }
+
+    const files = await listFilesRecursive(remote, item.path);
+    for (const file of files) {
+      const remotePath = joinRemotePath(item.path, file.Path);
+      if (hasPermission(permissions, PERMISSIONS.FILE_DOWNLOAD, { remote, path: remotePath })) {
+        entries.push({ remotePath, name: relativeName(remotePath), modTime: file.ModTime });
+      }
+    }
+  }
+
+  return entries;
+}
+
+function archiveName(remote: string, base: string, items: ArchiveItem[]): string {
+  if (items.length === 1 && items[0].isDir) {
+    return `${items[0].path.split('/').pop()}.zip`;
+  }
+  return `${base.split('/').pop() || remote}.zip`;
+}
+
+// POST (form submission): stream the selected files and folders as a ZIP archive
+export const POST = withApiAuth(async (request, session) => {
+  let remote = '';
+  let base = '';
+  let items: ArchiveItem[] = [];
+
+  try {
+    const formData = await request.formData();
+    remote = String(formData.get('remote') || '');
+    base = normalizeRemotePath(String(formData.get('base') || ''));
+    items = (JSON.parse(String(formData.get('items') || '[]')) as ArchiveItem[])
+      .map(item => ({ path: normalizeRemotePath(String(item.path || '')), isDir: !!item.isDir }));
+  } catch (error) {
+    console.error('Invalid archive request:', error);
+  }
+
+  if (!remote || items.length === 0 || !items.every(item => isSafeRemotePath(item.path))) {
+    return NextResponse.json({
+      error: 'Remote and items parameters are required',
+      success: false
+    }, { status: 400 });
+  }
+
+  const remoteError = await checkRemote(remote);
+  if (remoteError) {
+    return remoteError;
+  }
+
+  const permissions = await getEffectivePermissions(session.user.id);
+
+  let entries: ArchiveEntry[];
+  try {
+    entries = await collectEntries(remote, base, items, permissions);
+  } catch (error) {
+    console.error('Failed to list archive contents:', error);
+    return NextResponse.json({
+      error: 'Failed to list folder contents',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+
+  if (entries.length === 0) {
+    return NextResponse.json({
+      error: 'Nothing to download',
+      success: false
+    }, { status: 404 });
+  }
+
+  console.log(`Archive request: ${remote}:${base || '/'} (${entries.length} files)`);
+
+  await recordAudit({
+    userId: session.user.id,
+    action: 'archive_download',
+    resource: 'file',
+    details: { remote, base, items: items.map(item => item.path), files: entries.length }
+  }, request);
+
+  // Store only: most large files (video, archives) are already compressed
+  const archive = archiver('zip', { store: true });
+  const failures: string[] = [];
+
+  // Feed entries one at a time so only one rclone download is open at once
+  (async () => {
+    for (const entry of entries) {
+      if (request.signal.aborted) break;
+
+      try {
+        const response = await rcloneClient.serve(remote, entry.remotePath, { signal: request.signal });
+        if (!response.ok || !response.body) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        archive.append(Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>), {
+          name: entry.name,
+          date: entry.modTime ? new Date(entry.modTime) : new Date()
+        });
+        await once(archive, 'entry');
+      } catch (error) {
+        if (request.signal.aborted) break;
+        console.error(`Archive entry failed for ${remote}:${entry.remotePath}:`, error);
+        failures.push(`${entry.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (request.signal.aborted) {
+      console.log('Archive download aborted by client');
+      archive.abort();
+      return;
+    }
+
+    // Report skipped files inside the archive, since headers are long gone
+    if (failures.length > 0) {
+      archive.append(failures.join('\n') + '\n', { name: 'download-errors.txt' });
+    }
+
+    await archive.finalize();
+    console.log(`✅ Archive completed: ${entries.length - failures.length} files, ${failures.length} failed`);
+  })().catch(error => {
+    console.error('Archive stream failed:', error);
+    archive.abort();
+  });
+
+  return new Response(Readable.toWeb(archive) as ReadableStream<Uint8Array>, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': contentDisposition(archiveName(remote, base, items)),
+      'Cache-Control': 'no-cache',
+    },
+  });
+});
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { findActiveEntry, getBandwidthLimit, getSchedule, isValidRate, setBandwidthLimit } from '@/lib/bandwidth';
+
+async function requireRemoteAdmin(userId: string) {
+  const permissions = await getEffectivePermissions(userId);
+  if (!hasPermission(permissions, PERMISSIONS.REMOTE_ADMIN)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Permission denied'
+    }, { status: 403 });
+  }
+  return null;
+}
+
+// GET: the limit rclone is applying now, plus the schedule and its active entry
+export const GET = withApiAuth(async (_request, session) => {
+  const denied = await requireRemoteAdmin(session.user.id);
+  if (denied) return denied;
+
+  try {
+    const [current, schedule] = await Promise.all([getBandwidthLimit(), getSchedule()]);
+    return NextResponse.json({
+      current,
+      schedule,
+      activeEntryId: findActiveEntry(schedule)?.id || null,
+      success: true
+    });
+  } catch (error) {
+    console.error('Bandwidth limit read error:', error);
+    return NextResponse.json({
+      error: 'Failed to read bandwidth limit',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// PUT: set { upload, download } now; the schedule takes over again at its next start time
+export const PUT = withApiAuth(async (request, session) => {
+  const denied = await requireRemoteAdmin(session.user.id);
+  if (denied) return denied;
+
+  const { upload, download } = await request.json().catch(() => ({}));
+  if (typeof upload !== 'string' || typeof download !== 'string' || !isValidRate(upload) || !isValidRate(download)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid rate',
+      details: 'Rates must be "off" or a size such as 512K or 10M'
+    }, { status: 400 });
+  }
+
+  try {
+    const current = await setBandwidthLimit({ upload, download });
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'bwlimit_set',
+      resource: 'rclone',
+      details: { upload, download, rate: current.rate }
+    }, request);
+
+    return NextResponse.json({ current, success: true });
+  } catch (error) {
+    console.error('Bandwidth limit update error:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'bwlimit_set',
+      resource: 'rclone',
+      details: { upload, download, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
+
+    return NextResponse.json({
+      error: 'Failed to set bandwidth limit',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
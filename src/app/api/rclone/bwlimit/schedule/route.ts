@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { findActiveEntry, replaceSchedule, ScheduleEntryInput, validateScheduleEntry } from '@/lib/bandwidth';
+import { applyBandwidthSchedule } from '@/lib/background-bandwidth';
+
+// PUT: replace the whole schedule with { entries } and apply the entry in effect now
+export const PUT = withApiAuth(async (request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.REMOTE_ADMIN)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Permission denied'
+    }, { status: 403 });
+  }
+
+  const { entries } = await request.json().catch(() => ({}));
+  if (!Array.isArray(entries)) {
+    return NextResponse.json({
+      success: false,
+      error: 'entries must be an array'
+    }, { status: 400 });
+  }
+
+  const schedule: ScheduleEntryInput[] = entries.map((entry: Partial<ScheduleEntryInput>) => ({
+    dayOfWeek: entry.dayOfWeek ?? null,
+    startTime: String(entry.startTime || ''),
+    upload: String(entry.upload || ''),
+    download: String(entry.download || ''),
+    enabled: entry.enabled !== false
+  }));
+
+  for (const [index, entry] of schedule.entries()) {
+    const error = validateScheduleEntry(entry);
+    if (error) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid schedule entry',
+        details: `Entry ${index + 1}: ${error}`
+      }, { status: 400 });
+    }
+  }
+
+  try {
+    const saved = await replaceSchedule(schedule);
+    await applyBandwidthSchedule(true);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'bwlimit_schedule_update',
+      resource: 'rclone',
+      details: { entries: schedule.map(entry => ({ ...entry })) }
+    }, request);
+
+    return NextResponse.json({
+      schedule: saved,
+      activeEntryId: findActiveEntry(saved)?.id || null,
+      success: true
+    });
+  } catch (error) {
+    console.error('Bandwidth schedule update error:', error);
+    return NextResponse.json({
+      error: 'Failed to update bandwidth schedule',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -1,8 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { checkRemote, withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { runRemoteCheck } from '@/lib/background-health';
 
-const RCLONE_RC_URL = process.env.RCLONE_RC_URL || 'http://127.0.0.1:5572';
-
-export async function POST(request: NextRequest) {
+// POST: check { remote } now; the result is stored like a scheduled check
+export const POST = withApiAuth(async (request, session) => {
   let remote = '';
   
   try {
@@ -16,82 +18,39 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    console.log(`Checking health for remote: ${remote}`);
-
-    // Use rclone's about command to check if remote is accessible
-    const response = await fetch(`${RCLONE_RC_URL}/operations/about`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        fs: `${remote}:`
-      }),
-      signal: AbortSignal.timeout(5000), // 5 second timeout
-    });
+    const remoteError = await checkRemote(remote);
+    if (remoteError) {
+      return remoteError;
+    }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      
-      // Check for token expiration
-      if (response.status === 500 && errorData.error && 
-          (errorData.error.includes('invalid_grant') || 
-           errorData.error.includes('token expired') ||
-           errorData.error.includes("couldn't fetch token"))) {
-        return NextResponse.json({
-          success: false,
-          status: 'token_expired',
-          error: 'Authentication token expired',
-          remote
-        });
-      }
-      
+    const permissions = await getEffectivePermissions(session.user.id);
+    if (!hasPermission(permissions, PERMISSIONS.REMOTE_LIST, { remote })) {
       return NextResponse.json({
-        success: false,
-        status: 'error',
-        error: `Failed to check remote: ${errorData.error || response.statusText}`,
-        remote
-      }, { status: response.status });
+        error: 'Permission denied',
+        success: false
+      }, { status: 403 });
     }
 
-    const data = await response.json();
-    
-    console.log(`Remote ${remote} is healthy`);
+    console.log(`Checking health for remote: ${remote}`);
+    const health = await runRemoteCheck(remote);
+
     return NextResponse.json({
-      success: true,
-      status: 'healthy',
-      remote,
-      data: {
-        total: data.total,
-        used: data.used,
-        free: data.free
-      }
+      success: health.status === 'healthy' || health.status === 'expiring',
+      status: health.status,
+      error: health.error || undefined,
+      tokenExpiry: health.tokenExpiry,
+      lastCheckedAt: health.lastCheckedAt,
+      remote
     });
 
   } catch (error) {
     console.error('Health check failed:', error);
     
-    // Handle timeout errors specifically
-    let errorMessage = 'Health check failed';
-    let statusCode = 500;
-    
-    if (error instanceof Error) {
-      if (error.name === 'TimeoutError' || error.message.includes('timeout')) {
-        errorMessage = 'Remote connection timeout';
-        statusCode = 408;
-      } else if (error.message.includes('ECONNREFUSED')) {
-        errorMessage = 'Cannot connect to rclone daemon';
-        statusCode = 503;
-      } else {
-        errorMessage = error.message;
-      }
-    }
-    
     return NextResponse.json({
       success: false,
       status: 'error',
-      error: errorMessage,
+      error: error instanceof Error ? error.message : 'Health check failed',
       remote
-    }, { status: statusCode });
+    }, { status: 500 });
   }
-}
\ No newline at end of file
+});
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { getProviders } from '@/lib/remote-config';
+
+// GET: backend types and their option schemas, used to build the remote forms
+export const GET = withApiAuth(async (_request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.REMOTE_ADMIN)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Permission denied'
+    }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json({
+      providers: await getProviders(),
+      success: true
+    });
+  } catch (error) {
+    console.error('Provider list error:', error);
+    return NextResponse.json({
+      error: 'Failed to get backend providers',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
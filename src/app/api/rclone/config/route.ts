@@ -0,0 +1,222 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { EffectivePermissions, getEffectivePermissions, filterRemotes, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import {
+  createRemote,
+  deleteRemote,
+  getProvider,
+  getRemoteConfig,
+  isValidRemoteName,
+  listRemoteNames,
+  missingRequiredOptions,
+  updateRemote
+} from '@/lib/remote-config';
+import { isOAuthBackend } from '@/lib/oauth-reauth';
+
+function permissionDenied() {
+  return NextResponse.json({
+    success: false,
+    error: 'Permission denied'
+  }, { status: 403 });
+}
+
+function canManage(permissions: EffectivePermissions, remote?: string) {
+  return hasPermission(permissions, PERMISSIONS.REMOTE_ADMIN, remote ? { remote } : {});
+}
+
+// GET: ?name= returns one remote's configuration (secrets reduced to "is set");
+// without a name, the remotes the caller may manage and their types
+export const GET = withApiAuth(async (request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  const name = request.nextUrl.searchParams.get('name');
+
+  try {
+    if (name) {
+      if (!canManage(permissions, name)) {
+        return permissionDenied();
+      }
+      const remote = await getRemoteConfig(name);
+      if (!remote) {
+        return NextResponse.json({
+          error: 'Remote not found',
+          success: false
+        }, { status: 404 });
+      }
+      return NextResponse.json({ remote, success: true });
+    }
+
+    const names = filterRemotes(permissions, PERMISSIONS.REMOTE_ADMIN, await listRemoteNames());
+    const remotes = await Promise.all(names.map(async (remote) => {
+      const config = await getRemoteConfig(remote).catch(() => null);
+      const type = config?.type || 'unknown';
+      return { name: remote, type, oauth: isOAuthBackend(type) };
+    }));
+
+    return NextResponse.json({
+      remotes,
+      canCreate: canManage(permissions),
+      success: true
+    });
+  } catch (error) {
+    console.error('Remote config read error:', error);
+    return NextResponse.json({
+      error: 'Failed to read remote configuration',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// POST: create a remote from { name, type, parameters }
+export const POST = withApiAuth(async (request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!canManage(permissions)) {
+    return permissionDenied();
+  }
+
+  const { name, type, parameters } = await request.json().catch(() => ({}));
+  if (typeof name !== 'string' || !isValidRemoteName(name)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid remote name',
+      details: 'Use letters, digits, spaces and _ - . + @, not starting with - or a space'
+    }, { status: 400 });
+  }
+
+  try {
+    if (typeof type !== 'string' || !(await getProvider(type))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unknown backend type'
+      }, { status: 400 });
+    }
+
+    if ((await listRemoteNames()).includes(name)) {
+      return NextResponse.json({
+        success: false,
+        error: 'A remote with this name already exists'
+      }, { status: 409 });
+    }
+
+    const missing = await missingRequiredOptions(type, parameters || {});
+    if (missing.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required options',
+        details: missing.join(', ')
+      }, { status: 400 });
+    }
+
+    const keys = await createRemote(name, type, parameters || {});
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'remote_create',
+      resource: 'remote',
+      details: { name, type, options: keys }
+    }, request);
+
+    return NextResponse.json({
+      remote: await getRemoteConfig(name),
+      success: true
+    });
+  } catch (error) {
+    console.error('Remote create error:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'remote_create',
+      resource: 'remote',
+      details: { name, type, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
+
+    return NextResponse.json({
+      error: 'Failed to create remote',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// PUT: update { name, parameters }; blank secret fields keep their current value
+export const PUT = withApiAuth(async (request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  const { name, parameters } = await request.json().catch(() => ({}));
+
+  if (typeof name !== 'string' || !canManage(permissions, name)) {
+    return permissionDenied();
+  }
+
+  try {
+    const existing = await getRemoteConfig(name);
+    if (!existing) {
+      return NextResponse.json({
+        error: 'Remote not found',
+        success: false
+      }, { status: 404 });
+    }
+
+    const keys = await updateRemote(name, existing.type, parameters || {});
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'remote_update',
+      resource: 'remote',
+      details: { name, type: existing.type, options: keys }
+    }, request);
+
+    return NextResponse.json({
+      remote: await getRemoteConfig(name),
+      success: true
+    });
+  } catch (error) {
+    console.error('Remote update error:', error);
+    return NextResponse.json({
+      error: 'Failed to update remote',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// DELETE: ?name= removes the remote from the rclone config
+export const DELETE = withApiAuth(async (request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  const name = request.nextUrl.searchParams.get('name') || '';
+
+  if (!name || !canManage(permissions, name)) {
+    return permissionDenied();
+  }
+
+  try {
+    if (!(await listRemoteNames()).includes(name)) {
+      return NextResponse.json({
+        error: 'Remote not found',
+        success: false
+      }, { status: 404 });
+    }
+
+    await deleteRemote(name);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'remote_delete',
+      resource: 'remote',
+      details: { name }
+    }, request);
+
+    return NextResponse.json({
+      success: true,
+      message: `Remote ${name} deleted`
+    });
+  } catch (error) {
+    console.error('Remote delete error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete remote',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { checkRemote, withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, hasPermissionOnTree, PERMISSIONS } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { submitJob } from '@/lib/jobs';
+import { rcloneClient } from '@/lib/rclone/client';
+import { isSafeRemotePath, normalizeRemotePath } from '@/lib/rclone/paths';
+
+interface DeleteItem {
+  path: string;
+  isDir: boolean;
+}
+
+interface DeleteResult {
+  path: string;
+  isDir: boolean;
+  success: boolean;
+  // Set when a folder purge was handed to the job manager and is still running
+  jobId?: string;
+  error?: string;
+}
+
+export const POST = withApiAuth(async (request, session) => {
+  try {
+    const { remote, items } = await request.json();
+
+    if (!remote || !Array.isArray(items) || items.length === 0) {
+      return NextResponse.json({
+        error: 'Remote and items parameters are required',
+        success: false
+      }, { status: 400 });
+    }
+
+    const remoteError = await checkRemote(remote);
+    if (remoteError) {
+      return remoteError;
+    }
+
+    const permissions = await getEffectivePermissions(session.user.id);
+    const results: DeleteResult[] = [];
+
+    // Sequential on purpose: purges on the same remote compete for API quota
+    for (const rawItem of items as DeleteItem[]) {
+      const item = { path: normalizeRemotePath(String(rawItem.path || '')), isDir: !!rawItem.isDir };
+
+      // Never allow an empty path: purging '' would wipe the whole remote
+      if (!isSafeRemotePath(item.path)) {
+        results.push({ ...item, success: false, error: 'Invalid path' });
+        continue;
+      }
+
+      // A purge removes everything below the folder, including entries denied to the user
+      const canDelete = item.isDir ? hasPermissionOnTree : hasPermission;
+      if (!canDelete(permissions, PERMISSIONS.FILE_DELETE, { remote, path: item.path })) {
+        results.push({ ...item, success: false, error: 'Permission denied' });
+        continue;
+      }
+
+      try {
+        console.log(`Deleting ${item.isDir ? 'directory' : 'file'}: ${remote}:${item.path}`);
+        if (item.isDir) {
+          // purge walks the whole tree, which can take far longer than a request should
+          const job = await submitJob(session.user.id, 'purge', 'operations/purge', {
+            fs: `${remote}:`,
+            remote: item.path
+          }, { remote, path: item.path, isDir: true });
+          results.push({ ...item, success: true, jobId: job.id });
+        } else {
+          await rcloneClient.deleteFile(remote, item.path);
+          results.push({ ...item, success: true });
+        }
+      } catch (error) {
+        console.error(`Delete failed for ${remote}:${item.path}:`, error);
+        results.push({
+          ...item,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+
+      const result = results[results.length - 1];
+      await recordAudit({
+        userId: session.user.id,
+        action: item.isDir ? 'folder_delete' : 'file_delete',
+        resource: 'file',
+        details: { remote, path: item.path, ...(result.error ? { error: result.error } : {}) },
+        success: result.success
+      }, request);
+    }
+
+    const failed = results.filter(result => !result.success).length;
+    console.log(`Delete completed: ${results.length - failed} succeeded, ${failed} failed`);
+
+    return NextResponse.json({
+      success: failed === 0,
+      results,
+      deleted: results.length - failed,
+      failed
+    });
+  } catch (error) {
+    console.error('Delete error:', error);
+    return NextResponse.json({
+      error: 'Failed to delete items',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -1,19 +1,54 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { checkRemote, withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { rcloneClient } from '@/lib/rclone/client';
+import { isSafeRemotePath } from '@/lib/rclone/paths';
+import { contentDisposition, createIdleTimeout } from '@/lib/rclone/serve';
+import { recordAudit } from '@/lib/audit';
 
-const RCLONE_RC_URL = process.env.RCLONE_RC_URL || 'http://127.0.0.1:5572';
+// Abort only when rclone stops sending data, so large files are not cut off
+const IDLE_TIMEOUT_MS = 30000;
 
-export async function GET(request: NextRequest) {
-  // Check authentication
-  const session = await getServerSession(authOptions);
-  if (!session) {
-    return new Response('Unauthorized', { status: 401 });
-  }
+// Request headers passed through to rclone for resumable and conditional downloads
+const FORWARDED_REQUEST_HEADERS = ['range', 'if-range', 'if-none-match', 'if-modified-since'];
+
+// Total object size from Content-Range ("bytes 0-99/1234") or Content-Length
+function getTotalSize(response: Response): string | null {
+  const contentRange = response.headers.get('content-range');
+  const total = contentRange?.split('/')[1];
+  if (total && total !== '*') return total;
+  return response.status === 200 ? response.headers.get('content-length') : null;
+}
+
+// rclone's serve endpoint does not always send an ETag; derive a weak one from size and mtime
+function getETag(response: Response): string | null {
+  const etag = response.headers.get('etag');
+  if (etag) return etag;
+
+  const size = getTotalSize(response);
+  const lastModified = response.headers.get('last-modified');
+  if (!size || !lastModified) return null;
+
+  const mtime = new Date(lastModified).getTime();
+  return Number.isNaN(mtime) ? null : `W/"${Number(size).toString(16)}-${mtime.toString(16)}"`;
+}
+
+// Players fetch a file as many range requests; only the one starting at byte 0 is audited
+function isFirstRequest(range: string | null): boolean {
+  return !range || /^bytes=0-/.test(range.trim());
+}
 
+function matchesIfNoneMatch(ifNoneMatch: string, etag: string): boolean {
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some(tag => tag.trim() === '*' || opaque(tag) === opaque(etag));
+}
+
+export const GET = withApiAuth(async (request, session) => {
   const { searchParams } = new URL(request.url);
   const remote = searchParams.get('remote');
   const path = searchParams.get('path');
+  // inline=1 lets <video>/<audio> stream the file instead of saving it
+  const inline = searchParams.get('inline') === '1';
 
   if (!remote || !path) {
     return NextResponse.json(
@@ -22,50 +57,132 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  console.log(`Download request: remote=${remote}, path=${path}`);
-  
+  if (!isSafeRemotePath(path)) {
+    return NextResponse.json(
+      { error: 'Invalid path' },
+      { status: 400 }
+    );
+  }
+
+  const remoteError = await checkRemote(remote);
+  if (remoteError) {
+    return remoteError;
+  }
+
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.FILE_DOWNLOAD, { remote, path })) {
+    return NextResponse.json(
+      { error: 'Permission denied' },
+      { status: 403 }
+    );
+  }
+
+  const range = request.headers.get('range');
+  console.log(`Download request: remote=${remote}, path=${path}${range ? `, range=${range}` : ''}`);
+
   try {
-    // Direct download using standard rclone RC serve format
-    const cleanPath = path.replace(/^\/+/, ''); // Remove leading slashes
-    const downloadUrl = `${RCLONE_RC_URL}/[${remote}:]/${encodeURI(cleanPath)}`;
-    
-    console.log(`Attempting download: ${downloadUrl}`);
-    
-    const response = await fetch(downloadUrl, {
+    const upstreamHeaders: Record<string, string> = {};
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+      const value = request.headers.get(name);
+      if (value) {
+        upstreamHeaders[name] = value;
+      }
+    }
+
+    // Also abort when the browser goes away, so rclone stops reading the remote
+    const idleTimeout = createIdleTimeout(IDLE_TIMEOUT_MS, request.signal);
+    const response = await rcloneClient.serve(remote, path, {
       method: 'GET',
-      signal: AbortSignal.timeout(30000), // 30초 타임아웃
+      headers: upstreamHeaders,
+      signal: idleTimeout.signal,
     });
-    
+
+    const filename = path.split('/').pop() || 'download';
+    const etag = getETag(response);
+    const lastModified = response.headers.get('last-modified');
+
+    const headers: Record<string, string> = {
+      'Content-Type': response.headers.get('content-type') || 'application/octet-stream',
+      'Content-Disposition': contentDisposition(filename, inline ? 'inline' : 'attachment'),
+      'Cache-Control': 'no-cache',
+      'Accept-Ranges': 'bytes',
+    };
+
+    if (etag) {
+      headers['ETag'] = etag;
+    }
+    if (lastModified) {
+      headers['Last-Modified'] = lastModified;
+    }
+
+    // Not modified: either rclone answered 304 itself or the derived ETag matches
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (response.status === 304 || (response.ok && ifNoneMatch && etag && matchesIfNoneMatch(ifNoneMatch, etag))) {
+      await response.body?.cancel();
+      console.log(`Download not modified: ${remote}:${path}`);
+      return new Response(null, {
+        status: 304,
+        headers: {
+          'Cache-Control': headers['Cache-Control'],
+          ...(etag ? { 'ETag': etag } : {}),
+          ...(lastModified ? { 'Last-Modified': lastModified } : {}),
+        },
+      });
+    }
+
+    if (response.status === 416) {
+      await response.body?.cancel();
+      return new Response(null, {
+        status: 416,
+        headers: {
+          'Accept-Ranges': 'bytes',
+          'Content-Range': response.headers.get('content-range') || `bytes */${getTotalSize(response) || '*'}`,
+        },
+      });
+    }
+
     if (response.ok && response.body) {
-      const filename = path.split('/').pop() || 'download';
       const contentLength = response.headers.get('content-length');
-      const contentType = response.headers.get('content-type') || 'application/octet-stream';
-      
-      console.log(`✅ Download successful: ${downloadUrl}`);
-      
-      const headers = {
-        'Content-Type': contentType,
-        'Content-Disposition': `attachment; filename="${encodeURIComponent(filename)}"`,
-        'Cache-Control': 'no-cache',
-      };
-      
+      const contentRange = response.headers.get('content-range');
+
+      console.log(`✅ Download ${response.status === 206 ? `partial (${contentRange})` : 'successful'}: ${remote}:${path}`);
+
+      if (isFirstRequest(range)) {
+        await recordAudit({
+          userId: session.user.id,
+          action: 'file_download',
+          resource: 'file',
+          details: { remote, path, inline, size: getTotalSize(response) }
+        }, request);
+      }
+
       if (contentLength) {
         headers['Content-Length'] = contentLength;
       }
-      
-      return new Response(response.body, {
-        status: 200,
+      if (response.status === 206 && contentRange) {
+        headers['Content-Range'] = contentRange;
+      }
+
+      return new Response(idleTimeout.track(response.body), {
+        status: response.status === 206 ? 206 : 200,
         headers,
       });
     }
 
-    console.log(`❌ Download failed (${response.status}): ${downloadUrl}`);
-    
+    console.log(`❌ Download failed (${response.status}): ${remote}:${path}`);
+    await response.body?.cancel();
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'file_download',
+      resource: 'file',
+      details: { remote, path, inline, error: `HTTP ${response.status}` },
+      success: false
+    }, request);
+
     // Return error with response details
-    const filename = path.split('/').pop() || 'download';
-    
     return NextResponse.json(
-      { 
+      {
         error: 'File not found or not accessible',
         details: `HTTP ${response.status}: ${response.statusText}`,
         filename: filename,
@@ -76,9 +193,17 @@ export async function GET(request: NextRequest) {
     );
   } catch (error) {
     console.error('Download error:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'file_download',
+      resource: 'file',
+      details: { remote, path, inline, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
     return NextResponse.json(
       { error: 'Failed to download file', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
@@ -1,8 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { checkRemote, withApiAuth } from '@/lib/api-auth';
+import { getAccessRoot, getAccessRoots, getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { rcloneClient, RcloneTokenExpiredError } from '@/lib/rclone/client';
+import { isSafeRemotePath, joinRemotePath } from '@/lib/rclone/paths';
+import { recordAudit } from '@/lib/audit';
 
-const RCLONE_RC_URL = process.env.RCLONE_RC_URL || 'http://127.0.0.1:5572';
-
-export async function GET(request: NextRequest) {
+export const GET = withApiAuth(async (request, session) => {
   const searchParams = request.nextUrl.searchParams;
   const remote = searchParams.get('remote');
   const path = searchParams.get('path') || '';
@@ -14,80 +17,93 @@ export async function GET(request: NextRequest) {
     }, { status: 400 });
   }
 
-  const maxRetries = 3;
-  let lastError: Error | null = null;
+  const remoteError = await checkRemote(remote);
+  if (remoteError) {
+    return remoteError;
+  }
+
+  if (path && !isSafeRemotePath(path)) {
+    return NextResponse.json({
+      error: 'Invalid path',
+      success: false
+    }, { status: 400 });
+  }
+
+  const permissions = await getEffectivePermissions(session.user.id);
+  const root = getAccessRoot(permissions, PERMISSIONS.FILE_READ, { remote, path });
+  if (root === null) {
+    await recordAudit({
+      userId: session.user.id,
+      action: 'file_list',
+      resource: 'file',
+      details: { remote, path, error: 'Permission denied' },
+      success: false
+    }, request);
+
+    // Folders the user may browse, so the client can move down to a granted root
+    return NextResponse.json({
+      error: 'Permission denied',
+      files: [],
+      roots: getAccessRoots(permissions, PERMISSIONS.FILE_READ, remote),
+      success: false
+    }, { status: 403 });
+  }
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`Listing files for ${remote}:${path} (attempt ${attempt}/${maxRetries})`);
-      
-      const remotePath = path ? `${remote}:${path}` : `${remote}:`;
-      const response = await fetch(`${RCLONE_RC_URL}/operations/list`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          fs: remotePath,
-          remote: '',
-          opt: {
-            recurse: false,
-            noModTime: false,
-            showEncrypted: false,
-            showOrigIDs: false,
-            showHash: false
-          }
-        }),
-        signal: AbortSignal.timeout(10000), // 10 second timeout
-      });
+  try {
+    console.log(`Listing files for ${remote}:${path}`);
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        
-        // Check for token expiration
-        if (response.status === 500 && errorData.error && 
-            (errorData.error.includes('invalid_grant') || 
-             errorData.error.includes('token expired') ||
-             errorData.error.includes("couldn't fetch token"))) {
-          throw new Error(`EXPIRED_TOKEN:${errorData.error}`);
-        }
-        
-        throw new Error(`rclone RC API error: ${response.status} ${response.statusText}`);
-      }
+    // Connection failures and timeouts are retried by the client
+    const listing = await rcloneClient.list(remote, path, {
+      recurse: false,
+      noModTime: false,
+      showEncrypted: false,
+      showOrigIDs: false,
+      showHash: false
+    }, { retry: { initialDelayMs: 1000 } });
 
-      const data = await response.json();
-      const files = data.list || [];
+    // Entries under a denied folder or file override are left out of the listing
+    const files = listing.filter(item =>
+      hasPermission(permissions, PERMISSIONS.FILE_READ, { remote, path: joinRemotePath(path, item.Path) })
+    );
 
-      console.log(`Successfully retrieved ${files.length} files`);
-      return NextResponse.json({ 
-        files,
-        remote,
-        path,
-        success: true 
-      });
-    } catch (error) {
-      lastError = error as Error;
-      console.error(`Attempt ${attempt} failed:`, error);
-      
-      if (attempt < maxRetries) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-    }
+    console.log(`Successfully retrieved ${files.length} files`);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'file_list',
+      resource: 'file',
+      details: { remote, path, count: files.length }
+    }, request);
+
+    return NextResponse.json({ 
+      files,
+      remote,
+      path,
+      root,
+      success: true 
+    });
+  } catch (error) {
+    console.error('Listing failed:', error);
+
+    const isTokenExpired = error instanceof RcloneTokenExpiredError;
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'file_list',
+      resource: 'file',
+      details: { remote, path, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
+
+    return NextResponse.json({ 
+      error: isTokenExpired ? 'Authentication token expired' : 'Failed to list files',
+      files: [],
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error',
+      tokenExpired: isTokenExpired,
+      remote: remote
+    }, { 
+      status: isTokenExpired ? 401 : 500
+    });
   }
-  
-  console.error('All retry attempts failed:', lastError);
-  
-  // Check if it's a token expiration error
-  const isTokenExpired = lastError?.message?.includes('EXPIRED_TOKEN');
-  
-  return NextResponse.json({ 
-    error: isTokenExpired ? 'Authentication token expired' : 'Failed to list files',
-    files: [],
-    success: false,
-    details: lastError?.message || 'Unknown error',
-    tokenExpired: isTokenExpired,
-    remote: remote
-  }, { 
-    status: isTokenExpired ? 401 : 500
-  });
-}
\ No newline at end of file
+});
\ No newline at end of file
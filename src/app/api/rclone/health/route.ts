@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, filterRemotes, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { getHealthHistory, getHealthStates } from '@/lib/remote-health';
+
+// GET: stored health of every remote the user can see; ?remote= adds that remote's check history
+export const GET = withApiAuth(async (request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  const remote = request.nextUrl.searchParams.get('remote');
+
+  try {
+    if (remote) {
+      if (!hasPermission(permissions, PERMISSIONS.REMOTE_LIST, { remote })) {
+        return NextResponse.json({
+          error: 'Permission denied',
+          success: false
+        }, { status: 403 });
+      }
+
+      const [[health], history] = await Promise.all([getHealthStates([remote]), getHealthHistory(remote)]);
+      return NextResponse.json({
+        health: health || null,
+        history,
+        success: true
+      });
+    }
+
+    const states = await getHealthStates();
+    const visible = new Set(filterRemotes(permissions, PERMISSIONS.REMOTE_LIST, states.map(state => state.remote)));
+
+    return NextResponse.json({
+      health: states.filter(state => visible.has(state.remote)),
+      success: true
+    });
+  } catch (error) {
+    console.error('Health status error:', error);
+    return NextResponse.json({
+      error: 'Failed to get remote health',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, filterRemotes, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { getIndexedRemotes, isIndexEnabled, runIndexJob } from '@/lib/background-index';
+import { getIndexStatus } from '@/lib/search-index';
+
+// GET: index status and last crawl time for every indexed remote the user can see
+export const GET = withApiAuth(async (_request, session) => {
+  try {
+    const permissions = await getEffectivePermissions(session.user.id);
+    const [configured, states] = await Promise.all([getIndexedRemotes(), getIndexStatus()]);
+
+    // Remotes that have not been crawled yet show up as pending
+    const names = new Set([...(configured || []), ...states.map(state => state.remote)]);
+    const remotes = filterRemotes(permissions, PERMISSIONS.REMOTE_LIST, [...names].sort()).map(remote => {
+      const state = states.find(item => item.remote === remote);
+      return {
+        remote,
+        status: state?.status || 'pending',
+        entryCount: state?.entryCount || 0,
+        lastCrawlAt: state?.lastCrawlAt || null,
+        lastFullCrawlAt: state?.lastFullCrawlAt || null,
+        lastDurationMs: state?.lastDurationMs ?? null,
+        error: state?.error || null,
+      };
+    });
+
+    return NextResponse.json({
+      enabled: isIndexEnabled(),
+      running: !!global.indexJobRunning,
+      nextCrawlAt: global.indexNextCrawlAt || null,
+      canCrawl: hasPermission(permissions, PERMISSIONS.REMOTE_ADMIN),
+      remotes,
+      success: true
+    });
+  } catch (error) {
+    console.error('Index status error:', error);
+    return NextResponse.json({
+      error: 'Failed to get index status',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// POST: start a crawl now, for all indexed remotes or just { remote }
+export const POST = withApiAuth(async (request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.REMOTE_ADMIN)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Permission denied'
+    }, { status: 403 });
+  }
+
+  if (!isIndexEnabled()) {
+    return NextResponse.json({
+      success: false,
+      error: 'Search index is disabled',
+      details: 'Set SEARCH_INDEX_REMOTES to enable it'
+    }, { status: 400 });
+  }
+
+  const { remote } = await request.json().catch(() => ({}));
+  const started = runIndexJob(remote || undefined);
+
+  await recordAudit({
+    userId: session.user.id,
+    action: 'index_crawl',
+    resource: 'remote',
+    details: { remote: remote || '*' },
+    success: started
+  }, request);
+
+  if (!started) {
+    return NextResponse.json({
+      success: false,
+      error: 'An index crawl is already running'
+    }, { status: 409 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: 'Index crawl started'
+  });
+});
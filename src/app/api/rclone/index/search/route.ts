@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, filterRemotes, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { compileMatcher, parseSearchQuery } from '@/lib/search';
+import { getIndexStatus, searchIndex } from '@/lib/search-index';
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+// GET: search the persistent index across every remote the user may list.
+// Takes the same query parameters as the live search, plus an optional remote.
+export const GET = withApiAuth(async (request, session) => {
+  const searchParams = request.nextUrl.searchParams;
+  const remote = searchParams.get('remote');
+  const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT));
+
+  const { query, error } = parseSearchQuery(searchParams);
+  if (!query) {
+    return NextResponse.json({ error, success: false }, { status: 400 });
+  }
+
+  try {
+    compileMatcher(query);
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Invalid regular expression',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 400 });
+  }
+
+  try {
+    const permissions = await getEffectivePermissions(session.user.id);
+    const indexed = (await getIndexStatus()).map(state => state.remote);
+    const remotes = filterRemotes(permissions, PERMISSIONS.REMOTE_LIST, remote ? indexed.filter(name => name === remote) : indexed);
+
+    const { results, truncated } = await searchIndex(query, remotes, limit, (entryRemote, path) =>
+      hasPermission(permissions, PERMISSIONS.FILE_READ, { remote: entryRemote, path })
+    );
+
+    return NextResponse.json({
+      results,
+      truncated,
+      remotes,
+      success: true
+    });
+  } catch (error) {
+    console.error('Index search error:', error);
+    return NextResponse.json({
+      error: 'Failed to search the index',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { recordAudit } from '@/lib/audit';
+import { deleteFinishedJobs, getJob, listJobs, stopJob } from '@/lib/jobs';
+
+// GET: the caller's running and recent jobs
+export const GET = withApiAuth(async (_request, session) => {
+  try {
+    return NextResponse.json({
+      jobs: await listJobs(session.user.id),
+      success: true
+    });
+  } catch (error) {
+    console.error('Job list error:', error);
+    return NextResponse.json({
+      error: 'Failed to list jobs',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// DELETE: ?id= stops a running job or removes a finished one; ?finished=1 clears all finished jobs
+export const DELETE = withApiAuth(async (request, session) => {
+  const searchParams = request.nextUrl.searchParams;
+
+  try {
+    if (searchParams.get('finished') === '1') {
+      const removed = await deleteFinishedJobs(session.user.id);
+      return NextResponse.json({ success: true, removed });
+    }
+
+    const job = await getJob(searchParams.get('id') || '');
+    if (!job || job.userId !== session.user.id) {
+      return NextResponse.json({
+        error: 'Job not found',
+        success: false
+      }, { status: 404 });
+    }
+
+    if (job.status !== 'running') {
+      await deleteFinishedJobs(session.user.id, job.id);
+      return NextResponse.json({ success: true, removed: 1 });
+    }
+
+    await stopJob(job);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'job_cancel',
+      resource: 'job',
+      details: { id: job.id, type: job.type, params: job.params as object }
+    }, request);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Job cancellation requested'
+    });
+  } catch (error) {
+    console.error('Job delete error:', error);
+    return NextResponse.json({
+      error: 'Failed to update job',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,54 @@
+import { withApiAuth } from '@/lib/api-auth';
+import { JobInfo, listJobs, subscribeJobs } from '@/lib/jobs';
+
+// SSE endpoint for live job updates; each connection only sees its user's jobs
+export const GET = withApiAuth(async (request, session) => {
+  const userId = session.user.id;
+  const initialJobs = await listJobs(userId);
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (payload: object) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      };
+
+      send({ type: 'initial', data: initialJobs, timestamp: Date.now() });
+
+      let unsubscribe = () => {};
+      const heartbeatInterval = setInterval(() => {
+        try {
+          send({ type: 'heartbeat', timestamp: Date.now() });
+        } catch (error) {
+          console.log('Job stream heartbeat failed, cleaning up:', error);
+          cleanup();
+        }
+      }, 30000);
+
+      const cleanup = () => {
+        clearInterval(heartbeatInterval);
+        unsubscribe();
+      };
+
+      unsubscribe = subscribeJobs((job: JobInfo) => {
+        if (job.userId !== userId) return;
+        try {
+          send({ type: 'update', data: job, timestamp: Date.now() });
+        } catch (error) {
+          console.log('Job stream closed:', error);
+          cleanup();
+        }
+      });
+
+      request.signal?.addEventListener('abort', cleanup);
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/rclone/oauth/callback/route';
+import { completeAuthorization } from '@/lib/oauth-reauth';
+import { apiRequest, ALL_PERMISSIONS, createUser, signIn } from '@/test/api';
+
+vi.mock('@/lib/oauth-reauth', () => ({
+  completeAuthorization: vi.fn()
+}));
+
+async function callbackLocation(returnTo: string) {
+  signIn(createUser('alice', { permissions: ALL_PERMISSIONS }));
+  vi.mocked(completeAuthorization).mockResolvedValue({ remote: 'gdrive', returnTo });
+  const response = await GET(apiRequest('/api/rclone/oauth/callback?state=state-1&code=code-1'), {});
+  return new URL(response.headers.get('location') || '');
+}
+
+describe('GET /api/rclone/oauth/callback', () => {
+  it('returns to the page that started the authorization', async () => {
+    const location = await callbackLocation('/browser?remote=gdrive');
+    expect(location.origin).toBe('http://localhost:3003');
+    expect(location.pathname).toBe('/browser');
+    expect(location.searchParams.get('reauthorized')).toBe('gdrive');
+  });
+
+  it.each(['/\\evil.example/x', '//evil.example/x', 'https://evil.example/x'])('never redirects to another origin (%s)', async (returnTo) => {
+    const location = await callbackLocation(returnTo);
+    expect(location.origin).toBe('http://localhost:3003');
+    expect(location.pathname).toBe('/admin/remotes');
+  });
+});
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { recordAudit } from '@/lib/audit';
+import { completeAuthorization } from '@/lib/oauth-reauth';
+
+// GET: the provider redirects here after consent; store the token and send the browser back
+export const GET = withApiAuth(async (request, session) => {
+  const searchParams = request.nextUrl.searchParams;
+  const state = searchParams.get('state') || '';
+  const code = searchParams.get('code');
+  const redirect = (path: string, params: Record<string, string>) => {
+    // Paths like "/\host" resolve to another origin; never leave this one
+    let url = new URL(path, request.nextUrl.origin);
+    if (url.origin !== request.nextUrl.origin) {
+      url = new URL('/admin/remotes', request.nextUrl.origin);
+    }
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return NextResponse.redirect(url);
+  };
+
+  if (!code) {
+    // Consent was denied or the provider reported an error
+    return redirect('/admin/remotes', {
+      oauthError: searchParams.get('error_description') || searchParams.get('error') || 'Authorization was cancelled'
+    });
+  }
+
+  try {
+    const { remote, returnTo } = await completeAuthorization(session.user.id, state, code);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'remote_reauthorize',
+      resource: 'remote',
+      details: { name: remote }
+    }, request);
+
+    return redirect(returnTo, { reauthorized: remote });
+  } catch (error) {
+    console.error('OAuth callback failed:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'remote_reauthorize',
+      resource: 'remote',
+      details: { error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
+
+    return redirect('/admin/remotes', {
+      oauthError: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
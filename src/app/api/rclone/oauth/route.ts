@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { OAuthReauthError, startAuthorization } from '@/lib/oauth-reauth';
+
+// POST: start re-authorizing { remote }; the browser is sent to the returned authUrl
+export const POST = withApiAuth(async (request, session) => {
+  const { remote, returnTo } = await request.json().catch(() => ({}));
+
+  if (!remote || typeof remote !== 'string') {
+    return NextResponse.json({
+      error: 'Remote parameter is required',
+      success: false
+    }, { status: 400 });
+  }
+
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.REMOTE_ADMIN, { remote })) {
+    return NextResponse.json({
+      error: 'Permission denied',
+      success: false,
+      details: `You are not allowed to manage ${remote}`
+    }, { status: 403 });
+  }
+
+  // Only same-origin paths; the callback checks the resolved origin again before redirecting
+  const safeReturnTo = typeof returnTo === 'string' && returnTo.startsWith('/') && !/^\/[\/\\]/.test(returnTo)
+    ? returnTo
+    : '/admin/remotes';
+
+  try {
+    const authUrl = await startAuthorization(session.user.id, remote, safeReturnTo);
+    return NextResponse.json({ authUrl, success: true });
+  } catch (error) {
+    console.error('OAuth authorization start failed:', error);
+    return NextResponse.json({
+      error: 'Failed to start authorization',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: error instanceof OAuthReauthError ? error.status : 500 });
+  }
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/rclone/operations/route';
+import { getExistingItem, startFileOperation } from '@/lib/file-operations';
+import { apiRequest, ALL_PERMISSIONS, createUser, signIn } from '@/test/api';
+
+vi.mock('@/lib/file-operations', () => ({
+  getExistingItem: vi.fn(),
+  startFileOperation: vi.fn()
+}));
+
+async function rename(path: string, name: string) {
+  signIn(createUser('alice', { permissions: ALL_PERMISSIONS }));
+  vi.mocked(startFileOperation).mockResolvedValue({ id: 'job-1' } as Awaited<ReturnType<typeof startFileOperation>>);
+  const response = await POST(apiRequest('/api/rclone/operations', {
+    json: { operation: 'rename', remote: 'gdrive', items: [{ path, isDir: false }], name }
+  }), {});
+  return (await response.json()).results[0];
+}
+
+function existing(path: string) {
+  return { Path: path, Name: path.split('/').pop()!, IsDir: false, Size: 1 };
+}
+
+describe('POST /api/rclone/operations rename', () => {
+  it('changes only the case when the destination is the source itself', async () => {
+    vi.mocked(getExistingItem).mockResolvedValue(existing('docs/a.txt'));
+
+    expect(await rename('docs/a.txt', 'A.txt')).toMatchObject({ success: true, jobId: 'job-1' });
+  });
+
+  it('refuses a case-only rename onto a different item', async () => {
+    vi.mocked(getExistingItem).mockResolvedValue(existing('docs/A.txt'));
+
+    expect(await rename('docs/a.txt', 'A.txt')).toMatchObject({ success: false, error: 'An item with that name already exists' });
+    expect(startFileOperation).not.toHaveBeenCalled();
+  });
+
+  it('refuses to overwrite an existing item', async () => {
+    vi.mocked(getExistingItem).mockResolvedValue(existing('docs/b.txt'));
+
+    expect(await rename('docs/a.txt', 'b.txt')).toMatchObject({ success: false, error: 'An item with that name already exists' });
+  });
+});
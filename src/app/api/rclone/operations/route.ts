@@ -0,0 +1,168 @@
+import { NextResponse } from 'next/server';
+import { checkRemote, withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, hasPermissionOnTree, PERMISSIONS } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { FileOperation, getExistingItem, startFileOperation } from '@/lib/file-operations';
+import {
+  isSafeRemotePath,
+  isValidFileName,
+  joinRemotePath,
+  normalizeRemotePath,
+  parentRemotePath
+} from '@/lib/rclone/paths';
+
+interface OperationItem {
+  path: string;
+  isDir: boolean;
+}
+
+interface OperationResult {
+  path: string;
+  isDir: boolean;
+  destinationRemote: string;
+  destination: string;
+  success: boolean;
+  jobId?: string;
+  error?: string;
+}
+
+// Why an item can't go to the destination on the same remote, or null when it can
+function validateTarget(item: OperationItem, target: string): string | null {
+  if (target === item.path) {
+    return 'Source and destination are the same';
+  }
+  if (item.isDir && target.startsWith(`${item.path}/`)) {
+    return 'Cannot move or copy a folder into itself';
+  }
+  return null;
+}
+
+// POST: move or copy items into a folder, or rename a single item
+// { operation: 'move' | 'copy', remote, items, destination, destinationRemote? } or { operation: 'rename', remote, items: [item], name }
+// destinationRemote defaults to the source remote; renames always stay on it
+export const POST = withApiAuth(async (request, session) => {
+  try {
+    const { operation, remote, items, destination = '', destinationRemote, name } = await request.json();
+
+    if (!remote || !Array.isArray(items) || items.length === 0 || !['move', 'copy', 'rename'].includes(operation)) {
+      return NextResponse.json({
+        error: 'Operation, remote and items parameters are required',
+        success: false
+      }, { status: 400 });
+    }
+
+    if (operation === 'rename' && (items.length !== 1 || !isValidFileName(name))) {
+      return NextResponse.json({
+        error: 'Rename takes exactly one item and a valid name',
+        success: false
+      }, { status: 400 });
+    }
+
+    const targetDir = normalizeRemotePath(String(destination));
+    if (operation !== 'rename' && targetDir && !isSafeRemotePath(targetDir)) {
+      return NextResponse.json({
+        error: 'Invalid destination',
+        success: false
+      }, { status: 400 });
+    }
+
+    // A rename is a move to a new name in the same folder
+    const rcloneOperation: FileOperation = operation === 'copy' ? 'copy' : 'move';
+    const targetRemote: string = operation === 'rename' ? remote : destinationRemote || remote;
+    const sameRemote = targetRemote === remote;
+
+    for (const remoteName of sameRemote ? [remote] : [remote, targetRemote]) {
+      const remoteError = await checkRemote(remoteName);
+      if (remoteError) {
+        return remoteError;
+      }
+    }
+    const permissions = await getEffectivePermissions(session.user.id);
+    const results: OperationResult[] = [];
+
+    for (const rawItem of items as OperationItem[]) {
+      const item = { path: normalizeRemotePath(String(rawItem.path || '')), isDir: !!rawItem.isDir };
+      const target = operation === 'rename'
+        ? joinRemotePath(parentRemotePath(item.path), name)
+        : joinRemotePath(targetDir, item.path.split('/').pop() || '');
+      const result: OperationResult = { ...item, destinationRemote: targetRemote, destination: target, success: false };
+      results.push(result);
+
+      if (!isSafeRemotePath(item.path)) {
+        result.error = 'Invalid path';
+        continue;
+      }
+
+      result.error = (sameRemote && validateTarget(item, target)) || undefined;
+      if (result.error) {
+        continue;
+      }
+
+      // Moving changes the source, copying only reads it. A copy, or a move to another remote, puts
+      // the contents where the user may be able to read them regardless of the source's download
+      // restrictions, so it also needs FILE_DOWNLOAD. A folder is moved or copied as a whole, so a
+      // deny anywhere below it refuses the operation.
+      const sourcePermissions = [
+        rcloneOperation === 'move' ? PERMISSIONS.FILE_WRITE : PERMISSIONS.FILE_READ,
+        ...(rcloneOperation === 'copy' || !sameRemote ? [PERMISSIONS.FILE_DOWNLOAD] : [])
+      ];
+      const allowed = item.isDir ? hasPermissionOnTree : hasPermission;
+      if (!sourcePermissions.every(permission => allowed(permissions, permission, { remote, path: item.path })) ||
+          !allowed(permissions, PERMISSIONS.FILE_WRITE, { remote: targetRemote, path: target })) {
+        result.error = 'Permission denied';
+        continue;
+      }
+
+      try {
+        // Never overwrite silently. A case-only rename finds the source itself on case-insensitive
+        // backends, which is no conflict; on case-sensitive ones it may find a different item.
+        const existing = await getExistingItem(targetRemote, target);
+        const caseOnlyRename = sameRemote && target.toLowerCase() === item.path.toLowerCase();
+        if (existing && !(caseOnlyRename && existing.Path === item.path)) {
+          result.error = 'An item with that name already exists';
+          continue;
+        }
+
+        const job = await startFileOperation(
+          session.user.id, rcloneOperation, remote, item.path, targetRemote, target, item.isDir, operation === 'rename'
+        );
+        result.success = true;
+        result.jobId = job.id;
+      } catch (error) {
+        console.error(`${operation} failed for ${remote}:${item.path}:`, error);
+        result.error = error instanceof Error ? error.message : 'Unknown error';
+      } finally {
+        await recordAudit({
+          userId: session.user.id,
+          action: `${item.isDir ? 'folder' : 'file'}_${operation}`,
+          resource: 'file',
+          details: {
+            remote,
+            path: item.path,
+            ...(sameRemote ? {} : { destinationRemote: targetRemote }),
+            destination: target,
+            ...(result.error ? { error: result.error } : {})
+          },
+          success: result.success
+        }, request);
+      }
+    }
+
+    const failed = results.filter(result => !result.success).length;
+
+    return NextResponse.json({
+      success: failed === 0,
+      results,
+      started: results.length - failed,
+      failed
+    });
+  } catch (error) {
+    console.error('File operation error:', error);
+    return NextResponse.json({
+      error: 'Failed to start operation',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
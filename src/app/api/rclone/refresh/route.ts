@@ -1,10 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { checkRemote, withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { rcloneClient } from '@/lib/rclone/client';
+import { recordAudit } from '@/lib/audit';
 
-const RCLONE_RC_URL = process.env.RCLONE_RC_URL || 'http://127.0.0.1:5572';
-
-export async function POST(request: NextRequest) {
+export const POST = withApiAuth(async (request, session) => {
+  let remote = '';
   try {
-    const { remote } = await request.json();
+    ({ remote } = await request.json());
     
     if (!remote) {
       return NextResponse.json({ 
@@ -13,33 +16,37 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const remoteError = await checkRemote(remote);
+    if (remoteError) {
+      return remoteError;
+    }
+
+    const permissions = await getEffectivePermissions(session.user.id);
+    if (!hasPermission(permissions, PERMISSIONS.REMOTE_ADMIN, { remote })) {
+      return NextResponse.json({
+        error: 'Permission denied',
+        success: false,
+        details: `You are not allowed to manage ${remote}`
+      }, { status: 403 });
+    }
+
     console.log(`Attempting to refresh token for remote: ${remote}`);
 
     // Use core/command to run config reconnect command
-    const response = await fetch(`${RCLONE_RC_URL}/core/command`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        command: 'config',
-        arg: ['reconnect', `${remote}:`],
-        opt: {
-          'config': '/config/rclone.conf',
-          'non-interactive': 'true'
-        }
-      }),
-      signal: AbortSignal.timeout(30000),
+    const data = await rcloneClient.command('config', ['reconnect', `${remote}:`], {
+      'config': '/config/rclone.conf',
+      'non-interactive': 'true'
     });
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Token refresh failed: ${response.status} - ${errorData.error || response.statusText}`);
-    }
-
-    const data = await response.json();
-    
     console.log(`Successfully cleared fs cache, forcing token refresh for ${remote}`);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'token_refresh',
+      resource: 'remote',
+      details: { remote }
+    }, request);
+
     return NextResponse.json({ 
       success: true,
       message: `Cleared connection cache - please try accessing ${remote} again`,
@@ -48,14 +55,22 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Token refresh failed:', error);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'token_refresh',
+      resource: 'remote',
+      details: { remote, error: error instanceof Error ? error.message : 'Unknown error' },
+      success: false
+    }, request);
     
     return NextResponse.json({ 
       error: 'Token refresh failed',
       success: false,
       details: error instanceof Error ? error.message : 'Unknown error',
-      suggestion: 'You may need to re-authenticate this remote manually'
+      suggestion: 'Use Re-authorize to sign in to the provider again'
     }, { 
       status: 500 
     });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,268 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { PermissionName, PERMISSIONS } from '@/lib/permissions';
+import { apiRequest, ALL_PERMISSIONS, createUser, routeHandlers, RouteHandler, signIn } from '@/test/api';
+import * as archive from '@/app/api/rclone/archive/route';
+import * as bwlimit from '@/app/api/rclone/bwlimit/route';
+import * as bwlimitSchedule from '@/app/api/rclone/bwlimit/schedule/route';
+import * as check from '@/app/api/rclone/check/route';
+import * as configProviders from '@/app/api/rclone/config/providers/route';
+import * as config from '@/app/api/rclone/config/route';
+import * as deleteRoute from '@/app/api/rclone/delete/route';
+import * as download from '@/app/api/rclone/download/route';
+import * as files from '@/app/api/rclone/files/route';
+import * as health from '@/app/api/rclone/health/route';
+import * as index from '@/app/api/rclone/index/route';
+import * as indexSearch from '@/app/api/rclone/index/search/route';
+import * as jobs from '@/app/api/rclone/jobs/route';
+import * as jobsStream from '@/app/api/rclone/jobs/stream/route';
+import * as oauthCallback from '@/app/api/rclone/oauth/callback/route';
+import * as oauth from '@/app/api/rclone/oauth/route';
+import * as operations from '@/app/api/rclone/operations/route';
+import * as refresh from '@/app/api/rclone/refresh/route';
+import * as remotes from '@/app/api/rclone/remotes/route';
+import * as search from '@/app/api/rclone/search/route';
+import * as stats from '@/app/api/rclone/stats/route';
+import * as statsStream from '@/app/api/rclone/stats/stream/route';
+import * as storage from '@/app/api/rclone/storage/route';
+import * as storageStream from '@/app/api/rclone/storage/stream/route';
+import * as subtitle from '@/app/api/rclone/subtitle/route';
+import * as thumbnail from '@/app/api/rclone/thumbnail/route';
+import * as upload from '@/app/api/rclone/upload/route';
+
+const ROUTES: Record<string, Record<string, unknown>> = {
+  '/api/rclone/archive': archive,
+  '/api/rclone/bwlimit': bwlimit,
+  '/api/rclone/bwlimit/schedule': bwlimitSchedule,
+  '/api/rclone/check': check,
+  '/api/rclone/config/providers': configProviders,
+  '/api/rclone/config': config,
+  '/api/rclone/delete': deleteRoute,
+  '/api/rclone/download': download,
+  '/api/rclone/files': files,
+  '/api/rclone/health': health,
+  '/api/rclone/index': index,
+  '/api/rclone/index/search': indexSearch,
+  '/api/rclone/jobs': jobs,
+  '/api/rclone/jobs/stream': jobsStream,
+  '/api/rclone/oauth/callback': oauthCallback,
+  '/api/rclone/oauth': oauth,
+  '/api/rclone/operations': operations,
+  '/api/rclone/refresh': refresh,
+  '/api/rclone/remotes': remotes,
+  '/api/rclone/search': search,
+  '/api/rclone/stats': stats,
+  '/api/rclone/stats/stream': statsStream,
+  '/api/rclone/storage': storage,
+  '/api/rclone/storage/stream': storageStream,
+  '/api/rclone/subtitle': subtitle,
+  '/api/rclone/thumbnail': thumbnail,
+  '/api/rclone/upload': upload,
+};
+
+interface RouteCase {
+  request: () => NextRequest;
+  // Permission the request needs; null for routes that only act on the caller's own data
+  // (jobs, uploads) or filter their results by permission
+  permission: PermissionName | null;
+  // Routes working on several items report denials per item instead of answering 403
+  expectDenied?: (response: Response) => Promise<void>;
+}
+
+async function expectItemDenied(response: Response) {
+  expect(response.status).toBe(200);
+  expect(await response.json()).toMatchObject({ success: false, results: [{ error: 'Permission denied' }] });
+}
+
+const REQUESTS: Record<string, RouteCase> = {
+  'POST /api/rclone/archive': {
+    request: () => apiRequest('/api/rclone/archive', {
+      form: { remote: 'gdrive', items: JSON.stringify([{ path: 'docs/report.pdf', isDir: false }]) }
+    }),
+    permission: PERMISSIONS.FILE_DOWNLOAD,
+    // Files the user may not download are left out; nothing left means nothing to stream
+    expectDenied: async (response) => expect(response.status).toBe(404)
+  },
+  'GET /api/rclone/bwlimit': {
+    request: () => apiRequest('/api/rclone/bwlimit'),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'PUT /api/rclone/bwlimit': {
+    request: () => apiRequest('/api/rclone/bwlimit', { method: 'PUT', json: { upload: '1M', download: '1M' } }),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'PUT /api/rclone/bwlimit/schedule': {
+    request: () => apiRequest('/api/rclone/bwlimit/schedule', { method: 'PUT', json: { entries: [] } }),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'POST /api/rclone/check': {
+    request: () => apiRequest('/api/rclone/check', { json: { remote: 'gdrive' } }),
+    permission: PERMISSIONS.REMOTE_LIST
+  },
+  'GET /api/rclone/config/providers': {
+    request: () => apiRequest('/api/rclone/config/providers'),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'GET /api/rclone/config': {
+    request: () => apiRequest('/api/rclone/config?name=gdrive'),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'POST /api/rclone/config': {
+    request: () => apiRequest('/api/rclone/config', { json: { name: 'photos', type: 'drive', parameters: {} } }),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'PUT /api/rclone/config': {
+    request: () => apiRequest('/api/rclone/config', { method: 'PUT', json: { name: 'gdrive', parameters: {} } }),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'DELETE /api/rclone/config': {
+    request: () => apiRequest('/api/rclone/config?name=gdrive', { method: 'DELETE' }),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'POST /api/rclone/delete': {
+    request: () => apiRequest('/api/rclone/delete', { json: { remote: 'gdrive', items: [{ path: 'docs', isDir: true }] } }),
+    permission: PERMISSIONS.FILE_DELETE,
+    expectDenied: expectItemDenied
+  },
+  'GET /api/rclone/download': {
+    request: () => apiRequest('/api/rclone/download?remote=gdrive&path=docs/report.pdf'),
+    permission: PERMISSIONS.FILE_DOWNLOAD
+  },
+  'GET /api/rclone/files': {
+    request: () => apiRequest('/api/rclone/files?remote=gdrive&path=docs'),
+    permission: PERMISSIONS.FILE_READ
+  },
+  'GET /api/rclone/health': {
+    request: () => apiRequest('/api/rclone/health?remote=gdrive'),
+    permission: PERMISSIONS.REMOTE_LIST
+  },
+  'GET /api/rclone/index': { request: () => apiRequest('/api/rclone/index'), permission: null },
+  'POST /api/rclone/index': {
+    request: () => apiRequest('/api/rclone/index', { json: { remote: 'gdrive' } }),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'GET /api/rclone/index/search': { request: () => apiRequest('/api/rclone/index/search?q=report'), permission: null },
+  'GET /api/rclone/jobs': { request: () => apiRequest('/api/rclone/jobs'), permission: null },
+  'DELETE /api/rclone/jobs': { request: () => apiRequest('/api/rclone/jobs?id=job-1', { method: 'DELETE' }), permission: null },
+  'GET /api/rclone/jobs/stream': { request: () => apiRequest('/api/rclone/jobs/stream'), permission: null },
+  'GET /api/rclone/oauth/callback': {
+    request: () => apiRequest('/api/rclone/oauth/callback?state=state-1&code=code-1'),
+    permission: null
+  },
+  'POST /api/rclone/oauth': {
+    request: () => apiRequest('/api/rclone/oauth', { json: { remote: 'gdrive', returnTo: '/admin/remotes' } }),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'POST /api/rclone/operations': {
+    request: () => apiRequest('/api/rclone/operations', {
+      json: { operation: 'move', remote: 'gdrive', items: [{ path: 'docs/report.pdf', isDir: false }], destination: 'archive' }
+    }),
+    permission: PERMISSIONS.FILE_WRITE,
+    expectDenied: expectItemDenied
+  },
+  'POST /api/rclone/refresh': {
+    request: () => apiRequest('/api/rclone/refresh', { json: { remote: 'gdrive' } }),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'GET /api/rclone/remotes': { request: () => apiRequest('/api/rclone/remotes'), permission: null },
+  'GET /api/rclone/search': {
+    request: () => apiRequest('/api/rclone/search?remote=gdrive&path=docs&q=report'),
+    permission: PERMISSIONS.FILE_READ
+  },
+  'DELETE /api/rclone/stats': {
+    request: () => apiRequest('/api/rclone/stats', { method: 'DELETE' }),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'GET /api/rclone/stats/stream': { request: () => apiRequest('/api/rclone/stats/stream'), permission: null },
+  'GET /api/rclone/storage': { request: () => apiRequest('/api/rclone/storage'), permission: null },
+  'POST /api/rclone/storage': {
+    request: () => apiRequest('/api/rclone/storage', { method: 'POST' }),
+    permission: PERMISSIONS.REMOTE_ADMIN
+  },
+  'GET /api/rclone/storage/stream': { request: () => apiRequest('/api/rclone/storage/stream'), permission: null },
+  'GET /api/rclone/subtitle': {
+    request: () => apiRequest('/api/rclone/subtitle?remote=gdrive&path=videos/movie.srt'),
+    permission: PERMISSIONS.FILE_DOWNLOAD
+  },
+  'GET /api/rclone/thumbnail': {
+    request: () => apiRequest('/api/rclone/thumbnail?remote=gdrive&path=photos/cat.jpg'),
+    permission: PERMISSIONS.FILE_DOWNLOAD
+  },
+  'POST /api/rclone/upload': {
+    request: () => apiRequest('/api/rclone/upload', { json: { remote: 'gdrive', path: 'docs', name: 'report.pdf', size: 10 } }),
+    permission: PERMISSIONS.FILE_WRITE
+  },
+  'GET /api/rclone/upload': { request: () => apiRequest('/api/rclone/upload?id=upload-1'), permission: null },
+  'PUT /api/rclone/upload': {
+    request: () => apiRequest('/api/rclone/upload?id=upload-1&offset=0', { method: 'PUT', json: {} }),
+    permission: null
+  },
+  'DELETE /api/rclone/upload': {
+    request: () => apiRequest('/api/rclone/upload?id=upload-1', { method: 'DELETE' }),
+    permission: null
+  },
+};
+
+const CASES: [string, RouteHandler][] = Object.entries(ROUTES).flatMap(([path, module]) =>
+  routeHandlers(module).map(([method, handler]): [string, RouteHandler] => [`${method} ${path}`, handler])
+);
+
+const GATED_CASES = CASES
+  .filter(([name]) => REQUESTS[name]?.permission)
+  .map(([name, handler]): [string, RouteHandler, RouteCase] => [name, handler, REQUESTS[name]]);
+
+async function expectDenied(response: Response, routeCase: RouteCase) {
+  if (routeCase.expectDenied) {
+    await routeCase.expectDenied(response);
+  } else {
+    expect(response.status).toBe(403);
+  }
+  // Refused before anything reached rclone
+  expect(fetch).not.toHaveBeenCalled();
+}
+
+describe('rclone API routes', () => {
+  it('have a request for every handler', () => {
+    expect(CASES.map(([name]) => name).sort()).toEqual(Object.keys(REQUESTS).sort());
+  });
+
+  it.each(CASES)('%s rejects unauthenticated requests', async (name, handler) => {
+    signIn(null);
+    const response = await handler(REQUESTS[name].request(), {});
+
+    expect(response.status).toBe(401);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it.each(GATED_CASES)('%s rejects users without the permission', async (_name, handler, routeCase) => {
+    signIn(createUser('alice', { permissions: ALL_PERMISSIONS.filter(permission => permission !== routeCase.permission) }));
+    await expectDenied(await handler(routeCase.request(), {}), routeCase);
+  });
+
+  it.each(GATED_CASES)('%s rejects users deactivated since they signed in', async (_name, handler, routeCase) => {
+    signIn(createUser('alice', { isActive: false, permissions: ALL_PERMISSIONS }));
+    await expectDenied(await handler(routeCase.request(), {}), routeCase);
+  });
+});
+
+describe('POST /api/rclone/operations', () => {
+  it('refuses to copy files the user may not download', async () => {
+    signIn(createUser('alice', { permissions: ALL_PERMISSIONS.filter(permission => permission !== PERMISSIONS.FILE_DOWNLOAD) }));
+    const response = await operations.POST(apiRequest('/api/rclone/operations', {
+      json: { operation: 'copy', remote: 'gdrive', items: [{ path: 'docs/report.pdf', isDir: false }], destination: 'shared' }
+    }), {});
+
+    await expectItemDenied(response);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/rclone/check', () => {
+  it.each([':local', 'gdrive,opt=value', 'photos'])('refuses the unconfigured remote %s', async (remote) => {
+    signIn(createUser('alice', { permissions: ALL_PERMISSIONS }));
+    const response = await check.POST(apiRequest('/api/rclone/check', { json: { remote } }), {});
+
+    expect(response.status).toBe(404);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
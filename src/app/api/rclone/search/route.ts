@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server';
+import { checkRemote, withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { compileMatcher, parseSearchQuery, searchRemote, SearchResult } from '@/lib/search';
+import { isSafeRemotePath, normalizeRemotePath } from '@/lib/rclone/paths';
+
+// Stop after this many matches; a broader query is more useful than a huge result list
+const MAX_RESULTS = 1000;
+
+// SSE endpoint: walks the remote and streams matches as each folder is listed.
+// Closing the EventSource aborts the walk and any rclone listing in progress.
+export const GET = withApiAuth(async (request, session) => {
+  const searchParams = request.nextUrl.searchParams;
+  const remote = searchParams.get('remote');
+  const root = normalizeRemotePath(searchParams.get('path') || '');
+
+  if (!remote) {
+    return NextResponse.json({
+      error: 'Remote parameter is required',
+      success: false
+    }, { status: 400 });
+  }
+
+  const remoteError = await checkRemote(remote);
+  if (remoteError) {
+    return remoteError;
+  }
+
+  if (root && !isSafeRemotePath(root)) {
+    return NextResponse.json({
+      error: 'Invalid path',
+      success: false
+    }, { status: 400 });
+  }
+
+  const { query, error } = parseSearchQuery(searchParams);
+  if (!query) {
+    return NextResponse.json({ error, success: false }, { status: 400 });
+  }
+
+  let matches: ReturnType<typeof compileMatcher>;
+  try {
+    matches = compileMatcher(query);
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Invalid regular expression',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 400 });
+  }
+
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.FILE_READ, { remote, path: root })) {
+    return NextResponse.json({
+      error: 'Permission denied',
+      success: false
+    }, { status: 403 });
+  }
+
+  console.log(`Search request: ${remote}:${root || '/'} q="${query.pattern}" mode=${query.mode} type=${query.type}`);
+
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+  request.signal?.addEventListener('abort', () => controller.abort());
+
+  const stream = new ReadableStream({
+    async start(stream) {
+      const send = (payload: object) => {
+        try {
+          stream.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+        } catch {
+          // Client went away; the abort handler stops the walk
+          controller.abort();
+        }
+      };
+
+      let total = 0;
+      let scannedFolders = 0;
+      let scannedEntries = 0;
+      let truncated = false;
+
+      try {
+        for await (const batch of searchRemote(remote, root, controller.signal)) {
+          scannedFolders++;
+          scannedEntries += batch.items.length;
+
+          const items: SearchResult[] = [];
+          for (const item of batch.items) {
+            if (!matches(item, item.Path)) continue;
+            if (!hasPermission(permissions, PERMISSIONS.FILE_READ, { remote, path: item.Path })) continue;
+
+            items.push(item);
+            if (total + items.length >= MAX_RESULTS) {
+              truncated = true;
+              break;
+            }
+          }
+
+          total += items.length;
+          if (items.length > 0) {
+            send({ type: 'results', items, timestamp: Date.now() });
+          }
+          send({
+            type: 'progress',
+            directory: batch.directory,
+            scannedFolders,
+            scannedEntries,
+            ...(batch.error ? { error: batch.error } : {}),
+            timestamp: Date.now()
+          });
+
+          if (truncated) {
+            controller.abort();
+            break;
+          }
+        }
+
+        if (!controller.signal.aborted || truncated) {
+          console.log(`✅ Search completed: ${total} matches in ${scannedEntries} entries`);
+          send({ type: 'done', total, scannedEntries, truncated, timestamp: Date.now() });
+        } else {
+          console.log('Search cancelled by client');
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Search error:', error);
+          send({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error',
+            timestamp: Date.now()
+          });
+        }
+      } finally {
+        try {
+          stream.close();
+        } catch {
+          // already closed by the client
+        }
+      }
+    },
+    cancel() {
+      controller.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+});
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { resetTransferStats } from '@/lib/transfer-stats';
+
+// DELETE: reset the daemon's transfer counters, for every group or just ?group=
+export const DELETE = withApiAuth(async (request, session) => {
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.REMOTE_ADMIN)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Permission denied'
+    }, { status: 403 });
+  }
+
+  const group = request.nextUrl.searchParams.get('group') || undefined;
+
+  try {
+    await resetTransferStats(group);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'stats_reset',
+      resource: 'rclone',
+      details: { group: group || '*' }
+    }, request);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Transfer statistics reset'
+    });
+  } catch (error) {
+    console.error('Stats reset error:', error);
+    return NextResponse.json({
+      error: 'Failed to reset transfer statistics',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,60 @@
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { getLatestTransferStats, subscribeTransferStats, TransferStatsSnapshot, viewTransferStats } from '@/lib/transfer-stats';
+
+// SSE endpoint for the transfer dashboard; the daemon is only sampled while someone is watching
+export const GET = withApiAuth(async (request, session) => {
+  const userId = session.user.id;
+  const permissions = await getEffectivePermissions(userId);
+  const isAdmin = hasPermission(permissions, PERMISSIONS.REMOTE_ADMIN);
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (payload: object) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      };
+
+      send({
+        type: 'initial',
+        data: viewTransferStats(getLatestTransferStats(), userId, isAdmin),
+        canManage: isAdmin,
+        timestamp: Date.now()
+      });
+
+      let unsubscribe = () => {};
+      const heartbeatInterval = setInterval(() => {
+        try {
+          send({ type: 'heartbeat', timestamp: Date.now() });
+        } catch (error) {
+          console.log('Stats stream heartbeat failed, cleaning up:', error);
+          cleanup();
+        }
+      }, 30000);
+
+      const cleanup = () => {
+        clearInterval(heartbeatInterval);
+        unsubscribe();
+      };
+
+      unsubscribe = subscribeTransferStats((snapshot: TransferStatsSnapshot) => {
+        try {
+          send({ type: 'update', data: viewTransferStats(snapshot, userId, isAdmin), timestamp: Date.now() });
+        } catch (error) {
+          console.log('Stats stream closed:', error);
+          cleanup();
+        }
+      });
+
+      request.signal?.addEventListener('abort', cleanup);
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+});
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
-
-const RCLONE_RC_URL = process.env.RCLONE_RC_URL || 'http://127.0.0.1:5572';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, filterRemotes, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { rcloneClient } from '@/lib/rclone/client';
 
 // In-memory cache for storage data (shared globally)
 interface StorageData {
@@ -34,28 +35,7 @@ if (!global.storageSubscribers) {
 // Check storage for a single remote
 async function checkRemoteStorage(remote: string): Promise<StorageData> {
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-    
-    const response = await fetch(`${RCLONE_RC_URL}/operations/about`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        fs: `${remote}:`
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`API error: ${response.status} - ${errorData.error || response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await rcloneClient.about(remote);
     
     return {
       total: data.total,
@@ -75,21 +55,7 @@ async function checkRemoteStorage(remote: string): Promise<StorageData> {
 // Get list of all remotes
 async function getRemotesList(): Promise<string[]> {
   try {
-    const response = await fetch(`${RCLONE_RC_URL}/config/listremotes`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({}),
-      signal: AbortSignal.timeout(5000),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to get remotes list: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return data.remotes || [];
+    return await rcloneClient.listRemotes();
   } catch (error) {
     console.error('Failed to get remotes list:', error);
     return [];
@@ -196,17 +162,24 @@ function startBackgroundJob() {
 }
 
 // GET endpoint to retrieve cached storage data
-export async function GET() {
+export const GET = withApiAuth(async (_request, session) => {
   try {
     // Start background job if not running
     startBackgroundJob();
 
-    // Return cached data
+    // Return cached data for the remotes the user can see
+    const permissions = await getEffectivePermissions(session.user.id);
+    const cache = global.storageCache || {};
+    const data: StorageCache = {};
+    for (const remote of filterRemotes(permissions, PERMISSIONS.REMOTE_LIST, Object.keys(cache))) {
+      data[remote] = cache[remote];
+    }
+
     const response = {
       success: true,
-      data: global.storageCache || {},
-      lastUpdated: Object.keys(global.storageCache || {}).length > 0 
-        ? Math.min(...Object.values(global.storageCache || {}).map(d => d.lastUpdated))
+      data,
+      lastUpdated: Object.keys(data).length > 0 
+        ? Math.min(...Object.values(data).map(d => d.lastUpdated))
         : null
     };
 
@@ -219,10 +192,19 @@ export async function GET() {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
+});
 
 // POST endpoint to trigger immediate refresh
-export async function POST() {
+export const POST = withApiAuth(async (_request, session) => {
+  // A full sweep hits every remote, so it is reserved for remote administrators
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.REMOTE_ADMIN)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Permission denied'
+    }, { status: 403 });
+  }
+
   try {
     // Trigger immediate background job
     if (global.backgroundJobTimer) {
@@ -245,4 +227,4 @@ export async function POST() {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
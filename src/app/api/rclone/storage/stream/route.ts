@@ -1,8 +1,6 @@
-import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
-
-const RCLONE_RC_URL = process.env.RCLONE_RC_URL || 'http://127.0.0.1:5572';
+import { withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, filterRemotes, PERMISSIONS } from '@/lib/permissions';
+import { rcloneClient } from '@/lib/rclone/client';
 
 // Shared storage cache and subscribers
 interface StorageData {
@@ -36,28 +34,7 @@ if (!global.storageSubscribers) {
 // Check storage for a single remote
 async function checkRemoteStorage(remote: string): Promise<StorageData> {
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-    
-    const response = await fetch(`${RCLONE_RC_URL}/operations/about`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        fs: `${remote}:`
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`API error: ${response.status} - ${errorData.error || response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await rcloneClient.about(remote);
     
     return {
       total: data.total,
@@ -77,21 +54,7 @@ async function checkRemoteStorage(remote: string): Promise<StorageData> {
 // Get list of all remotes
 async function getRemotesList(): Promise<string[]> {
   try {
-    const response = await fetch(`${RCLONE_RC_URL}/config/listremotes`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({}),
-      signal: AbortSignal.timeout(5000),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to get remotes list: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return data.remotes || [];
+    return await rcloneClient.listRemotes();
   } catch (error) {
     console.error('Failed to get remotes list:', error);
     return [];
@@ -198,15 +161,19 @@ function startBackgroundJob() {
 }
 
 // SSE endpoint for real-time storage updates
-export async function GET(request: NextRequest) {
-  // Check authentication
-  const session = await getServerSession(authOptions);
-  if (!session) {
-    return new Response('Unauthorized', { status: 401 });
-  }
-
+export const GET = withApiAuth(async (request, session) => {
   console.log('New SSE connection established');
 
+  // Resolve permissions once per connection and filter every payload with them
+  const permissions = await getEffectivePermissions(session.user.id);
+  const visibleData = (cache: StorageCache): StorageCache => {
+    const data: StorageCache = {};
+    for (const remote of filterRemotes(permissions, PERMISSIONS.REMOTE_LIST, Object.keys(cache))) {
+      data[remote] = cache[remote];
+    }
+    return data;
+  };
+
   // Start background job if not running
   startBackgroundJob();
 
@@ -217,7 +184,7 @@ export async function GET(request: NextRequest) {
       // Send initial data immediately
       const initialData = {
         type: 'initial',
-        data: global.storageCache || {},
+        data: visibleData(global.storageCache || {}),
         timestamp: Date.now()
       };
       
@@ -229,7 +196,7 @@ export async function GET(request: NextRequest) {
       const handleStorageUpdate = (updatedCache: StorageCache) => {
         const updateData = {
           type: 'update',
-          data: updatedCache,
+          data: visibleData(updatedCache),
           timestamp: Date.now()
         };
         
@@ -286,4 +253,4 @@ export async function GET(request: NextRequest) {
       'Access-Control-Allow-Headers': 'Cache-Control',
     },
   });
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/rclone/subtitle/route';
+import { apiRequest, ALL_PERMISSIONS, createUser, signIn } from '@/test/api';
+
+function subtitleRequest() {
+  signIn(createUser('alice', { permissions: ALL_PERMISSIONS }));
+  return GET(apiRequest('/api/rclone/subtitle?remote=gdrive&path=videos/movie.srt'), {});
+}
+
+describe('GET /api/rclone/subtitle', () => {
+  it('converts SRT to WebVTT', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('1\n00:00:01,000 --> 00:00:02,000\nHello\n')));
+    const response = await subtitleRequest();
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('00:00:01.000 --> 00:00:02.000');
+  });
+
+  it('stops reading a response without Content-Length once it passes the size limit', async () => {
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += 1024 * 1024;
+        controller.enqueue(new Uint8Array(1024 * 1024));
+      }
+    });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body)));
+    const response = await subtitleRequest();
+
+    expect(response.status).toBe(413);
+    expect(sent).toBeLessThan(10 * 1024 * 1024);
+  });
+});
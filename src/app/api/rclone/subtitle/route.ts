@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { checkRemote, withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { srtToVtt } from '@/lib/media';
+import { rcloneClient } from '@/lib/rclone/client';
+import { isSafeRemotePath } from '@/lib/rclone/paths';
+import { readBodyWithLimit } from '@/lib/rclone/serve';
+
+// Subtitle files are small; anything bigger is not a subtitle
+const MAX_SUBTITLE_SIZE = 5 * 1024 * 1024;
+
+// GET: serve a sidecar .srt/.vtt file as WebVTT for the media player's <track>
+export const GET = withApiAuth(async (request, session) => {
+  const { searchParams } = new URL(request.url);
+  const remote = searchParams.get('remote');
+  const path = searchParams.get('path');
+
+  if (!remote || !path) {
+    return NextResponse.json(
+      { error: 'Remote and path parameters are required' },
+      { status: 400 }
+    );
+  }
+
+  if (!isSafeRemotePath(path)) {
+    return NextResponse.json(
+      { error: 'Invalid path' },
+      { status: 400 }
+    );
+  }
+
+  const remoteError = await checkRemote(remote);
+  if (remoteError) {
+    return remoteError;
+  }
+
+  const extension = path.split('.').pop()?.toLowerCase();
+  if (extension !== 'srt' && extension !== 'vtt') {
+    return NextResponse.json(
+      { error: 'Unsupported subtitle format' },
+      { status: 400 }
+    );
+  }
+
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.FILE_DOWNLOAD, { remote, path })) {
+    return NextResponse.json(
+      { error: 'Permission denied' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const response = await rcloneClient.serve(remote, path, {
+      method: 'GET',
+      signal: AbortSignal.timeout(30000), // 30초 타임아웃
+    });
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: 'Subtitle not found or not accessible', details: `HTTP ${response.status}: ${response.statusText}` },
+        { status: response.status === 404 ? 404 : 500 }
+      );
+    }
+
+    const contentLength = Number(response.headers.get('content-length') || 0);
+    if (contentLength > MAX_SUBTITLE_SIZE) {
+      await response.body?.cancel();
+      return NextResponse.json(
+        { error: 'Subtitle file is too large' },
+        { status: 413 }
+      );
+    }
+
+    // Content-Length is only a hint; a chunked response is cut off once it passes the limit
+    const body = await readBodyWithLimit(response.body, MAX_SUBTITLE_SIZE);
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Subtitle file is too large' },
+        { status: 413 }
+      );
+    }
+
+    const text = new TextDecoder().decode(body);
+    const vtt = extension === 'srt' ? srtToVtt(text) : text;
+
+    return new Response(vtt, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/vtt; charset=utf-8',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    console.error('Subtitle error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load subtitle', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
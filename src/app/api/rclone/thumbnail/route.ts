@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { checkRemote, withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { THUMBNAIL_SIZES } from '@/lib/media';
+import { isSafeRemotePath } from '@/lib/rclone/paths';
+import { getThumbnail, ThumbnailError } from '@/lib/thumbnails';
+
+const ALLOWED_SIZES: number[] = Object.values(THUMBNAIL_SIZES);
+
+// GET: resized WebP preview of an image, served from the disk cache when possible
+export const GET = withApiAuth(async (request, session) => {
+  const { searchParams } = new URL(request.url);
+  const remote = searchParams.get('remote');
+  const path = searchParams.get('path');
+  const size = Number(searchParams.get('size') || THUMBNAIL_SIZES.grid);
+  const modTime = searchParams.get('modTime') || undefined;
+
+  if (!remote || !path) {
+    return NextResponse.json(
+      { error: 'Remote and path parameters are required' },
+      { status: 400 }
+    );
+  }
+
+  if (!isSafeRemotePath(path)) {
+    return NextResponse.json(
+      { error: 'Invalid path' },
+      { status: 400 }
+    );
+  }
+
+  const remoteError = await checkRemote(remote);
+  if (remoteError) {
+    return remoteError;
+  }
+
+  if (!ALLOWED_SIZES.includes(size)) {
+    return NextResponse.json(
+      { error: `Size must be one of ${ALLOWED_SIZES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  // A preview exposes the file's content, so it needs the same permission as a download
+  const permissions = await getEffectivePermissions(session.user.id);
+  if (!hasPermission(permissions, PERMISSIONS.FILE_DOWNLOAD, { remote, path })) {
+    return NextResponse.json(
+      { error: 'Permission denied' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const thumbnail = await getThumbnail(remote, path, size, modTime);
+
+    return new Response(new Uint8Array(thumbnail), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/webp',
+        'Content-Length': String(thumbnail.length),
+        // The URL carries ModTime, so a cached copy never goes stale
+        'Cache-Control': modTime ? 'private, max-age=604800, immutable' : 'private, no-cache',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ThumbnailError) {
+      return NextResponse.json(
+        { error: 'Failed to create thumbnail', details: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Thumbnail error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create thumbnail', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
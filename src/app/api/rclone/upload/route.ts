@@ -0,0 +1,211 @@
+import { NextResponse } from 'next/server';
+import { checkRemote, withApiAuth } from '@/lib/api-auth';
+import { getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+import {
+  appendChunk,
+  cancelUpload,
+  createUploadSession,
+  finalizeUpload,
+  getReceivedBytes,
+  getUploadSession,
+  MAX_UPLOAD_SIZE,
+  refreshUploadStatus,
+  UploadOverflowError,
+  UploadSession
+} from '@/lib/uploads';
+import { isSafeRemotePath, isValidFileName, joinRemotePath } from '@/lib/rclone/paths';
+import { recordAudit } from '@/lib/audit';
+
+async function uploadState(session: UploadSession) {
+  return {
+    success: true,
+    uploadId: session.id,
+    status: session.status,
+    offset: await getReceivedBytes(session),
+    size: session.size,
+    error: session.error
+  };
+}
+
+// POST: start a new upload session
+export const POST = withApiAuth(async (request, session) => {
+  try {
+    const { remote, path = '', name, size } = await request.json();
+
+    if (!remote || !name || typeof size !== 'number' || size < 0) {
+      return NextResponse.json({
+        error: 'Remote, name and size parameters are required',
+        success: false
+      }, { status: 400 });
+    }
+
+    if (MAX_UPLOAD_SIZE > 0 && size > MAX_UPLOAD_SIZE) {
+      return NextResponse.json({
+        error: 'File is too large',
+        success: false,
+        details: `Uploads are limited to ${MAX_UPLOAD_SIZE} bytes`
+      }, { status: 413 });
+    }
+
+    if (!isValidFileName(name) || (path && !isSafeRemotePath(path))) {
+      return NextResponse.json({
+        error: 'Invalid file name or path',
+        success: false
+      }, { status: 400 });
+    }
+
+    const remoteError = await checkRemote(remote);
+    if (remoteError) {
+      return remoteError;
+    }
+
+    const permissions = await getEffectivePermissions(session.user.id);
+    if (!hasPermission(permissions, PERMISSIONS.FILE_WRITE, { remote, path: joinRemotePath(path, name) })) {
+      return NextResponse.json({
+        error: 'Permission denied',
+        success: false
+      }, { status: 403 });
+    }
+
+    let upload = await createUploadSession(session.user.id, remote, path, name, size);
+
+    await recordAudit({
+      userId: session.user.id,
+      action: 'file_upload',
+      resource: 'file',
+      details: { uploadId: upload.id, remote, path: joinRemotePath(path, name), size }
+    }, request);
+
+    // Empty files have no chunks to wait for
+    if (size === 0) {
+      upload = await finalizeUpload(upload);
+    }
+
+    return NextResponse.json(await uploadState(upload));
+  } catch (error) {
+    console.error('Upload init error:', error);
+    return NextResponse.json({
+      error: 'Failed to start upload',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// GET: current offset and status, used to resume and to poll the final transfer
+export const GET = withApiAuth(async (request, session) => {
+  const id = request.nextUrl.searchParams.get('id') || '';
+  const upload = await getUploadSession(id);
+
+  if (!upload || upload.userId !== session.user.id) {
+    return NextResponse.json({
+      error: 'Upload not found',
+      success: false
+    }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json(await uploadState(await refreshUploadStatus(upload)));
+  } catch (error) {
+    console.error('Upload status error:', error);
+    return NextResponse.json({
+      error: 'Failed to get upload status',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// PUT: append a chunk at ?offset=, finalizing once every byte has arrived
+export const PUT = withApiAuth(async (request, session) => {
+  const searchParams = request.nextUrl.searchParams;
+  const id = searchParams.get('id') || '';
+  const offset = Number(searchParams.get('offset'));
+  const upload = await getUploadSession(id);
+
+  if (!upload || upload.userId !== session.user.id) {
+    return NextResponse.json({
+      error: 'Upload not found',
+      success: false
+    }, { status: 404 });
+  }
+
+  if (upload.status !== 'uploading') {
+    return NextResponse.json(await uploadState(upload), { status: 409 });
+  }
+
+  if (!request.body || !Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({
+      error: 'Chunk body and offset parameter are required',
+      success: false
+    }, { status: 400 });
+  }
+
+  // Fails fast on an honest Content-Length; appendChunk counts the bytes that actually arrive
+  const contentLength = Number(request.headers.get('content-length') || 0);
+  if (offset + contentLength > upload.size) {
+    return NextResponse.json({
+      error: 'Chunk exceeds declared file size',
+      success: false
+    }, { status: 413 });
+  }
+
+  try {
+    const received = await appendChunk(upload, offset, request.body);
+
+    // Offset mismatch or a concurrent write: tell the client where to resume
+    if (received === null) {
+      return NextResponse.json({
+        ...(await uploadState(upload)),
+        success: false,
+        error: 'Offset mismatch'
+      }, { status: 409 });
+    }
+
+    if (received === upload.size) {
+      return NextResponse.json(await uploadState(await finalizeUpload(upload)));
+    }
+
+    return NextResponse.json(await uploadState(upload));
+  } catch (error) {
+    if (error instanceof UploadOverflowError) {
+      await cancelUpload(upload);
+      return NextResponse.json({
+        error: error.message,
+        success: false
+      }, { status: 413 });
+    }
+
+    // A dropped connection leaves the partial chunk in place; the client resumes from GET's offset
+    console.error('Upload chunk error:', error);
+    return NextResponse.json({
+      error: 'Failed to write chunk',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
+
+// DELETE: cancel an upload and discard staged data
+export const DELETE = withApiAuth(async (request, session) => {
+  const id = request.nextUrl.searchParams.get('id') || '';
+  const upload = await getUploadSession(id);
+
+  if (!upload || upload.userId !== session.user.id) {
+    return NextResponse.json({
+      error: 'Upload not found',
+      success: false
+    }, { status: 404 });
+  }
+
+  await cancelUpload(upload);
+
+  await recordAudit({
+    userId: session.user.id,
+    action: 'file_upload_cancel',
+    resource: 'file',
+    details: { uploadId: upload.id, remote: upload.remote, path: joinRemotePath(upload.path, upload.name) }
+  }, request);
+
+  return NextResponse.json({ success: true });
+});
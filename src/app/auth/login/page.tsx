@@ -4,6 +4,15 @@ import { useState, useEffect } from 'react'
 import { signIn, getSession } from 'next-auth/react'
 import { useRouter, useSearchParams } from 'next/navigation'
 
+// Matches LOGIN_THROTTLED_ERROR in src/lib/login-throttle.ts: "LoginThrottled:<seconds>"
+const THROTTLED_ERROR_PATTERN = /^LoginThrottled:(\d+)$/
+
+// Same message whether or not the username exists
+function lockoutMessage(seconds: number) {
+  const wait = seconds >= 60 ? `${Math.ceil(seconds / 60)}분` : `${seconds}초`
+  return `로그인 시도가 너무 많습니다. ${wait} 후에 다시 시도해주세요.`
+}
+
 export default function LoginPage() {
   const [username, setUsername] = useState('')
   const [password, setPassword] = useState('')
@@ -33,7 +42,8 @@ export default function LoginPage() {
       })
 
       if (result?.error) {
-        setError('로그인 정보가 올바르지 않습니다.')
+        const throttled = result.error.match(THROTTLED_ERROR_PATTERN)
+        setError(throttled ? lockoutMessage(parseInt(throttled[1], 10)) : '로그인 정보가 올바르지 않습니다.')
         return
       }
 
@@ -13,6 +13,9 @@ interface FilesResponse {
   files: FileItem[];
   remote: string;
   path: string;
+  // Granted root containing path; on 403, the folders the user may browse instead
+  root?: string;
+  roots?: string[];
   success: boolean;
   error?: string;
   tokenExpired?: boolean;
@@ -29,6 +32,7 @@ export default function FileBrowser() {
   const [remotes, setRemotes] = useState<string[]>([]);
   const [selectedRemote, setSelectedRemote] = useState<string | null>(null);
   const [currentPath, setCurrentPath] = useState<string>('');
+  const [accessRoot, setAccessRoot] = useState<string>('');
   const [files, setFiles] = useState<FileItem[]>([]);
   const [viewMode, setViewMode] = useState<FileViewMode['mode']>('list');
   const [loading, setLoading] = useState<boolean>(false);
@@ -81,9 +85,17 @@ export default function FileBrowser() {
       
       const response = await fetch(`/api/rclone/files?${params}`);
       const data: FilesResponse = await response.json();
+
+      // Opening a folder above the user's granted root moves down to that root
+      const grantedRoot = !data.success && data.roots?.find(root => root && (!path || root.startsWith(`${path}/`)));
+      if (grantedRoot) {
+        setCurrentPath(grantedRoot);
+        return;
+      }
       
       if (data.success) {
         setFiles(data.files);
+        setAccessRoot(data.root || '');
         setError(null);
       } else {
         if (data.tokenExpired) {
@@ -271,6 +283,7 @@ export default function FileBrowser() {
               {/* Breadcrumb */}
               <Breadcrumb
                 items={generateBreadcrumbs()}
+                rootPath={accessRoot}
                 onNavigate={handleBreadcrumbNavigate}
               />
 
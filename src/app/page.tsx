@@ -5,6 +5,8 @@ import { useEffect, useState } from 'react';
 interface RemoteListResponse {
   remotes: string[];
   remoteDetails: {[key: string]: {name: string, type: string}};
+  canManage?: boolean;
+  canManageUsers?: boolean;
   success: boolean;
   error?: string;
   details?: string;
@@ -28,6 +30,8 @@ interface StorageResponse {
 export default function Home() {
   const [remotes, setRemotes] = useState<string[]>([]);
   const [remoteDetails, setRemoteDetails] = useState<{[key: string]: {name: string, type: string}}>({});
+  const [canManage, setCanManage] = useState(false);
+  const [canManageUsers, setCanManageUsers] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [storageInfo, setStorageInfo] = useState<StorageInfo>({});
@@ -49,6 +53,8 @@ export default function Home() {
       if (data.success) {
         setRemotes(data.remotes);
         setRemoteDetails(data.remoteDetails || {});
+        setCanManage(!!data.canManage);
+        setCanManageUsers(!!data.canManageUsers);
         setError(null);
       } else {
         setError(data.error || 'Failed to fetch remotes');
@@ -173,6 +179,24 @@ export default function Home() {
           <p className="text-gray-600">
             {remotes.length} remote{remotes.length !== 1 ? 's' : ''} configured
           </p>
+          {(canManage || canManageUsers) && (
+            <div className="mt-3 space-x-4 text-sm">
+              {canManage && (
+                <>
+                  <a href="/admin/remotes" className="text-blue-600 hover:text-blue-800">Manage remotes</a>
+                  <a href="/transfers" className="text-blue-600 hover:text-blue-800">Transfers</a>
+                </>
+              )}
+              {canManageUsers && (
+                <>
+                  <a href="/admin/users" className="text-blue-600 hover:text-blue-800">Users</a>
+                  <a href="/admin/roles" className="text-blue-600 hover:text-blue-800">Roles</a>
+                  <a href="/admin/grants" className="text-blue-600 hover:text-blue-800">Grants</a>
+                  <a href="/admin/audit" className="text-blue-600 hover:text-blue-800">Audit log</a>
+                </>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Remote Status Matrix */}
@@ -0,0 +1,288 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { TransferStatsSnapshot, ThroughputSample } from '@/lib/transfer-stats';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+function formatBytes(bytes: number) {
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  if (!bytes) return '0 B';
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+}
+
+function formatDuration(seconds: number) {
+  if (seconds < 60) return `${Math.ceil(seconds)}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${Math.ceil(seconds % 60)}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+// 롤링 처리량 차트 (최근 5분)
+function ThroughputChart({ history }: { history: ThroughputSample[] }) {
+  if (history.length < 2) {
+    return (
+      <div className="flex items-center justify-center h-40 text-sm text-gray-400">
+        Collecting samples...
+      </div>
+    );
+  }
+
+  const peak = Math.max(...history.map(sample => sample.speed), 1);
+  const start = history[0].timestamp;
+  const span = Math.max(history[history.length - 1].timestamp - start, 1);
+  const points = history.map(sample => {
+    const x = ((sample.timestamp - start) / span) * CHART_WIDTH;
+    const y = CHART_HEIGHT - (sample.speed / peak) * (CHART_HEIGHT - 10);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-40">
+        <polygon
+          points={`0,${CHART_HEIGHT} ${points.join(' ')} ${CHART_WIDTH},${CHART_HEIGHT}`}
+          className="fill-blue-100"
+        />
+        <polyline
+          points={points.join(' ')}
+          fill="none"
+          strokeWidth="2"
+          vectorEffect="non-scaling-stroke"
+          className="stroke-blue-600"
+        />
+      </svg>
+      <div className="absolute top-0 left-1 text-xs text-gray-500">{formatBytes(peak)}/s</div>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{formatDuration(span / 1000)} ago</span>
+        <span>now</span>
+      </div>
+    </div>
+  );
+}
+
+export default function TransfersPage() {
+  const [stats, setStats] = useState<TransferStatsSnapshot | null>(null);
+  const [canManage, setCanManage] = useState(false);
+  const [connected, setConnected] = useState(false);
+  const [resetting, setResetting] = useState(false);
+
+  useEffect(() => {
+    const es = new EventSource('/api/rclone/stats/stream');
+
+    es.onopen = () => setConnected(true);
+
+    es.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (data.type === 'initial') {
+          setStats(data.data);
+          setCanManage(!!data.canManage);
+        } else if (data.type === 'update') {
+          setStats(data.data);
+        }
+      } catch (error) {
+        console.error('Error parsing stats stream message:', error);
+      }
+    };
+
+    es.onerror = (error) => {
+      console.error('Stats stream connection error:', error);
+      setConnected(false);
+    };
+
+    return () => es.close();
+  }, []);
+
+  const handleReset = async (group?: string) => {
+    const target = group ? `group ${group}` : 'all transfer statistics';
+    if (!confirm(`Reset ${target}?`)) return;
+
+    setResetting(true);
+    try {
+      const query = group ? `?group=${encodeURIComponent(group)}` : '';
+      const response = await fetch(`/api/rclone/stats${query}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.success) {
+        alert(data.details || data.error || 'Failed to reset statistics');
+      }
+    } catch (error) {
+      alert('Network error: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-50">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Transfers</h1>
+            <p className="text-sm text-gray-500 flex items-center">
+              <span className={`inline-block w-2 h-2 rounded-full mr-2 ${connected ? 'bg-green-500' : 'bg-gray-400'}`}></span>
+              {connected ? 'Live' : 'Reconnecting...'}
+              {stats?.error && <span className="ml-2 text-red-600">rclone: {stats.error}</span>}
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            {canManage && (
+              <a
+                href="/admin/bandwidth"
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+              >
+                Bandwidth
+              </a>
+            )}
+            {canManage && (
+              <button
+                onClick={() => handleReset()}
+                disabled={resetting}
+                className="px-3 py-2 text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Reset stats
+              </button>
+            )}
+            <a
+              href="/"
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Back
+            </a>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {[
+            { label: 'Bandwidth', value: `${formatBytes(stats?.speed || 0)}/s` },
+            { label: 'Transferred', value: formatBytes(stats?.bytes || 0) },
+            { label: 'Files', value: String(stats?.transfers || 0) },
+            { label: 'Checks', value: String(stats?.checks || 0) },
+            { label: 'Errors', value: String(stats?.errors || 0), alert: (stats?.errors || 0) > 0 },
+          ].map(card => (
+            <div key={card.label} className="bg-white rounded-lg shadow-sm border p-4">
+              <div className="text-xs text-gray-500">{card.label}</div>
+              <div className={`text-xl font-semibold ${card.alert ? 'text-red-600' : 'text-gray-900'}`}>{card.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {stats?.lastError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 break-all">
+            Last error: {stats.lastError}
+          </div>
+        )}
+
+        {/* Throughput */}
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Throughput</h2>
+          <ThroughputChart history={stats?.history || []} />
+        </div>
+
+        {/* Active transfers */}
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            Active transfers ({stats?.transferring.length || 0})
+          </h2>
+          {!stats || stats.transferring.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing is transferring right now.</p>
+          ) : (
+            <div className="space-y-3">
+              {stats.transferring.map(transfer => (
+                <div key={`${transfer.group}:${transfer.name}`}>
+                  <div className="flex justify-between text-sm">
+                    <span className="truncate text-gray-900 mr-4" title={transfer.name}>{transfer.name}</span>
+                    <span className="flex-shrink-0 text-gray-500">
+                      {formatBytes(transfer.bytes)} / {formatBytes(transfer.size)} · {formatBytes(transfer.speed)}/s
+                      {transfer.eta !== null && transfer.eta > 0 && ` · ${formatDuration(transfer.eta)} left`}
+                    </span>
+                  </div>
+                  <div className="w-full h-2 bg-gray-200 rounded-full mt-1 overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all duration-500"
+                      style={{ width: `${Math.min(transfer.percentage, 100)}%` }}
+                    ></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Groups */}
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Stats groups</h2>
+          {!stats || stats.groups.length === 0 ? (
+            <p className="text-sm text-gray-500">No stats groups.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 font-medium">Group</th>
+                  <th className="py-2 font-medium">Job</th>
+                  {canManage && <th className="py-2 font-medium">User</th>}
+                  <th className="py-2 font-medium text-right">Transferred</th>
+                  <th className="py-2 font-medium text-right">Speed</th>
+                  <th className="py-2 font-medium text-right">Errors</th>
+                  {canManage && <th className="py-2"></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {stats.groups.map(group => (
+                  <tr key={group.group} className="border-b last:border-0">
+                    <td className="py-2 text-gray-900">{group.group}</td>
+                    <td className="py-2 text-gray-600">{group.job?.type || '-'}</td>
+                    {canManage && <td className="py-2 text-gray-600">{group.job?.username || '-'}</td>}
+                    <td className="py-2 text-right text-gray-600">
+                      {formatBytes(group.bytes)}{group.totalBytes > 0 && ` / ${formatBytes(group.totalBytes)}`}
+                    </td>
+                    <td className="py-2 text-right text-gray-600">{formatBytes(group.speed)}/s</td>
+                    <td className={`py-2 text-right ${group.errors > 0 ? 'text-red-600' : 'text-gray-600'}`} title={group.lastError || undefined}>
+                      {group.errors}
+                    </td>
+                    {canManage && (
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => handleReset(group.group)}
+                          disabled={resetting}
+                          className="text-xs text-gray-500 hover:text-red-600 disabled:opacity-50"
+                        >
+                          Reset
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Recently completed */}
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Recently completed</h2>
+          {!stats || stats.recent.length === 0 ? (
+            <p className="text-sm text-gray-500">No completed transfers yet.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {stats.recent.map((transfer, index) => (
+                <li key={`${transfer.group}:${transfer.name}:${index}`} className="py-2 flex justify-between">
+                  <span className={`truncate mr-4 ${transfer.error ? 'text-red-600' : 'text-gray-900'}`} title={transfer.error || transfer.name}>
+                    {transfer.name}
+                  </span>
+                  <span className="flex-shrink-0 text-gray-500">
+                    {transfer.error ? 'Failed' : formatBytes(transfer.size)}
+                    {transfer.completedAt && ` · ${new Date(transfer.completedAt).toLocaleTimeString()}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
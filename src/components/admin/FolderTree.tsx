@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface Folder {
+  name: string;
+  path: string;
+}
+
+interface FolderTreeProps {
+  remote: string;
+  selectedPath: string;
+  onSelect: (path: string) => void;
+}
+
+// Lazily loaded folder tree of a remote; '' is the remote root
+export default function FolderTree({ remote, selectedPath, onSelect }: FolderTreeProps) {
+  const [children, setChildren] = useState<Record<string, Folder[]>>({});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set(['']));
+  const [loadingPath, setLoadingPath] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFolders = async (path: string) => {
+    setLoadingPath(path);
+    try {
+      const params = new URLSearchParams({ remote, path });
+      const response = await fetch(`/api/admin/grants/folders?${params}`);
+      const data = await response.json();
+      if (data.success) {
+        setChildren(current => ({ ...current, [path]: data.folders }));
+        setError(null);
+      } else {
+        setError(data.details || data.error || 'Failed to list folders');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoadingPath(null);
+    }
+  };
+
+  useEffect(() => {
+    setChildren({});
+    setExpanded(new Set(['']));
+    loadFolders('');
+  }, [remote]);
+
+  const toggle = (path: string) => {
+    const next = new Set(expanded);
+    if (next.has(path)) {
+      next.delete(path);
+    } else {
+      next.add(path);
+      if (!children[path]) loadFolders(path);
+    }
+    setExpanded(next);
+  };
+
+  const renderFolder = (folder: Folder, depth: number) => (
+    <li key={folder.path}>
+      <div className="flex items-center" style={{ paddingLeft: depth * 16 }}>
+        <button
+          onClick={() => toggle(folder.path)}
+          className="w-5 text-gray-400 hover:text-gray-700"
+          aria-label={expanded.has(folder.path) ? 'Collapse' : 'Expand'}
+        >
+          {expanded.has(folder.path) ? '▾' : '▸'}
+        </button>
+        <button
+          onClick={() => onSelect(folder.path)}
+          className={`truncate text-left ${
+            selectedPath === folder.path ? 'font-semibold text-blue-700' : 'text-gray-800 hover:text-blue-600'
+          }`}
+        >
+          {folder.name}
+        </button>
+      </div>
+      {expanded.has(folder.path) && (
+        loadingPath === folder.path ? (
+          <p className="text-xs text-gray-400" style={{ paddingLeft: (depth + 1) * 16 + 20 }}>Loading...</p>
+        ) : (
+          children[folder.path]?.length ? (
+            <ul>{children[folder.path].map(child => renderFolder(child, depth + 1))}</ul>
+          ) : null
+        )
+      )}
+    </li>
+  );
+
+  return (
+    <div className="text-sm">
+      <button
+        onClick={() => onSelect('')}
+        className={`text-left ${selectedPath === '' ? 'font-semibold text-blue-700' : 'text-gray-800 hover:text-blue-600'}`}
+      >
+        {remote}: (whole remote)
+      </button>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+      {loadingPath === '' ? (
+        <p className="mt-1 text-xs text-gray-400">Loading...</p>
+      ) : (
+        <ul className="mt-1 space-y-0.5">{(children[''] || []).map(folder => renderFolder(folder, 0))}</ul>
+      )}
+    </div>
+  );
+}
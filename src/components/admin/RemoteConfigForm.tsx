@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import type { Provider, ProviderOption, RemoteConfig } from '@/lib/remote-config';
+
+interface RemoteConfigFormProps {
+  providers: Provider[];
+  // Editing an existing remote; omitted when creating one
+  remote?: RemoteConfig;
+  saving: boolean;
+  onSubmit: (name: string, type: string, parameters: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+// Option.Provider lists the providers an option applies to ("AWS,Ceph"), or excludes them ("!AWS")
+function appliesToProvider(filter: string, provider: string) {
+  if (!filter) return true;
+  const negate = filter.startsWith('!');
+  const names = (negate ? filter.slice(1) : filter).split(',').map(name => name.trim());
+  return negate ? !names.includes(provider) : names.includes(provider);
+}
+
+function OptionField({ option, value, isSet, onChange }: {
+  option: ProviderOption;
+  value: string;
+  isSet: boolean;
+  onChange: (value: string) => void;
+}) {
+  const inputClass = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm';
+  const firstHelpLine = option.help.split('\n')[0];
+
+  let input;
+  if (option.secret) {
+    input = (
+      <input
+        type="password"
+        autoComplete="new-password"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={isSet ? 'Unchanged (a value is set)' : ''}
+        className={inputClass}
+      />
+    );
+  } else if (option.type === 'bool') {
+    input = (
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+        <option value="">Default ({option.default || 'false'})</option>
+        <option value="true">true</option>
+        <option value="false">false</option>
+      </select>
+    );
+  } else if (option.examples.length > 0 && option.exclusive) {
+    input = (
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+        <option value="">{option.default ? `Default (${option.default})` : 'Select...'}</option>
+        {option.examples.map(example => (
+          <option key={example.value} value={example.value}>
+            {example.value}{example.help ? ` - ${example.help.split('\n')[0]}` : ''}
+          </option>
+        ))}
+      </select>
+    );
+  } else {
+    const listId = option.examples.length > 0 ? `examples-${option.name}` : undefined;
+    input = (
+      <>
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={option.default}
+          list={listId}
+          className={inputClass}
+        />
+        {listId && (
+          <datalist id={listId}>
+            {option.examples.map(example => (
+              <option key={example.value} value={example.value}>{example.help.split('\n')[0]}</option>
+            ))}
+          </datalist>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <label className="block text-sm">
+      <span className="font-medium text-gray-700">
+        {option.name}
+        {option.required && <span className="text-red-500 ml-1">*</span>}
+      </span>
+      {input}
+      {firstHelpLine && <span className="block text-xs text-gray-500 mt-1" title={option.help}>{firstHelpLine}</span>}
+    </label>
+  );
+}
+
+// Create/edit form generated from the backend's option schema
+export default function RemoteConfigForm({ providers, remote, saving, onSubmit, onCancel }: RemoteConfigFormProps) {
+  const [name, setName] = useState(remote?.name || '');
+  const [type, setType] = useState(remote?.type || '');
+  const [values, setValues] = useState<Record<string, string>>(remote?.values || {});
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  const provider = providers.find(item => item.name === type);
+  const visibleOptions = (provider?.options || [])
+    .filter(option => appliesToProvider(option.provider, values.provider || ''));
+  const basicOptions = visibleOptions.filter(option => !option.advanced);
+  const advancedOptions = visibleOptions.filter(option => option.advanced);
+
+  const setValue = (key: string, value: string) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Send only options the user filled in (or cleared on an existing remote)
+    const parameters: Record<string, string> = {};
+    for (const option of visibleOptions) {
+      const value = values[option.name];
+      if (value === undefined) continue;
+      if (value === '' && !(remote && option.name in remote.values)) continue;
+      parameters[option.name] = value;
+    }
+    onSubmit(name.trim(), type, parameters);
+  };
+
+  const renderOption = (option: ProviderOption) => (
+    <OptionField
+      key={option.name}
+      option={option}
+      value={values[option.name] ?? ''}
+      isSet={!!remote?.secretsSet.includes(option.name)}
+      onChange={(value) => setValue(option.name, value)}
+    />
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">Name</span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={!!remote}
+            required
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-100"
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">Type</span>
+          <select
+            value={type}
+            onChange={(e) => {
+              setType(e.target.value);
+              setValues({});
+            }}
+            disabled={!!remote}
+            required
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-100"
+          >
+            <option value="">Select a backend...</option>
+            {providers.map(item => (
+              <option key={item.name} value={item.name}>{item.name} - {item.description}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {provider && (
+        <>
+          <div className="space-y-4">
+            {basicOptions.map(renderOption)}
+          </div>
+
+          {advancedOptions.length > 0 && (
+            <div>
+              <button
+                type="button"
+                onClick={() => setShowAdvanced(!showAdvanced)}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                {showAdvanced ? 'Hide' : 'Show'} advanced options ({advancedOptions.length})
+              </button>
+              {showAdvanced && (
+                <div className="space-y-4 mt-4">
+                  {advancedOptions.map(renderOption)}
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex justify-end space-x-3 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving || !name.trim() || !type}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {remote ? 'Save changes' : 'Create remote'}
+        </button>
+      </div>
+    </form>
+  );
+}
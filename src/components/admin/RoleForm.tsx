@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import type { PERMISSION_CATALOG } from '@/lib/permissions';
+
+export interface RoleFormValues {
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+interface RoleFormProps {
+  catalog: typeof PERMISSION_CATALOG;
+  // Editing an existing role or duplicating a system role; omitted for a blank role
+  role?: RoleFormValues;
+  isNew: boolean;
+  saving: boolean;
+  onSubmit: (values: RoleFormValues) => void;
+  onCancel: () => void;
+}
+
+export default function RoleForm({ catalog, role, isNew, saving, onSubmit, onCancel }: RoleFormProps) {
+  const [values, setValues] = useState<RoleFormValues>(role || {
+    name: '',
+    description: '',
+    permissions: []
+  });
+  const inputClass = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm';
+
+  const togglePermission = (name: string) => {
+    setValues(current => ({
+      ...current,
+      permissions: current.permissions.includes(name)
+        ? current.permissions.filter(permission => permission !== name)
+        : [...current.permissions, name]
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(values);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="block text-sm">
+        <span className="font-medium text-gray-700">Name</span>
+        <input
+          type="text"
+          value={values.name}
+          onChange={(e) => setValues({ ...values, name: e.target.value })}
+          maxLength={50}
+          autoComplete="off"
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block text-sm">
+        <span className="font-medium text-gray-700">Description</span>
+        <input
+          type="text"
+          value={values.description}
+          onChange={(e) => setValues({ ...values, description: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+
+      <fieldset>
+        <legend className="text-sm font-medium text-gray-700">Permissions</legend>
+        <div className="mt-1 space-y-1">
+          {catalog.map(permission => (
+            <label key={permission.name} className="flex items-start space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={values.permissions.includes(permission.name)}
+                onChange={() => togglePermission(permission.name)}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="font-mono text-gray-900">{permission.name}</span>
+                <span className="block text-xs text-gray-500">{permission.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving || !values.name.trim()}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : isNew ? 'Create role' : 'Save changes'}
+        </button>
+      </div>
+    </form>
+  );
+}
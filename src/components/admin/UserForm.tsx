@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import type { RoleSummary } from '@/lib/users';
+
+export interface UserFormValues {
+  username: string;
+  email: string;
+  name: string;
+  roleIds: string[];
+  isActive: boolean;
+  mustChangePassword: boolean;
+}
+
+interface UserFormProps {
+  roles: RoleSummary[];
+  // Editing an existing user; omitted when creating one
+  user?: UserFormValues;
+  // Own account: deactivation is refused by the API, so the checkbox is disabled
+  isSelf?: boolean;
+  saving: boolean;
+  onSubmit: (values: UserFormValues) => void;
+  onCancel: () => void;
+}
+
+export default function UserForm({ roles, user, isSelf, saving, onSubmit, onCancel }: UserFormProps) {
+  const [values, setValues] = useState<UserFormValues>(user || {
+    username: '',
+    email: '',
+    name: '',
+    roleIds: [],
+    isActive: true,
+    mustChangePassword: true
+  });
+  const isNew = !user;
+  const inputClass = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm';
+
+  const toggleRole = (roleId: string) => {
+    setValues(current => ({
+      ...current,
+      roleIds: current.roleIds.includes(roleId)
+        ? current.roleIds.filter(id => id !== roleId)
+        : [...current.roleIds, roleId]
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(values);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">Username</span>
+          <input
+            type="text"
+            value={values.username}
+            onChange={(e) => setValues({ ...values, username: e.target.value })}
+            disabled={!isNew}
+            autoComplete="off"
+            className={`${inputClass} disabled:bg-gray-100`}
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">Display name</span>
+          <input
+            type="text"
+            value={values.name}
+            onChange={(e) => setValues({ ...values, name: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <label className="block text-sm">
+        <span className="font-medium text-gray-700">Email</span>
+        <input
+          type="email"
+          value={values.email}
+          onChange={(e) => setValues({ ...values, email: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+
+      <fieldset>
+        <legend className="text-sm font-medium text-gray-700">Roles</legend>
+        {roles.length === 0 ? (
+          <p className="text-sm text-gray-500 mt-1">No roles defined.</p>
+        ) : (
+          <div className="mt-1 space-y-1">
+            {roles.map(role => (
+              <label key={role.id} className="flex items-start space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={values.roleIds.includes(role.id)}
+                  onChange={() => toggleRole(role.id)}
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className="text-gray-900">{role.name}</span>
+                  {role.description && <span className="block text-xs text-gray-500">{role.description}</span>}
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+      </fieldset>
+
+      {isNew ? (
+        <p className="text-xs text-gray-500">
+          A temporary password is generated and shown once after the user is created.
+          The user has to change it at first login.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={values.isActive}
+              disabled={isSelf}
+              onChange={(e) => setValues({ ...values, isActive: e.target.checked })}
+            />
+            <span className="text-gray-700">Active{isSelf ? ' (you cannot deactivate yourself)' : ''}</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={values.mustChangePassword}
+              onChange={(e) => setValues({ ...values, mustChangePassword: e.target.checked })}
+            />
+            <span className="text-gray-700">Require a password change at next sign-in</span>
+          </label>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving || !values.username.trim() || !values.email.trim()}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : isNew ? 'Create user' : 'Save changes'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -4,26 +4,32 @@ import { BreadcrumbItem } from '@/lib/types/files';
 
 interface BreadcrumbProps {
   items: BreadcrumbItem[];
+  // Granted root of the user on this remote; "Home" leads there and nothing above it is shown
+  rootPath?: string;
   onNavigate: (path: string) => void;
 }
 
-export default function Breadcrumb({ items, onNavigate }: BreadcrumbProps) {
+export default function Breadcrumb({ items, rootPath = '', onNavigate }: BreadcrumbProps) {
+  const visibleItems = rootPath
+    ? items.filter(item => item.path === rootPath || item.path.startsWith(`${rootPath}/`))
+    : items;
+
   return (
     <nav className="flex items-center space-x-2 text-sm text-gray-600 mb-4">
       <button
-        onClick={() => onNavigate('')}
+        onClick={() => onNavigate(rootPath)}
         className="hover:text-blue-600 transition-colors"
       >
         Home
       </button>
       
-      {items.map((item, index) => (
+      {visibleItems.map((item, index) => (
         <div key={index} className="flex items-center space-x-2">
           <span className="text-gray-400">/</span>
           <button
             onClick={() => onNavigate(item.path)}
             className={`hover:text-blue-600 transition-colors ${
-              index === items.length - 1 ? 'text-gray-800 font-medium' : ''
+              index === visibleItems.length - 1 ? 'text-gray-800 font-medium' : ''
             }`}
           >
             {item.name}
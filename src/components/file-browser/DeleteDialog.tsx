@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import { FileItem } from '@/lib/types/files';
+
+interface DeleteResult {
+  path: string;
+  isDir: boolean;
+  success: boolean;
+  jobId?: string;
+  error?: string;
+}
+
+interface DeleteDialogProps {
+  remote: string;
+  currentPath: string;
+  items: FileItem[];
+  onClose: (deleted: boolean) => void;
+}
+
+export default function DeleteDialog({ remote, currentPath, items, onClose }: DeleteDialogProps) {
+  const [deleting, setDeleting] = useState<boolean>(false);
+  const [results, setResults] = useState<DeleteResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fullPath = (file: FileItem) =>
+    currentPath ? `${currentPath.replace(/\/+$/, '')}/${file.Name}` : file.Name;
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/rclone/delete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          remote,
+          items: items.map(file => ({ path: fullPath(file), isDir: file.IsDir }))
+        })
+      });
+
+      const data = await response.json();
+      if (data.results) {
+        setResults(data.results);
+      } else {
+        setError(data.details || data.error || 'Failed to delete items');
+      }
+    } catch (err) {
+      setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const folders = items.filter(file => file.IsDir).length;
+  // Before deleting, list what will be removed; afterwards, the per-item outcome
+  const entries: DeleteResult[] = results ||
+    items.map(file => ({ path: fullPath(file), isDir: file.IsDir, success: false }));
+  const failedCount = results?.filter(result => !result.success).length || 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-lg mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {results ? 'Delete results' : `Delete ${items.length} item${items.length > 1 ? 's' : ''}?`}
+          </h2>
+          {!results && (
+            <p className="mt-1 text-sm text-gray-600">
+              The following items will be permanently removed from <strong>{remote}</strong>.
+              {folders > 0 && ' Folders are deleted with everything inside them.'}
+            </p>
+          )}
+          {results && (
+            <p className="mt-1 text-sm text-gray-600">
+              {results.length - failedCount} deleted, {failedCount} failed
+            </p>
+          )}
+        </div>
+
+        <div className="max-h-72 overflow-y-auto px-6 py-3">
+          {entries.map((entry) => (
+            <div key={entry.path} className="flex items-center justify-between py-1.5 text-sm">
+              <div className="flex items-center min-w-0 space-x-2">
+                {entry.isDir ? (
+                  <svg className="w-4 h-4 text-blue-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                    <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
+                  </svg>
+                ) : (
+                  <svg className="w-4 h-4 text-gray-500 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" clipRule="evenodd" />
+                  </svg>
+                )}
+                <span className="truncate text-gray-900" title={entry.path}>{entry.path}</span>
+              </div>
+              {results && (
+                entry.success ? (
+                  entry.jobId ? (
+                    <span className="ml-2 text-xs text-blue-600 flex-shrink-0">Deleting in background</span>
+                  ) : (
+                    <span className="ml-2 text-xs text-green-600 flex-shrink-0">Deleted</span>
+                  )
+                ) : (
+                  <span className="ml-2 text-xs text-red-600 flex-shrink-0 truncate max-w-[50%]" title={entry.error}>
+                    {entry.error || 'Failed'}
+                  </span>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mx-6 mb-3 bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-2">
+          {results ? (
+            <button
+              onClick={() => onClose(results.some(result => result.success))}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+            >
+              Close
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => onClose(false)}
+                disabled={deleting}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded-md transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={deleting}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:bg-red-400 rounded-md transition-colors"
+              >
+                {deleting ? 'Deleting...' : 'Delete'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,21 @@
 'use client';
 
+import { useState } from 'react';
 import { FileItem } from '@/lib/types/files';
+import { getThumbnailUrl, isImageFile, THUMBNAIL_SIZES } from '@/lib/media';
 
 interface FileGridProps {
   files: FileItem[];
-  onFileClick: (file: FileItem) => void;
+  onFileClick: (file: FileItem, event: React.MouseEvent) => void;
   onFileDoubleClick: (file: FileItem) => void;
+  currentRemote: string;
+  currentPath: string;
 }
 
 function getFileIcon(file: FileItem) {
   if (file.IsDir) {
     return (
-      <svg className="w-6 h-6 text-blue-500" fill="currentColor" viewBox="0 0 20 20">
+      <svg className="w-10 h-10 text-blue-500" fill="currentColor" viewBox="0 0 20 20">
         <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
       </svg>
     );
@@ -22,7 +26,7 @@ function getFileIcon(file: FileItem) {
   
   if (['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg'].includes(extension || '')) {
     return (
-      <svg className="w-6 h-6 text-green-600" fill="currentColor" viewBox="0 0 20 20">
+      <svg className="w-10 h-10 text-green-600" fill="currentColor" viewBox="0 0 20 20">
         <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd" />
       </svg>
     );
@@ -30,7 +34,7 @@ function getFileIcon(file: FileItem) {
 
   if (['pdf', 'doc', 'docx', 'txt', 'md'].includes(extension || '')) {
     return (
-      <svg className="w-6 h-6 text-red-600" fill="currentColor" viewBox="0 0 20 20">
+      <svg className="w-10 h-10 text-red-600" fill="currentColor" viewBox="0 0 20 20">
         <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" clipRule="evenodd" />
       </svg>
     );
@@ -38,7 +42,7 @@ function getFileIcon(file: FileItem) {
 
   if (['mp4', 'avi', 'mkv', 'mp3', 'wav', 'flac'].includes(extension || '')) {
     return (
-      <svg className="w-6 h-6 text-purple-600" fill="currentColor" viewBox="0 0 20 20">
+      <svg className="w-10 h-10 text-purple-600" fill="currentColor" viewBox="0 0 20 20">
         <path d="M2 6a2 2 0 012-2h6l2 2h6a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
         <path d="M8 8v4l3-2-3-2z" />
       </svg>
@@ -47,7 +51,7 @@ function getFileIcon(file: FileItem) {
 
   // Default file icon
   return (
-    <svg className="w-6 h-6 text-gray-500" fill="currentColor" viewBox="0 0 20 20">
+    <svg className="w-10 h-10 text-gray-500" fill="currentColor" viewBox="0 0 20 20">
       <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" clipRule="evenodd" />
     </svg>
   );
@@ -63,18 +67,34 @@ function formatFileSize(bytes?: number) {
   return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
 }
 
-export default function FileGrid({ files, onFileClick, onFileDoubleClick }: FileGridProps) {
+export default function FileGrid({ files, onFileClick, onFileDoubleClick, currentRemote, currentPath }: FileGridProps) {
+  // 썸네일 생성에 실패한 이미지는 아이콘으로 대체
+  const [failedThumbnails, setFailedThumbnails] = useState<Set<string>>(new Set());
+
+  const fullPath = (file: FileItem) =>
+    currentPath ? `${currentPath.replace(/\/+$/, '')}/${file.Name}` : file.Name;
+
   return (
-    <div className="grid grid-cols-6 sm:grid-cols-8 md:grid-cols-10 lg:grid-cols-12 xl:grid-cols-16 gap-2 p-2">
+    <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 lg:grid-cols-8 xl:grid-cols-10 gap-2 p-2">
       {files.map((file, index) => (
         <div
           key={`${file.Name}-${index}`}
           className="group flex flex-col items-center p-1 rounded-lg hover:bg-blue-50 cursor-pointer transition-colors"
-          onClick={() => onFileClick(file)}
+          onClick={(e) => onFileClick(file, e)}
           onDoubleClick={() => onFileDoubleClick(file)}
         >
-          <div className="mb-1">
-            {getFileIcon(file)}
+          <div className="mb-1 w-full aspect-square flex items-center justify-center rounded-md bg-gray-50 overflow-hidden">
+            {isImageFile(file) && !failedThumbnails.has(file.Path) ? (
+              <img
+                src={getThumbnailUrl(currentRemote, fullPath(file), THUMBNAIL_SIZES.grid, file.ModTime)}
+                alt={file.Name}
+                loading="lazy"
+                className="w-full h-full object-cover"
+                onError={() => setFailedThumbnails(prev => new Set([...prev, file.Path]))}
+              />
+            ) : (
+              getFileIcon(file)
+            )}
           </div>
           
           <div className="text-center w-full">
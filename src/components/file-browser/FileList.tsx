@@ -1,7 +1,8 @@
 'use client';
 
 import { FileItem } from '@/lib/types/files';
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef } from 'react';
+import { downloadArchive } from '@/lib/download';
 
 type SortField = 'name' | 'modified' | 'size';
 type SortOrder = 'asc' | 'desc';
@@ -15,6 +16,8 @@ interface FileListProps {
   onSelectAll: (selected: boolean) => void;
   currentRemote: string;
   currentPath: string;
+  onRename?: (file: FileItem, newName: string) => void;
+  onMoveToFolder?: (files: FileItem[], folder: FileItem, copy: boolean) => void;
 }
 
 function getFileIcon(file: FileItem) {
@@ -115,23 +118,99 @@ export default function FileList({
   onFileSelect, 
   onSelectAll,
   currentRemote,
-  currentPath
+  currentPath,
+  onRename,
+  onMoveToFolder
 }: FileListProps) {
   const hasSelectedFiles = selectedFiles.size > 0;
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
   const [lastClickedIndex, setLastClickedIndex] = useState<number>(-1);
   const [downloadingFiles, setDownloadingFiles] = useState<Set<string>>(new Set());
+  const [renamingFile, setRenamingFile] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string>('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // 드래그 중인 항목 (dataTransfer는 dragover에서 읽을 수 없음)
+  const draggedFiles = useRef<FileItem[] | null>(null);
+  // Enter 후 blur가 다시 호출되어도 한 번만 처리
+  const activeRename = useRef<string | null>(null);
+
+  const startRename = (file: FileItem) => {
+    activeRename.current = file.Path;
+    setRenamingFile(file.Path);
+    setRenameValue(file.Name);
+  };
+
+  const cancelRename = () => {
+    activeRename.current = null;
+    setRenamingFile(null);
+  };
+
+  const commitRename = (file: FileItem) => {
+    if (activeRename.current !== file.Path) return;
+    const newName = renameValue.trim();
+    cancelRename();
+    if (newName && newName !== file.Name) {
+      onRename?.(file, newName);
+    }
+  };
+
+  const handleDragStart = (file: FileItem, event: React.DragEvent) => {
+    // 선택된 항목을 끌면 선택 전체를 이동
+    draggedFiles.current = selectedFiles.has(file.Path)
+      ? sortedFiles.filter(item => selectedFiles.has(item.Path))
+      : [file];
+    event.dataTransfer.effectAllowed = 'copyMove';
+    event.dataTransfer.setData('text/plain', draggedFiles.current.map(item => item.Name).join('\n'));
+  };
+
+  const canDropOn = (folder: FileItem) =>
+    folder.IsDir && !!draggedFiles.current && !draggedFiles.current.some(item => item.Path === folder.Path);
+
+  const handleFolderDragOver = (folder: FileItem, event: React.DragEvent) => {
+    if (!canDropOn(folder)) return;
+    event.preventDefault();
+    // Ctrl/Alt를 누르고 놓으면 복사
+    event.dataTransfer.dropEffect = event.ctrlKey || event.altKey ? 'copy' : 'move';
+    setDropTarget(folder.Path);
+  };
+
+  const handleFolderDrop = (folder: FileItem, event: React.DragEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (canDropOn(folder)) {
+      onMoveToFolder?.(draggedFiles.current!, folder, event.ctrlKey || event.altKey);
+    }
+    draggedFiles.current = null;
+    setDropTarget(null);
+  };
+
+  const handleDragEnd = () => {
+    draggedFiles.current = null;
+    setDropTarget(null);
+  };
 
   const handleDownload = async (file: FileItem) => {
-    if (file.IsDir) return; // 폴더는 다운로드할 수 없음
-    
     const fileKey = `${currentRemote}:${file.Path}`;
     setDownloadingFiles(prev => new Set([...prev, fileKey]));
     
     try {
       // Construct full path: currentPath + fileName
       const fullPath = currentPath ? `${currentPath.replace(/\/+$/, '')}/${file.Name}` : file.Name;
+
+      // 폴더는 ZIP으로 묶어서 다운로드
+      if (file.IsDir) {
+        downloadArchive(currentRemote, currentPath, [{ path: fullPath, isDir: true }]);
+        setTimeout(() => {
+          setDownloadingFiles(prev => {
+            const newSet = new Set(prev);
+            newSet.delete(fileKey);
+            return newSet;
+          });
+        }, 1000);
+        return;
+      }
+
       const downloadUrl = `/api/rclone/download?remote=${encodeURIComponent(currentRemote)}&path=${encodeURIComponent(fullPath)}`;
       
       console.log(`Download URL: ${downloadUrl}`);
@@ -295,14 +374,22 @@ export default function FileList({
       <div>
         {sortedFiles.map((file, index) => {
           const isSelected = selectedFiles.has(file.Path);
+          const isRenaming = renamingFile === file.Path;
           return (
             <div
               key={`${file.Name}-${index}`}
               className={`flex items-center pl-2 pr-4 py-4 cursor-pointer group transition-colors border-b border-gray-100 last:border-b-0 ${
+                dropTarget === file.Path ? 'bg-blue-100 ring-2 ring-inset ring-blue-400' :
                 isSelected ? 'bg-blue-50 hover:bg-blue-100' : 'hover:bg-gray-50'
               }`}
-              onClick={(e) => handleFileClick(file, index, e)}
-              onDoubleClick={() => onFileDoubleClick(file)}
+              onClick={(e) => !isRenaming && handleFileClick(file, index, e)}
+              onDoubleClick={() => !isRenaming && onFileDoubleClick(file)}
+              draggable={!!onMoveToFolder && !isRenaming}
+              onDragStart={(e) => handleDragStart(file, e)}
+              onDragEnd={handleDragEnd}
+              onDragOver={(e) => handleFolderDragOver(file, e)}
+              onDragLeave={() => dropTarget === file.Path && setDropTarget(null)}
+              onDrop={(e) => file.IsDir && handleFolderDrop(file, e)}
             >
               {/* Checkbox + File Icon + Name */}
               <div className="flex-1 min-w-0 flex items-center space-x-3">
@@ -323,9 +410,30 @@ export default function FileList({
                   />
                   {getFileIcon(file)}
                 </div>
-                <span className="truncate text-sm text-gray-900 font-medium" title={file.Name}>
-                  {file.Name}
-                </span>
+                {isRenaming ? (
+                  <input
+                    type="text"
+                    value={renameValue}
+                    autoFocus
+                    onFocus={(e) => {
+                      // 확장자를 제외한 이름만 선택
+                      const dot = file.IsDir ? -1 : e.target.value.lastIndexOf('.');
+                      e.target.setSelectionRange(0, dot > 0 ? dot : e.target.value.length);
+                    }}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(file);
+                      if (e.key === 'Escape') cancelRename();
+                    }}
+                    onBlur={() => commitRename(file)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm text-gray-900 border border-blue-400 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                ) : (
+                  <span className="truncate text-sm text-gray-900 font-medium" title={file.Name}>
+                    {file.Name}
+                  </span>
+                )}
               </div>
             
               {/* Action Buttons */}
@@ -343,40 +451,40 @@ export default function FileList({
                   </svg>
                 </button>
                 
-                {!file.IsDir && (
+                <button 
+                  className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDownload(file);
+                  }}
+                  disabled={downloadingFiles.has(`${currentRemote}:${file.Path}`)}
+                  title={downloadingFiles.has(`${currentRemote}:${file.Path}`) ? "Downloading..." : file.IsDir ? "Download as ZIP" : "Download"}
+                >
+                  {downloadingFiles.has(`${currentRemote}:${file.Path}`) ? (
+                    <svg className="w-4 h-4 text-blue-500 animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                  ) : (
+                    <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    </svg>
+                  )}
+                </button>
+                
+                {onRename && (
                   <button 
-                    className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors"
                     onClick={(e) => {
                       e.stopPropagation();
-                      handleDownload(file);
+                      startRename(file);
                     }}
-                    disabled={downloadingFiles.has(`${currentRemote}:${file.Path}`)}
-                    title={downloadingFiles.has(`${currentRemote}:${file.Path}`) ? "Downloading..." : "Download"}
+                    title="Rename"
                   >
-                    {downloadingFiles.has(`${currentRemote}:${file.Path}`) ? (
-                      <svg className="w-4 h-4 text-blue-500 animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                      </svg>
-                    ) : (
-                      <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                      </svg>
-                    )}
+                    <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                    </svg>
                   </button>
                 )}
-                
-                <button 
-                  className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    console.log('More options:', file.Name);
-                  }}
-                  title="More options"
-                >
-                  <svg className="w-4 h-4 text-gray-500" fill="currentColor" viewBox="0 0 20 20">
-                    <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
-                  </svg>
-                </button>
               </div>
               
               {/* Modified Date */}
@@ -0,0 +1,162 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { FileItem } from '@/lib/types/files';
+import { getThumbnailUrl, isImageFile, THUMBNAIL_SIZES } from '@/lib/media';
+
+interface ImageLightboxProps {
+  remote: string;
+  currentPath: string;
+  files: FileItem[];
+  file: FileItem;
+  onClose: () => void;
+}
+
+export default function ImageLightbox({ remote, currentPath, files, file, onClose }: ImageLightboxProps) {
+  const images = useMemo(() => files.filter(isImageFile), [files]);
+  const [index, setIndex] = useState<number>(() => Math.max(0, images.findIndex(item => item.Path === file.Path)));
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [error, setError] = useState<boolean>(false);
+
+  const current = images[index] || file;
+
+  const fullPath = (item: FileItem) =>
+    currentPath ? `${currentPath.replace(/\/+$/, '')}/${item.Name}` : item.Name;
+  const previewUrl = (item: FileItem) =>
+    getThumbnailUrl(remote, fullPath(item), THUMBNAIL_SIZES.preview, item.ModTime);
+  const downloadUrl = `/api/rclone/download?remote=${encodeURIComponent(remote)}&path=${encodeURIComponent(fullPath(current))}`;
+
+  const goTo = (nextIndex: number) => {
+    if (nextIndex < 0 || nextIndex >= images.length || nextIndex === index) return;
+    setLoaded(false);
+    setError(false);
+    setIndex(nextIndex);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      switch (event.key) {
+        case 'Escape':
+          onClose();
+          break;
+        case 'ArrowLeft':
+          goTo(index - 1);
+          break;
+        case 'ArrowRight':
+        case ' ':
+          event.preventDefault();
+          goTo(index + 1);
+          break;
+        case 'Home':
+          goTo(0);
+          break;
+        case 'End':
+          goTo(images.length - 1);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Warm the cache for the neighbours so arrow keys feel instant
+  useEffect(() => {
+    for (const neighbour of [images[index - 1], images[index + 1]]) {
+      if (neighbour) {
+        const preload = new Image();
+        preload.src = previewUrl(neighbour);
+      }
+    }
+  }, [index, images]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black/90" onClick={onClose}>
+      <div className="flex items-center justify-between px-4 py-3 text-white" onClick={(e) => e.stopPropagation()}>
+        <div className="min-w-0">
+          <div className="truncate text-sm font-medium" title={current.Name}>{current.Name}</div>
+          {images.length > 1 && (
+            <div className="text-xs text-gray-400">{index + 1} / {images.length}</div>
+          )}
+        </div>
+        <div className="flex items-center space-x-2 flex-shrink-0">
+          <a
+            href={`${downloadUrl}&inline=1`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-3 py-1.5 text-sm text-gray-200 hover:bg-white/10 rounded-md transition-colors"
+          >
+            Original
+          </a>
+          <a
+            href={downloadUrl}
+            download={current.Name}
+            className="px-3 py-1.5 text-sm text-gray-200 hover:bg-white/10 rounded-md transition-colors"
+          >
+            Download
+          </a>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-gray-200 hover:bg-white/10 rounded-md transition-colors"
+            title="Close (Esc)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center min-h-0 px-16 pb-6" onClick={onClose}>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            goTo(index - 1);
+          }}
+          disabled={index === 0}
+          className="absolute left-4 p-2 text-white hover:bg-white/10 rounded-full disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+          title="Previous (←)"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+
+        {error ? (
+          <div className="text-sm text-gray-300">This image cannot be previewed. Try downloading it instead.</div>
+        ) : (
+          <>
+            {!loaded && (
+              <svg className="absolute w-8 h-8 text-white animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            )}
+            <img
+              key={current.Path}
+              src={previewUrl(current)}
+              alt={current.Name}
+              className={`max-h-full max-w-full object-contain transition-opacity ${loaded ? 'opacity-100' : 'opacity-0'}`}
+              onClick={(e) => e.stopPropagation()}
+              onLoad={() => setLoaded(true)}
+              onError={() => setError(true)}
+            />
+          </>
+        )}
+
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            goTo(index + 1);
+          }}
+          disabled={index >= images.length - 1}
+          className="absolute right-4 p-2 text-white hover:bg-white/10 rounded-full disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+          title="Next (→)"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+}
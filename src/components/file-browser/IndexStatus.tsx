@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface RemoteIndexStatus {
+  remote: string;
+  status: 'pending' | 'crawling' | 'ready' | 'error';
+  entryCount: number;
+  lastCrawlAt: string | null;
+  lastDurationMs: number | null;
+  error: string | null;
+}
+
+interface IndexStatusResponse {
+  enabled: boolean;
+  running: boolean;
+  canCrawl: boolean;
+  remotes: RemoteIndexStatus[];
+  success: boolean;
+  error?: string;
+}
+
+const STATUS_STYLES: Record<RemoteIndexStatus['status'], string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  crawling: 'bg-blue-100 text-blue-700',
+  ready: 'bg-green-100 text-green-700',
+  error: 'bg-red-100 text-red-700',
+};
+
+function formatTimeAgo(dateString: string | null) {
+  if (!dateString) return 'never';
+
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(dateString).toLocaleDateString();
+}
+
+// Per-remote index state, refreshed while a crawl is running
+export default function IndexStatus() {
+  const [data, setData] = useState<IndexStatusResponse | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch('/api/rclone/index');
+      setData(await response.json());
+    } catch (error) {
+      console.error('Failed to fetch index status:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  useEffect(() => {
+    if (!data?.running) return;
+    const timer = setInterval(fetchStatus, 5000);
+    return () => clearInterval(timer);
+  }, [data?.running]);
+
+  const startCrawl = async () => {
+    setMessage(null);
+    const response = await fetch('/api/rclone/index', { method: 'POST' });
+    const result = await response.json().catch(() => ({}));
+    setMessage(result.success ? 'Crawl started' : result.error || 'Failed to start crawl');
+    fetchStatus();
+  };
+
+  if (!data) return null;
+
+  if (!data.enabled) {
+    return (
+      <div className="px-6 py-3 text-xs text-gray-500">
+        The search index is disabled. An administrator can enable it with SEARCH_INDEX_REMOTES.
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6 py-3 border-t border-gray-200 text-xs text-gray-600">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-gray-700">Index status</span>
+        <div className="flex items-center space-x-2">
+          {message && <span className="text-gray-500">{message}</span>}
+          {data.canCrawl && (
+            <button
+              onClick={startCrawl}
+              disabled={data.running}
+              className="px-2 py-1 text-blue-700 bg-blue-50 hover:bg-blue-100 disabled:opacity-50 rounded transition-colors"
+            >
+              {data.running ? 'Crawling...' : 'Re-index now'}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="space-y-1 max-h-28 overflow-y-auto">
+        {data.remotes.map((remote) => (
+          <div key={remote.remote} className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 min-w-0">
+              <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[remote.status]}`}>{remote.status}</span>
+              <span className="truncate text-gray-900">{remote.remote}</span>
+              {remote.error && <span className="truncate text-red-600" title={remote.error}>{remote.error}</span>}
+            </div>
+            <span className="flex-shrink-0 ml-2">
+              {remote.entryCount.toLocaleString()} entries · crawled {formatTimeAgo(remote.lastCrawlAt)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
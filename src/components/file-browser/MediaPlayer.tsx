@@ -0,0 +1,146 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { FileItem } from '@/lib/types/files';
+import { findSubtitles, getMediaFiles, getMediaKind } from '@/lib/media';
+
+interface MediaPlayerProps {
+  remote: string;
+  currentPath: string;
+  files: FileItem[];
+  file: FileItem;
+  onClose: () => void;
+}
+
+export default function MediaPlayer({ remote, currentPath, files, file, onClose }: MediaPlayerProps) {
+  // Same ordering as the default list view, so next/previous match what the user sees
+  const mediaFiles = useMemo(() =>
+    getMediaFiles(files).sort((a, b) => a.Name.localeCompare(b.Name, undefined, { numeric: true, sensitivity: 'base' })),
+    [files]
+  );
+  const [index, setIndex] = useState<number>(() => Math.max(0, mediaFiles.findIndex(item => item.Path === file.Path)));
+  const [error, setError] = useState<string | null>(null);
+
+  const current = mediaFiles[index] || file;
+  const kind = getMediaKind(current);
+  const subtitles = useMemo(() => findSubtitles(current, files), [current, files]);
+
+  const fullPath = (item: FileItem) =>
+    currentPath ? `${currentPath.replace(/\/+$/, '')}/${item.Name}` : item.Name;
+  const query = (item: FileItem) =>
+    `remote=${encodeURIComponent(remote)}&path=${encodeURIComponent(fullPath(item))}`;
+
+  const hasPrevious = index > 0;
+  const hasNext = index < mediaFiles.length - 1;
+
+  const goTo = (nextIndex: number) => {
+    if (nextIndex < 0 || nextIndex >= mediaFiles.length) return;
+    setError(null);
+    setIndex(nextIndex);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      } else if (event.key === 'n' || event.key === 'PageDown') {
+        goTo(index + 1);
+      } else if (event.key === 'p' || event.key === 'PageUp') {
+        goTo(index - 1);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const mediaProps = {
+    src: `/api/rclone/download?${query(current)}&inline=1`,
+    controls: true,
+    autoPlay: true,
+    preload: 'metadata',
+    onEnded: () => goTo(index + 1),
+    onError: () => setError('This file cannot be played in the browser. Try downloading it instead.'),
+  };
+
+  const tracks = subtitles.map((track, trackIndex) => (
+    <track
+      key={track.file.Path}
+      kind="subtitles"
+      src={`/api/rclone/subtitle?${query(track.file)}`}
+      label={track.label}
+      srcLang={track.language}
+      default={trackIndex === 0}
+    />
+  ));
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black/90" onClick={onClose}>
+      <div className="flex items-center justify-between px-4 py-3 text-white" onClick={(e) => e.stopPropagation()}>
+        <div className="min-w-0">
+          <div className="truncate text-sm font-medium" title={current.Name}>{current.Name}</div>
+          {mediaFiles.length > 1 && (
+            <div className="text-xs text-gray-400">{index + 1} / {mediaFiles.length}</div>
+          )}
+        </div>
+        <div className="flex items-center space-x-2 flex-shrink-0">
+          <a
+            href={`/api/rclone/download?${query(current)}`}
+            download={current.Name}
+            className="px-3 py-1.5 text-sm text-gray-200 hover:bg-white/10 rounded-md transition-colors"
+          >
+            Download
+          </a>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-gray-200 hover:bg-white/10 rounded-md transition-colors"
+            title="Close (Esc)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center min-h-0 px-16 pb-6" onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={() => goTo(index - 1)}
+          disabled={!hasPrevious}
+          className="absolute left-4 p-2 text-white hover:bg-white/10 rounded-full disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+          title="Previous (P)"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+
+        {/* key forces a fresh element so the new source and tracks load cleanly */}
+        {error ? (
+          <div className="text-sm text-gray-300">{error}</div>
+        ) : kind === 'audio' ? (
+          <div className="w-full max-w-xl">
+            <audio key={current.Path} {...mediaProps} className="w-full">
+              {tracks}
+            </audio>
+          </div>
+        ) : (
+          <video key={current.Path} {...mediaProps} className="max-h-full max-w-full">
+            {tracks}
+          </video>
+        )}
+
+        <button
+          onClick={() => goTo(index + 1)}
+          disabled={!hasNext}
+          className="absolute right-4 p-2 text-white hover:bg-white/10 rounded-full disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+          title="Next (N)"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { JobItem } from './useFileOperations';
+
+interface OperationQueueProps {
+  items: JobItem[];
+  onCancel: (id: string) => void;
+  onDismiss: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const OPERATION_LABELS: Record<JobItem['type'], string> = {
+  move: 'Moving',
+  copy: 'Copying',
+  rename: 'Renaming',
+  purge: 'Deleting',
+};
+
+function formatFileSize(bytes: number) {
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  if (bytes === 0) return '0 Bytes';
+
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+}
+
+function formatEta(seconds: number) {
+  if (seconds < 60) return `${Math.ceil(seconds)}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${Math.ceil(seconds % 60)}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+function formatDestination(item: JobItem) {
+  const { remote, destinationRemote, destination } = item.params;
+  if (destination === undefined) return '';
+  return destinationRemote === remote ? `/${destination}` : `${destinationRemote}:/${destination}`;
+}
+
+function getStatusText(item: JobItem) {
+  const progress = item.progress;
+  switch (item.status) {
+    case 'running': {
+      if (!progress || progress.totalBytes === 0) return 'Working...';
+      const parts = [`${formatFileSize(progress.bytes)} / ${formatFileSize(progress.totalBytes)}`];
+      if (progress.totalTransfers > 1) parts.unshift(`${progress.transfers} / ${progress.totalTransfers} files`);
+      if (progress.speed > 0) parts.push(`${formatFileSize(progress.speed)}/s`);
+      if (progress.eta !== null && progress.eta > 0) parts.push(`${formatEta(progress.eta)} left`);
+      return parts.join(' · ');
+    }
+    case 'completed':
+      return item.type === 'purge' ? 'Deleted' : `Done → ${formatDestination(item)}`;
+    case 'cancelled':
+      return 'Cancelled';
+    case 'failed':
+      return `Failed: ${item.error || 'Unknown error'}`;
+  }
+}
+
+// Progress of the user's jobs, including files that failed inside a folder operation
+export default function OperationQueue({ items, onCancel, onDismiss, onClearFinished }: OperationQueueProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  const activeCount = items.filter(item => item.status === 'running').length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <span className="text-sm font-medium text-gray-900">
+          {activeCount > 0 ? `${activeCount} operation${activeCount > 1 ? 's' : ''} in progress` : 'Transfers'}
+        </span>
+        <button
+          onClick={onClearFinished}
+          className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+        >
+          Clear finished
+        </button>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        {items.map((item) => {
+          const totalBytes = item.progress?.totalBytes || 0;
+          const percent = totalBytes > 0 ? Math.round((item.progress!.bytes / totalBytes) * 100) : 0;
+          const failedFiles = item.progress?.failedFiles || [];
+          const name = item.params.path.split('/').pop();
+          const destination = formatDestination(item);
+
+          return (
+            <div key={item.id} className="px-4 py-3 border-b border-gray-100 last:border-b-0">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm text-gray-900 truncate mr-2" title={`${item.params.remote}:/${item.params.path}${destination ? ` → ${destination}` : ''}`}>
+                  {OPERATION_LABELS[item.type]} {name}
+                </span>
+                {item.status === 'running' ? (
+                  <button
+                    onClick={() => onCancel(item.id)}
+                    className="text-xs text-gray-500 hover:text-red-600 transition-colors flex-shrink-0"
+                  >
+                    Cancel
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => onDismiss(item.id)}
+                    className="text-xs text-gray-500 hover:text-gray-700 transition-colors flex-shrink-0"
+                  >
+                    Dismiss
+                  </button>
+                )}
+              </div>
+
+              <div className="w-full h-1 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-300 ${
+                    item.status === 'failed' ? 'bg-red-500' :
+                    item.status === 'completed' ? 'bg-green-500' :
+                    item.status === 'cancelled' ? 'bg-gray-400' :
+                    totalBytes === 0 ? 'bg-blue-500 animate-pulse' : 'bg-blue-500'
+                  }`}
+                  style={{ width: `${item.status === 'running' ? (totalBytes > 0 ? percent : 100) : 100}%` }}
+                ></div>
+              </div>
+
+              <div className={`text-xs mt-1 truncate ${item.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                {getStatusText(item)}
+              </div>
+
+              {failedFiles.length > 0 && (
+                <ul className="mt-1 max-h-20 overflow-y-auto text-xs text-red-600">
+                  {failedFiles.map((file) => (
+                    <li key={file.name} className="truncate" title={file.error}>
+                      {file.name}: {file.error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
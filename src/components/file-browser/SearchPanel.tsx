@@ -0,0 +1,329 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { SearchMode, SearchResult, SearchType } from '@/lib/search';
+import IndexStatus from './IndexStatus';
+
+interface SearchPanelProps {
+  remote: string;
+  currentPath: string;
+  initialQuery: string;
+  onNavigate: (path: string, remote: string) => void;
+  onClose: () => void;
+}
+
+// Live search results are from the current remote; index results carry their own
+type ResultItem = SearchResult & { Remote?: string };
+
+type SearchScope = 'folder' | 'remote' | 'index';
+
+interface SearchProgress {
+  scannedFolders: number;
+  scannedEntries: number;
+  directory?: string;
+}
+
+const TYPE_LABELS: Record<SearchType, string> = {
+  any: 'Any type',
+  file: 'Files',
+  folder: 'Folders',
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio',
+  document: 'Documents',
+  archive: 'Archives',
+};
+
+function formatFileSize(bytes?: number) {
+  if (!bytes) return '-';
+
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+}
+
+function formatDate(dateString?: string) {
+  if (!dateString) return '-';
+  const date = new Date(dateString);
+  return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function SearchPanel({ remote, currentPath, initialQuery, onNavigate, onClose }: SearchPanelProps) {
+  const [pattern, setPattern] = useState<string>(initialQuery);
+  const [mode, setMode] = useState<SearchMode>('glob');
+  const [type, setType] = useState<SearchType>('any');
+  const [minSizeMB, setMinSizeMB] = useState<string>('');
+  const [maxSizeMB, setMaxSizeMB] = useState<string>('');
+  const [modifiedAfter, setModifiedAfter] = useState<string>('');
+  const [modifiedBefore, setModifiedBefore] = useState<string>('');
+  const [scope, setScope] = useState<SearchScope>(currentPath ? 'folder' : 'remote');
+
+  const [results, setResults] = useState<ResultItem[]>([]);
+  const [progress, setProgress] = useState<SearchProgress | null>(null);
+  const [searching, setSearching] = useState<boolean>(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // 패널을 닫으면 진행 중인 검색도 중단
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const cancelSearch = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setSearching(false);
+    setStatus('Search cancelled');
+  };
+
+  const handleEvent = (event: { type: string; [key: string]: unknown }) => {
+    switch (event.type) {
+      case 'results':
+        setResults(prev => [...prev, ...(event.items as SearchResult[])]);
+        break;
+      case 'progress':
+        setProgress({
+          scannedFolders: event.scannedFolders as number,
+          scannedEntries: event.scannedEntries as number,
+          directory: event.directory as string,
+        });
+        break;
+      case 'done':
+        setStatus(event.truncated
+          ? `Showing the first ${event.total} matches; refine the search to see more`
+          : `${event.total} match${event.total === 1 ? '' : 'es'} in ${event.scannedEntries} entries`);
+        break;
+      case 'error':
+        setError(event.error as string);
+        break;
+    }
+  };
+
+  const startSearch = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const params = new URLSearchParams({ q: pattern, mode, type });
+    if (scope !== 'index') params.set('remote', remote);
+    if (scope === 'folder' && currentPath) params.set('path', currentPath);
+    if (minSizeMB) params.set('minSize', String(Math.round(parseFloat(minSizeMB) * 1024 * 1024)));
+    if (maxSizeMB) params.set('maxSize', String(Math.round(parseFloat(maxSizeMB) * 1024 * 1024)));
+    if (modifiedAfter) params.set('modifiedAfter', new Date(`${modifiedAfter}T00:00:00`).toISOString());
+    if (modifiedBefore) params.set('modifiedBefore', new Date(`${modifiedBefore}T23:59:59.999`).toISOString());
+
+    setResults([]);
+    setProgress(null);
+    setStatus(null);
+    setError(null);
+    setSearching(true);
+
+    try {
+      // The index answers in one response; the live search streams
+      if (scope === 'index') {
+        const response = await fetch(`/api/rclone/index/search?${params.toString()}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!data.success) {
+          setError(data.details || data.error || `Search failed (${response.status})`);
+          return;
+        }
+        setResults(data.results);
+        setStatus(data.truncated
+          ? `Showing the first ${data.results.length} matches; refine the search to see more`
+          : `${data.results.length} match${data.results.length === 1 ? '' : 'es'} in ${data.remotes.length} indexed remote${data.remotes.length === 1 ? '' : 's'}`);
+        return;
+      }
+
+      // fetch instead of EventSource: we need the error body and must not auto-reconnect
+      const response = await fetch(`/api/rclone/search?${params.toString()}`, { signal: controller.signal });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.details || data.error || `Search failed (${response.status})`);
+        return;
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() || '';
+        for (const message of messages) {
+          if (message.startsWith('data: ')) {
+            handleEvent(JSON.parse(message.slice(6)));
+          }
+        }
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setSearching(false);
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 pt-16" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-4xl mx-4 flex flex-col max-h-[80vh]" onClick={(e) => e.stopPropagation()}>
+        <form
+          className="px-6 py-4 border-b border-gray-200 space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            startSearch();
+          }}
+        >
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              autoFocus
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder={mode === 'glob' ? 'Name or glob, e.g. *.mkv or photos/**/2024-*' : 'Regular expression, e.g. ^IMG_\\d+\\.jpe?g$'}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as SearchMode)}
+              className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="glob">Glob</option>
+              <option value="regex">Regex</option>
+            </select>
+            {searching ? (
+              <button
+                type="button"
+                onClick={cancelSearch}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+              >
+                Search
+              </button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as SearchScope)}
+              className="px-2 py-1.5 border border-gray-300 rounded-md"
+            >
+              {currentPath && <option value="folder">In /{currentPath}</option>}
+              <option value="remote">In all of {remote}</option>
+              <option value="index">All remotes (index)</option>
+            </select>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as SearchType)}
+              className="px-2 py-1.5 border border-gray-300 rounded-md"
+            >
+              {(Object.keys(TYPE_LABELS) as SearchType[]).map(value => (
+                <option key={value} value={value}>{TYPE_LABELS[value]}</option>
+              ))}
+            </select>
+            <label className="flex items-center space-x-1">
+              <span>Size (MB)</span>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={minSizeMB}
+                onChange={(e) => setMinSizeMB(e.target.value)}
+                placeholder="min"
+                className="w-20 px-2 py-1.5 border border-gray-300 rounded-md"
+              />
+              <span>-</span>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={maxSizeMB}
+                onChange={(e) => setMaxSizeMB(e.target.value)}
+                placeholder="max"
+                className="w-20 px-2 py-1.5 border border-gray-300 rounded-md"
+              />
+            </label>
+            <label className="flex items-center space-x-1">
+              <span>Modified</span>
+              <input
+                type="date"
+                value={modifiedAfter}
+                onChange={(e) => setModifiedAfter(e.target.value)}
+                className="px-2 py-1.5 border border-gray-300 rounded-md"
+              />
+              <span>-</span>
+              <input
+                type="date"
+                value={modifiedBefore}
+                onChange={(e) => setModifiedBefore(e.target.value)}
+                className="px-2 py-1.5 border border-gray-300 rounded-md"
+              />
+            </label>
+          </div>
+        </form>
+
+        <div className="px-6 py-2 text-xs text-gray-500 border-b border-gray-100 min-h-[2rem] flex items-center">
+          {searching && progress && (
+            <span className="truncate">
+              Searching... {progress.scannedEntries} entries in {progress.scannedFolders} folder{progress.scannedFolders === 1 ? '' : 's'}
+              {progress.directory && ` (${progress.directory})`}
+            </span>
+          )}
+          {searching && !progress && <span>Searching...</span>}
+          {!searching && status && <span>{status}</span>}
+        </div>
+
+        {error && (
+          <div className="mx-6 my-3 bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {results.map((result) => (
+            <button
+              key={`${result.Remote || remote}:${result.Path}`}
+              onClick={() => onNavigate(result.IsDir ? result.Path : result.Parent, result.Remote || remote)}
+              className="w-full flex items-center px-6 py-2 text-left hover:bg-blue-50 transition-colors"
+              title={result.IsDir ? 'Open folder' : 'Open containing folder'}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  {result.IsDir ? (
+                    <svg className="w-4 h-4 text-blue-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                      <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
+                    </svg>
+                  ) : (
+                    <svg className="w-4 h-4 text-gray-500 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" clipRule="evenodd" />
+                    </svg>
+                  )}
+                  <span className="text-sm font-medium text-gray-900 truncate">{result.Name}</span>
+                </div>
+                <div className="text-xs text-gray-500 truncate ml-6">{result.Remote && `${result.Remote}:`}/{result.Parent}</div>
+              </div>
+              <div className="w-40 text-right text-xs text-gray-500 hidden sm:block">{formatDate(result.ModTime)}</div>
+              <div className="w-24 text-right text-xs text-gray-600 hidden sm:block">{result.IsDir ? '-' : formatFileSize(result.Size)}</div>
+            </button>
+          ))}
+          {!searching && results.length === 0 && status && !error && (
+            <div className="text-center py-8 text-sm text-gray-500">No matches found.</div>
+          )}
+        </div>
+
+        {scope === 'index' && <IndexStatus />}
+      </div>
+    </div>
+  );
+}
@@ -4,11 +4,26 @@ import { useState, useEffect } from 'react';
 
 interface RemoteHealth {
   [remote: string]: {
-    status: 'healthy' | 'token_expired' | 'error' | 'checking';
+    status: 'healthy' | 'expiring' | 'token_expired' | 'error' | 'checking';
     error?: string;
+    tokenExpiry?: string | null;
+    lastCheckedAt?: string;
   };
 }
 
+interface HealthAPIResponse {
+  success: boolean;
+  health: {
+    remote: string;
+    status: 'healthy' | 'expiring' | 'token_expired' | 'error';
+    error: string | null;
+    tokenExpiry: string | null;
+    lastCheckedAt: string;
+  }[];
+}
+
+const HEALTH_POLL_INTERVAL = 60000;
+
 interface RemoteStorage {
   [remote: string]: {
     total?: number;
@@ -172,6 +187,34 @@ export default function Sidebar({
     };
   }, [remotes]);
 
+  // Health is checked in the background on the server; just follow the stored state
+  useEffect(() => {
+    const fetchHealth = async () => {
+      try {
+        const response = await fetch('/api/rclone/health');
+        const data: HealthAPIResponse = await response.json();
+        if (data.success) {
+          const next: RemoteHealth = {};
+          for (const item of data.health) {
+            next[item.remote] = {
+              status: item.status,
+              error: item.error || undefined,
+              tokenExpiry: item.tokenExpiry,
+              lastCheckedAt: item.lastCheckedAt
+            };
+          }
+          setHealthStatus(next);
+        }
+      } catch (error) {
+        console.error('Failed to fetch remote health:', error);
+      }
+    };
+
+    fetchHealth();
+    const timer = setInterval(fetchHealth, HEALTH_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -253,19 +296,27 @@ export default function Sidebar({
   const getStatusIcon = (remote: string) => {
     const health = healthStatus[remote];
     if (!health) return null;
+    const checked = health.lastCheckedAt ? `\nLast checked ${new Date(health.lastCheckedAt).toLocaleString()}` : '';
 
     switch (health.status) {
       case 'healthy':
         return (
-          <div className="w-2 h-2 bg-green-500 rounded-full" title="Remote is healthy" />
+          <div className="w-2 h-2 flex-shrink-0 bg-green-500 rounded-full" title={`Remote is healthy${checked}`} />
+        );
+      case 'expiring':
+        return (
+          <div
+            className="w-2 h-2 flex-shrink-0 bg-yellow-400 rounded-full"
+            title={`${health.error || 'Token expires soon'}${health.tokenExpiry ? ` (${new Date(health.tokenExpiry).toLocaleString()})` : ''}${checked}`}
+          />
         );
       case 'token_expired':
         return (
-          <div className="w-2 h-2 bg-yellow-500 rounded-full" title="Token expired" />
+          <div className="w-2 h-2 flex-shrink-0 bg-orange-500 rounded-full" title={`Token expired${checked}`} />
         );
       case 'error':
         return (
-          <div className="w-2 h-2 bg-red-500 rounded-full" title={`Error: ${health.error}`} />
+          <div className="w-2 h-2 flex-shrink-0 bg-red-500 rounded-full" title={`Error: ${health.error}${checked}`} />
         );
       case 'checking':
         return (
@@ -276,8 +327,29 @@ export default function Sidebar({
     }
   };
 
+  const needsAttention = remotes.filter(remote =>
+    healthStatus[remote]?.status === 'token_expired' || healthStatus[remote]?.status === 'expiring'
+  );
+
   return (
     <div className="p-4 h-full">
+      {/* Token alerts */}
+      {needsAttention.length > 0 && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-300 rounded-lg p-3 text-xs text-yellow-800">
+          <div className="font-medium mb-1">Remotes need re-authorization</div>
+          {needsAttention.map(remote => (
+            <button
+              key={remote}
+              onClick={() => handleRemoteClick(remote)}
+              className="block w-full text-left truncate hover:underline"
+              title={healthStatus[remote]?.error}
+            >
+              {remote}: {healthStatus[remote]?.status === 'token_expired' ? 'token expired' : 'token expiring'}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Recent/Favorites */}
       {recentRemotes.length > 0 && (
         <div className="mb-6">
@@ -299,6 +371,7 @@ export default function Sidebar({
                       <path d="M3 4a1 1 0 011-1h12a1 1 0 011 1v2a1 1 0 01-1 1H4a1 1 0 01-1-1V4zM3 10a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H4a1 1 0 01-1-1v-6zM14 9a1 1 0 00-1 1v6a1 1 0 001 1h2a1 1 0 001-1v-6a1 1 0 00-1-1h-2z" />
                     </svg>
                     <span className="font-medium">{remote}</span>
+                    {getStatusIcon(remote)}
                   </div>
                   {getStorageGauge(remote)}
                   <div className="text-xs text-gray-500 mt-1 truncate" title={formatStorageInfo(remote)}>
@@ -338,6 +411,7 @@ export default function Sidebar({
                       <path d="M3 4a1 1 0 011-1h12a1 1 0 011 1v2a1 1 0 01-1 1H4a1 1 0 01-1-1V4zM3 10a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H4a1 1 0 01-1-1v-6zM14 9a1 1 0 00-1 1v6a1 1 0 001 1h2a1 1 0 001-1v-6a1 1 0 00-1-1h-2z" />
                     </svg>
                     <span className="truncate font-medium">{remote}</span>
+                    {getStatusIcon(remote)}
                   </div>
                   {getStorageGauge(remote)}
                   <div className="text-xs text-gray-500 mt-1 truncate" title={formatStorageInfo(remote)}>
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FileItem } from '@/lib/types/files';
+import { joinRemotePath, parentRemotePath } from '@/lib/rclone/paths';
+
+interface TransferDialogProps {
+  remotes: string[];
+  sourceRemote: string;
+  items: FileItem[];
+  onClose: () => void;
+  onSubmit: (operation: 'move' | 'copy', destinationRemote: string, destination: string) => void;
+}
+
+// Pick a folder on any remote to copy or move the selection into
+export default function TransferDialog({ remotes, sourceRemote, items, onClose, onSubmit }: TransferDialogProps) {
+  const otherRemotes = remotes.filter(remote => remote !== sourceRemote);
+  const [destinationRemote, setDestinationRemote] = useState<string>(otherRemotes[0] || sourceRemote);
+  const [destination, setDestination] = useState<string>('');
+  const [folders, setFolders] = useState<FileItem[]>([]);
+  const [operation, setOperation] = useState<'move' | 'copy'>('copy');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    const params = new URLSearchParams({ remote: destinationRemote });
+    if (destination) params.append('path', destination);
+
+    fetch(`/api/rclone/files?${params}`, { signal: controller.signal })
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setFolders(data.files.filter((file: FileItem) => file.IsDir));
+        } else {
+          setFolders([]);
+          setError(data.error || 'Failed to list folders');
+        }
+      })
+      .catch(err => {
+        if (err.name !== 'AbortError') {
+          setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+        }
+      })
+      .finally(() => setLoading(false));
+
+    return () => controller.abort();
+  }, [destinationRemote, destination]);
+
+  const selectRemote = (remote: string) => {
+    setDestinationRemote(remote);
+    setDestination('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-lg mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Transfer {items.length} item{items.length > 1 ? 's' : ''}
+          </h2>
+          <p className="mt-1 text-sm text-gray-600">
+            From <strong>{sourceRemote}</strong> to a folder on another remote. The transfer runs on the server;
+            you can keep browsing and follow its progress in the transfers panel.
+          </p>
+        </div>
+
+        <div className="px-6 py-3 space-y-3">
+          <div className="flex items-center space-x-3">
+            <label className="text-sm text-gray-700 w-24">Destination</label>
+            <select
+              value={destinationRemote}
+              onChange={(e) => selectRemote(e.target.value)}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {remotes.map(remote => (
+                <option key={remote} value={remote}>
+                  {remote}{remote === sourceRemote ? ' (current)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <label className="text-sm text-gray-700 w-24">Operation</label>
+            <div className="flex items-center space-x-4 text-sm text-gray-700">
+              <label className="inline-flex items-center space-x-1">
+                <input type="radio" checked={operation === 'copy'} onChange={() => setOperation('copy')} />
+                <span>Copy</span>
+              </label>
+              <label className="inline-flex items-center space-x-1">
+                <input type="radio" checked={operation === 'move'} onChange={() => setOperation('move')} />
+                <span>Move (delete from source)</span>
+              </label>
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-md">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 bg-gray-50 text-sm">
+              <span className="truncate text-gray-900" title={`${destinationRemote}:/${destination}`}>
+                {destinationRemote}:/{destination}
+              </span>
+              <button
+                onClick={() => setDestination(parentRemotePath(destination))}
+                disabled={!destination}
+                className="ml-2 text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400 flex-shrink-0"
+              >
+                Up
+              </button>
+            </div>
+            <div className="max-h-56 overflow-y-auto">
+              {loading ? (
+                <div className="px-3 py-4 text-sm text-gray-500">Loading folders...</div>
+              ) : folders.length === 0 ? (
+                <div className="px-3 py-4 text-sm text-gray-500">{error || 'No subfolders'}</div>
+              ) : (
+                folders.map(folder => (
+                  <button
+                    key={folder.Name}
+                    onClick={() => setDestination(joinRemotePath(destination, folder.Name))}
+                    className="w-full flex items-center space-x-2 px-3 py-1.5 text-sm text-left text-gray-900 hover:bg-gray-50"
+                  >
+                    <svg className="w-4 h-4 text-blue-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                      <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
+                    </svg>
+                    <span className="truncate">{folder.Name}</span>
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSubmit(operation, destinationRemote, destination)}
+            disabled={loading || !!error}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 rounded-md transition-colors"
+          >
+            {operation === 'copy' ? 'Copy here' : 'Move here'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { UploadItem } from './useUploadQueue';
+
+interface UploadQueueProps {
+  items: UploadItem[];
+  onCancel: (key: string) => void;
+  onRetry: (key: string) => void;
+  onClearFinished: () => void;
+}
+
+function formatFileSize(bytes: number) {
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  if (bytes === 0) return '0 Bytes';
+
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+}
+
+function getStatusText(item: UploadItem) {
+  switch (item.status) {
+    case 'queued':
+      return 'Waiting...';
+    case 'uploading':
+      return `${formatFileSize(item.uploaded)} / ${formatFileSize(item.file.size)}`;
+    case 'finalizing':
+      return 'Transferring to remote...';
+    case 'completed':
+      return 'Completed';
+    case 'cancelled':
+      return 'Cancelled';
+    case 'failed':
+      return `Failed: ${item.error || 'Unknown error'}`;
+  }
+}
+
+export default function UploadQueue({ items, onCancel, onRetry, onClearFinished }: UploadQueueProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  const activeCount = items.filter(item => ['queued', 'uploading', 'finalizing'].includes(item.status)).length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <span className="text-sm font-medium text-gray-900">
+          {activeCount > 0 ? `Uploading ${activeCount} item${activeCount > 1 ? 's' : ''}` : 'Uploads'}
+        </span>
+        <button
+          onClick={onClearFinished}
+          className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+        >
+          Clear finished
+        </button>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        {items.map((item) => {
+          const percent = item.file.size > 0 ? Math.round((item.uploaded / item.file.size) * 100) : 100;
+          const isActive = ['queued', 'uploading', 'finalizing'].includes(item.status);
+
+          return (
+            <div key={item.key} className="px-4 py-3 border-b border-gray-100 last:border-b-0">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm text-gray-900 truncate mr-2" title={`${item.remote}:${item.path}/${item.file.name}`}>
+                  {item.file.name}
+                </span>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  {item.status === 'failed' && (
+                    <button
+                      onClick={() => onRetry(item.key)}
+                      className="text-xs text-blue-600 hover:text-blue-800 transition-colors"
+                    >
+                      Retry
+                    </button>
+                  )}
+                  {(isActive || item.status === 'failed') && (
+                    <button
+                      onClick={() => onCancel(item.key)}
+                      className="text-xs text-gray-500 hover:text-red-600 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="w-full h-1 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-300 ${
+                    item.status === 'failed' ? 'bg-red-500' :
+                    item.status === 'completed' ? 'bg-green-500' :
+                    item.status === 'finalizing' ? 'bg-blue-500 animate-pulse' :
+                    item.status === 'cancelled' ? 'bg-gray-400' : 'bg-blue-500'
+                  }`}
+                  style={{ width: `${item.status === 'queued' ? 0 : percent}%` }}
+                ></div>
+              </div>
+
+              <div className={`text-xs mt-1 truncate ${item.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                {getStatusText(item)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
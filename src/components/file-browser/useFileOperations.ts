@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { parentRemotePath } from '@/lib/rclone/paths';
+
+export type FileOperationKind = 'move' | 'copy' | 'rename';
+export type JobItemStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobItem {
+  id: string;
+  type: FileOperationKind | 'purge';
+  params: {
+    remote: string;
+    path: string;
+    destinationRemote?: string;
+    destination?: string;
+    isDir: boolean;
+  };
+  status: JobItemStatus;
+  progress: {
+    bytes: number;
+    totalBytes: number;
+    transfers: number;
+    totalTransfers: number;
+    speed: number;
+    eta: number | null;
+    failedFiles: { name: string; error: string }[];
+  } | null;
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+export interface OperationSource {
+  path: string;
+  isDir: boolean;
+}
+
+// Folders whose listing changes when the job finishes
+function affectedFolders(job: JobItem): [string, string][] {
+  const folders: [string, string][] = [];
+  if (job.params.destinationRemote && job.params.destination !== undefined) {
+    folders.push([job.params.destinationRemote, parentRemotePath(job.params.destination)]);
+  }
+  if (job.type !== 'copy') {
+    folders.push([job.params.remote, parentRemotePath(job.params.path)]);
+  }
+  return folders;
+}
+
+// Starts move/copy/rename operations and follows the user's jobs over the jobs stream
+export function useFileOperations(onFinished: (remote: string, folders: string[]) => void) {
+  const [items, setItems] = useState<JobItem[]>([]);
+  const itemsRef = useRef<JobItem[]>([]);
+  itemsRef.current = items;
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    // EventSource reconnects on its own; every connection starts with a full snapshot
+    const es = new EventSource('/api/rclone/jobs/stream');
+
+    es.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+
+        if (data.type === 'initial') {
+          setItems(data.data);
+        } else if (data.type === 'update') {
+          const job: JobItem = data.data;
+          const previous = itemsRef.current.find(item => item.id === job.id);
+
+          setItems(prev => prev.some(item => item.id === job.id)
+            ? prev.map(item => item.id === job.id ? job : item)
+            : [job, ...prev]);
+
+          // Refresh both ends of every finished job, even a partially failed one
+          if (job.status !== 'running' && previous?.status !== job.status) {
+            for (const [remote, folder] of affectedFolders(job)) {
+              onFinishedRef.current(remote, [folder]);
+            }
+          }
+        }
+      } catch (error) {
+        console.error('Error parsing job stream message:', error);
+      }
+    };
+
+    es.onerror = (error) => {
+      console.error('Job stream connection error:', error);
+    };
+
+    return () => es.close();
+  }, []);
+
+  // Returns an error message when the request itself failed
+  const start = useCallback(async (
+    operation: FileOperationKind,
+    remote: string,
+    sources: OperationSource[],
+    destinationRemote: string,
+    destination: string,
+    name?: string
+  ): Promise<string | null> => {
+    try {
+      const response = await fetch('/api/rclone/operations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ operation, remote, items: sources, destinationRemote, destination, name })
+      });
+      const data = await response.json();
+      if (!data.results) {
+        return data.details || data.error || 'Failed to start operation';
+      }
+
+      // Started jobs arrive over the stream; report the items that were refused outright
+      const refused = data.results.filter((result: { success: boolean }) => !result.success);
+      if (refused.length > 0) {
+        return refused.map((result: { path: string; error?: string }) => `${result.path}: ${result.error || 'Failed'}`).join('; ');
+      }
+      return null;
+    } catch (error) {
+      return 'Network error: ' + (error instanceof Error ? error.message : 'Unknown error');
+    }
+  }, []);
+
+  // Stops a running job; the stream reports it as cancelled once rclone has stopped it
+  const cancel = useCallback(async (id: string) => {
+    try {
+      await fetch(`/api/rclone/jobs?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Failed to cancel job:', error);
+    }
+  }, []);
+
+  const dismiss = useCallback(async (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+    await fetch(`/api/rclone/jobs?id=${encodeURIComponent(id)}`, { method: 'DELETE' })
+      .catch(error => console.error('Failed to dismiss job:', error));
+  }, []);
+
+  const clearFinished = useCallback(async () => {
+    setItems(prev => prev.filter(item => item.status === 'running'));
+    await fetch('/api/rclone/jobs?finished=1', { method: 'DELETE' })
+      .catch(error => console.error('Failed to clear finished jobs:', error));
+  }, []);
+
+  return { items, start, cancel, dismiss, clearFinished };
+}
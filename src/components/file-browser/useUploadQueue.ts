@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+const CHUNK_SIZE = 8 * 1024 * 1024; // 8MB
+const MAX_CHUNK_RETRIES = 8;
+const STATUS_POLL_INTERVAL = 2000;
+
+export type UploadItemStatus = 'queued' | 'uploading' | 'finalizing' | 'completed' | 'failed' | 'cancelled';
+
+export interface UploadItem {
+  key: string;
+  file: File;
+  remote: string;
+  path: string;
+  uploadId?: string;
+  uploaded: number;
+  status: UploadItemStatus;
+  error?: string;
+}
+
+interface UploadStateResponse {
+  success: boolean;
+  uploadId: string;
+  status: 'uploading' | 'finalizing' | 'completed' | 'failed';
+  offset: number;
+  size: number;
+  error?: string;
+}
+
+class UploadCancelledError extends Error {}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Sequential upload queue with chunked, resumable transfers
+export function useUploadQueue(onUploaded: (remote: string, path: string) => void) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const itemsRef = useRef<UploadItem[]>([]);
+  itemsRef.current = items;
+  const activeKey = useRef<string | null>(null);
+  const cancelled = useRef<Set<string>>(new Set());
+  const controllers = useRef<Map<string, AbortController>>(new Map());
+  const onUploadedRef = useRef(onUploaded);
+  onUploadedRef.current = onUploaded;
+
+  const updateItem = (key: string, changes: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => item.key === key ? { ...item, ...changes } : item));
+  };
+
+  const checkCancelled = (key: string) => {
+    if (cancelled.current.has(key)) {
+      throw new UploadCancelledError();
+    }
+  };
+
+  const fetchState = async (uploadId: string, signal: AbortSignal): Promise<UploadStateResponse> => {
+    const response = await fetch(`/api/rclone/upload?id=${encodeURIComponent(uploadId)}`, { signal });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.details || data.error || `HTTP ${response.status}`);
+    }
+    return data;
+  };
+
+  const runUpload = async (item: UploadItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.key, controller);
+    const { signal } = controller;
+
+    let resumedState: UploadStateResponse | null = null;
+
+    if (item.uploadId) {
+      // Resume an earlier attempt from whatever the server already has;
+      // start over if the session expired or the final transfer failed
+      const resumed = await fetchState(item.uploadId, signal).catch(() => null);
+      if (resumed && resumed.status !== 'failed') {
+        resumedState = resumed;
+      }
+    }
+
+    let state: UploadStateResponse;
+    if (resumedState) {
+      state = resumedState;
+    } else {
+      const response = await fetch('/api/rclone/upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          remote: item.remote,
+          path: item.path,
+          name: item.file.name,
+          size: item.file.size
+        }),
+        signal
+      });
+      const created: UploadStateResponse = await response.json();
+      if (!response.ok || !created.success) {
+        throw new Error(created.error || `HTTP ${response.status}`);
+      }
+      state = created;
+      updateItem(item.key, { uploadId: created.uploadId });
+    }
+
+    const uploadId = state.uploadId;
+    let offset = state.offset;
+    let retries = 0;
+
+    while (state.status === 'uploading' && offset < item.file.size) {
+      checkCancelled(item.key);
+      updateItem(item.key, { uploaded: offset, status: 'uploading' });
+
+      try {
+        const chunk = item.file.slice(offset, offset + CHUNK_SIZE);
+        const response = await fetch(
+          `/api/rclone/upload?id=${encodeURIComponent(uploadId)}&offset=${offset}`,
+          { method: 'PUT', body: chunk, signal }
+        );
+        const data = await response.json();
+
+        if (response.status === 409 && typeof data.offset === 'number') {
+          // Server has a different view of the offset, or an earlier write is still running:
+          // resume from its offset, backing off like any other failure so this can't spin
+          state = data;
+          offset = data.offset;
+          if (state.status !== 'uploading') {
+            continue;
+          }
+          throw new Error(data.error || 'Offset mismatch');
+        }
+
+        if (!response.ok) {
+          throw new Error(data.details || data.error || `HTTP ${response.status}`);
+        }
+
+        state = data;
+        offset = data.offset;
+        retries = 0;
+      } catch (error) {
+        checkCancelled(item.key);
+        retries++;
+        if (retries > MAX_CHUNK_RETRIES) {
+          throw error;
+        }
+
+        // Exponential backoff, then ask the server how much actually arrived
+        await sleep(Math.min(1000 * 2 ** (retries - 1), 30000));
+        checkCancelled(item.key);
+        try {
+          state = await fetchState(uploadId, signal);
+          offset = state.offset;
+        } catch (stateError) {
+          console.error('Failed to resume upload:', stateError);
+        }
+      }
+    }
+
+    // Wait for rclone to move the staged file onto the remote
+    updateItem(item.key, { uploaded: item.file.size, status: 'finalizing' });
+    while (state.status === 'finalizing' || state.status === 'uploading') {
+      checkCancelled(item.key);
+      await sleep(STATUS_POLL_INTERVAL);
+      state = await fetchState(uploadId, signal);
+    }
+
+    if (state.status === 'failed') {
+      throw new Error(state.error || 'Upload failed');
+    }
+  };
+
+  const processItem = async (item: UploadItem) => {
+    activeKey.current = item.key;
+    updateItem(item.key, { status: 'uploading', error: undefined });
+
+    try {
+      await runUpload(item);
+      updateItem(item.key, { status: 'completed' });
+      onUploadedRef.current(item.remote, item.path);
+    } catch (error) {
+      if (error instanceof UploadCancelledError || cancelled.current.has(item.key)) {
+        updateItem(item.key, { status: 'cancelled' });
+      } else {
+        console.error('Upload failed:', error);
+        updateItem(item.key, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    } finally {
+      controllers.current.delete(item.key);
+      activeKey.current = null;
+      // Trigger the next queued item
+      setItems(prev => [...prev]);
+    }
+  };
+
+  // Start the next queued item whenever nothing is running
+  useEffect(() => {
+    if (activeKey.current) return;
+    const next = items.find(item => item.status === 'queued');
+    if (next) {
+      processItem(next);
+    }
+  }, [items]);
+
+  const enqueue = useCallback((files: File[], remote: string, path: string) => {
+    const newItems: UploadItem[] = files.map(file => ({
+      key: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      file,
+      remote,
+      path,
+      uploaded: 0,
+      status: 'queued'
+    }));
+    setItems(prev => [...prev, ...newItems]);
+  }, []);
+
+  const cancel = useCallback((key: string) => {
+    cancelled.current.add(key);
+    controllers.current.get(key)?.abort();
+
+    const item = itemsRef.current.find(i => i.key === key);
+    if (item?.uploadId) {
+      fetch(`/api/rclone/upload?id=${encodeURIComponent(item.uploadId)}`, { method: 'DELETE' })
+        .catch(error => console.error('Failed to cancel upload:', error));
+    }
+
+    setItems(prev => prev.map(i =>
+      i.key === key && (i.status === 'queued' || i.status === 'failed') ? { ...i, status: 'cancelled' } : i
+    ));
+  }, []);
+
+  const retry = useCallback((key: string) => {
+    cancelled.current.delete(key);
+    // Keep uploadId so the transfer resumes where it stopped
+    updateItem(key, { status: 'queued', error: undefined });
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => !['completed', 'cancelled'].includes(item.status)));
+  }, []);
+
+  return { items, enqueue, cancel, retry, clearFinished };
+}
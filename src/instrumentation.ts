@@ -9,6 +9,25 @@ export async function register() {
     // Import and initialize background storage monitoring
     // This will start the background job automatically
     await import('./lib/background-storage');
+
+    // Reconcile jobs left running by a previous server process and resume polling them
+    const { ensureReconciled } = await import('./lib/jobs');
+    await ensureReconciled();
+
+    // Start the search index crawler (does nothing unless SEARCH_INDEX_REMOTES is set)
+    await import('./lib/background-index');
+
+    // Apply the bandwidth schedule and keep it applied as time-of-day entries start
+    await import('./lib/background-bandwidth');
+
+    // Probe remotes and their OAuth tokens on a schedule and alert before tokens lapse
+    await import('./lib/background-health');
+
+    // Delete audit entries past AUDIT_RETENTION_DAYS (does nothing when it is unset)
+    await import('./lib/background-audit');
+
+    // Forget failed sign-in counters once they leave the failure window
+    await import('./lib/background-login-throttle');
     
     console.log('✅ Server instrumentation: Background services initialized');
   }
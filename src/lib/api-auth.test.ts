@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { withApiAuth } from '@/lib/api-auth';
+import { apiRequest, createUser, signIn } from '@/test/api';
+
+describe('withApiAuth', () => {
+  const handler = vi.fn(async () => Response.json({ success: true }));
+
+  it('rejects requests without a session', async () => {
+    signIn(null);
+    const response = await withApiAuth(handler)(apiRequest('/api/test'), {});
+
+    expect(response.status).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects sessions of deactivated users', async () => {
+    signIn(createUser('alice'), { isActive: false });
+    const response = await withApiAuth(handler)(apiRequest('/api/test'), {});
+
+    expect(response.status).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects users with a pending password change', async () => {
+    signIn(createUser('alice'), { mustChangePassword: true });
+    const response = await withApiAuth(handler)(apiRequest('/api/test'), {});
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ passwordChangeRequired: true });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('lets a pending password change through when allowed', async () => {
+    signIn(createUser('alice'), { mustChangePassword: true });
+    const response = await withApiAuth(handler, { allowPasswordChange: true })(apiRequest('/api/test'), {});
+
+    expect(response.status).toBe(200);
+  });
+
+  it('passes the session to the handler', async () => {
+    signIn(createUser('alice'));
+    await withApiAuth(handler)(apiRequest('/api/test'), {});
+
+    expect(handler).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ user: expect.objectContaining({ id: 'alice' }) }), {});
+  });
+});
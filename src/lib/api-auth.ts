@@ -0,0 +1,75 @@
+// Shared guards for API route handlers
+// Middleware does not run for /api, so every handler is wrapped with withApiAuth instead
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, Session } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { isConfiguredRemote } from '@/lib/rclone/remotes';
+
+interface ApiAuthOptions {
+  // Let users with a pending password change through (used by the change-password endpoint)
+  allowPasswordChange?: boolean;
+}
+
+type AuthenticatedHandler<C> = (request: NextRequest, session: Session, context: C) => Promise<Response>;
+
+// Resolve the session and apply the same first-login gate middleware applies to pages
+export async function authenticateRequest(
+  options: ApiAuthOptions = {}
+): Promise<{ session: Session; response?: undefined } | { session?: undefined; response: Response }> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id || !session.user.isActive) {
+    return {
+      response: NextResponse.json({
+        error: 'Unauthorized',
+        success: false
+      }, { status: 401 })
+    };
+  }
+
+  if (!options.allowPasswordChange && (session.user.mustChangePassword || session.user.isFirstLogin)) {
+    return {
+      response: NextResponse.json({
+        error: 'Password change required',
+        success: false,
+        passwordChangeRequired: true
+      }, { status: 403 })
+    };
+  }
+
+  return { session };
+}
+
+// Wrap a route handler so it only runs for authenticated users
+export function withApiAuth<C = unknown>(handler: AuthenticatedHandler<C>, options: ApiAuthOptions = {}) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const { session, response } = await authenticateRequest(options);
+    if (!session) {
+      return response;
+    }
+    return handler(request, session, context);
+  };
+}
+
+// Error response for a remote that is not configured in rclone, or null when it is.
+// Every route that puts a remote from the request into an rclone path checks it first.
+export async function checkRemote(remote: unknown): Promise<Response | null> {
+  try {
+    if (await isConfiguredRemote(remote)) {
+      return null;
+    }
+  } catch (error) {
+    console.error('Failed to load remotes:', error);
+    return NextResponse.json({
+      error: 'Failed to load remotes',
+      success: false,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 503 });
+  }
+
+  return NextResponse.json({
+    error: 'Remote not found',
+    success: false
+  }, { status: 404 });
+}
@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// TRUSTED_PROXY_COUNT is read when the module loads
+async function loadAudit(trustedProxies?: string) {
+  vi.resetModules();
+  if (trustedProxies !== undefined) {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', trustedProxies);
+  }
+  return import('@/lib/audit');
+}
+
+function request(forwardedFor: string) {
+  return { headers: new Headers({ 'x-forwarded-for': forwardedFor, 'user-agent': 'test' }) };
+}
+
+describe('getRequestMetadata', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('ignores X-Forwarded-For without trusted proxies', async () => {
+    const { getRequestMetadata } = await loadAudit();
+    expect(getRequestMetadata(request('203.0.113.7'))).toEqual({ ipAddress: null, userAgent: 'test' });
+  });
+
+  it('takes the entry added by the outermost trusted proxy', async () => {
+    const { getRequestMetadata } = await loadAudit('1');
+    expect(getRequestMetadata(request('10.0.0.1, 203.0.113.7')).ipAddress).toBe('203.0.113.7');
+  });
+
+  it('skips entries added by inner trusted proxies', async () => {
+    const { getRequestMetadata } = await loadAudit('2');
+    expect(getRequestMetadata(request('10.0.0.1, 203.0.113.7, 198.51.100.2')).ipAddress).toBe('203.0.113.7');
+  });
+
+  it('does not guess when fewer hops arrived than proxies are trusted', async () => {
+    const { getRequestMetadata } = await loadAudit('2');
+    expect(getRequestMetadata(request('203.0.113.7')).ipAddress).toBeNull();
+  });
+});
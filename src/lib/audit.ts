@@ -0,0 +1,195 @@
+// Audit log helper
+// Failures to write an entry are logged but never break the operation being audited
+
+import { AuditLog, Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Entries older than this are deleted by the background pruner; 0 keeps them forever
+export const AUDIT_RETENTION_DAYS = Math.max(0, parseInt(process.env.AUDIT_RETENTION_DAYS || '0', 10) || 0);
+// Upper bound for a single CSV/JSON export
+export const AUDIT_EXPORT_LIMIT = 50000;
+
+export interface AuditEntry {
+  userId?: string | null;
+  action: string;
+  resource?: string;
+  details?: Prisma.InputJsonValue;
+  success?: boolean;
+}
+
+// Reverse proxies in front of the app that append the address they received the request from
+// to X-Forwarded-For. Clients can send the header themselves, so only entries added by these
+// proxies are believed.
+const TRUSTED_PROXY_COUNT = Math.max(0, parseInt(process.env.TRUSTED_PROXY_COUNT || '0', 10) || 0);
+
+// The address the outermost trusted proxy saw. Route handlers never see the socket address:
+// Next.js only copies it into X-Forwarded-For when the client did not send one, so without a
+// trusted proxy the client IP is unknown.
+function getClientIp(headers: Headers): string | null {
+  if (TRUSTED_PROXY_COUNT === 0) {
+    return null;
+  }
+
+  const hops = (headers.get('x-forwarded-for') || '').split(',').map(hop => hop.trim()).filter(Boolean);
+  return hops.length >= TRUSTED_PROXY_COUNT ? hops[hops.length - TRUSTED_PROXY_COUNT] : null;
+}
+
+// Client IP (see getClientIp) and user agent
+export function getRequestMetadata(request?: Pick<Request, 'headers'>) {
+  if (!request) {
+    return { ipAddress: null, userAgent: null };
+  }
+
+  return {
+    ipAddress: getClientIp(request.headers),
+    userAgent: request.headers.get('user-agent')
+  };
+}
+
+export async function recordAudit(entry: AuditEntry, request?: Pick<Request, 'headers'>) {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: entry.userId ?? null,
+        action: entry.action,
+        resource: entry.resource,
+        details: entry.details,
+        success: entry.success ?? true,
+        ...getRequestMetadata(request)
+      }
+    });
+  } catch (error) {
+    console.error('Failed to write audit log:', error);
+  }
+}
+
+export interface AuditFilter {
+  userId?: string;
+  action?: string;
+  resource?: string;
+  success?: boolean;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditRecord extends AuditLog {
+  username: string | null;
+}
+
+function parseDate(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Filter from query parameters: userId, action, resource, success=true|false, from and to (ISO dates)
+export function parseAuditFilter(searchParams: URLSearchParams): AuditFilter {
+  const success = searchParams.get('success');
+  return {
+    userId: searchParams.get('userId') || undefined,
+    action: searchParams.get('action') || undefined,
+    resource: searchParams.get('resource') || undefined,
+    success: success === 'true' ? true : success === 'false' ? false : undefined,
+    from: parseDate(searchParams.get('from')),
+    to: parseDate(searchParams.get('to'))
+  };
+}
+
+function toWhere(filter: AuditFilter): Prisma.AuditLogWhereInput {
+  return {
+    ...(filter.userId ? { userId: filter.userId } : {}),
+    ...(filter.action ? { action: filter.action } : {}),
+    ...(filter.resource ? { resource: filter.resource } : {}),
+    ...(filter.success !== undefined ? { success: filter.success } : {}),
+    ...(filter.from || filter.to
+      ? { createdAt: { ...(filter.from ? { gte: filter.from } : {}), ...(filter.to ? { lte: filter.to } : {}) } }
+      : {})
+  };
+}
+
+// AuditLog has no relation to User (entries outlive deleted users), so usernames are looked up separately
+async function withUsernames(entries: AuditLog[]): Promise<AuditRecord[]> {
+  const userIds = [...new Set(entries.map(entry => entry.userId).filter((id): id is string => !!id))];
+  const users = await prisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true, username: true } });
+  const usernames = new Map(users.map(user => [user.id, user.username]));
+  return entries.map(entry => ({ ...entry, username: entry.userId ? usernames.get(entry.userId) ?? null : null }));
+}
+
+// Newest first, one page at a time
+export async function queryAuditLogs(
+  filter: AuditFilter,
+  page: number = 1,
+  pageSize: number = 50
+): Promise<{ entries: AuditRecord[]; total: number }> {
+  const where = toWhere(filter);
+  const [entries, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (Math.max(1, page) - 1) * pageSize,
+      take: pageSize
+    }),
+    prisma.auditLog.count({ where })
+  ]);
+  return { entries: await withUsernames(entries), total };
+}
+
+export async function exportAuditLogs(filter: AuditFilter): Promise<AuditRecord[]> {
+  const entries = await prisma.auditLog.findMany({
+    where: toWhere(filter),
+    orderBy: { createdAt: 'desc' },
+    take: AUDIT_EXPORT_LIMIT
+  });
+  return withUsernames(entries);
+}
+
+// Distinct actions and resources, for the viewer's filter dropdowns
+export async function getAuditFacets(): Promise<{ actions: string[]; resources: string[] }> {
+  const [actions, resources] = await Promise.all([
+    prisma.auditLog.findMany({ distinct: ['action'], select: { action: true }, orderBy: { action: 'asc' } }),
+    prisma.auditLog.findMany({
+      distinct: ['resource'],
+      where: { resource: { not: null } },
+      select: { resource: true },
+      orderBy: { resource: 'asc' }
+    })
+  ]);
+  return {
+    actions: actions.map(entry => entry.action),
+    resources: resources.map(entry => entry.resource!)
+  };
+}
+
+// Delete entries past the retention period; returns how many were removed
+export async function pruneAuditLogs(retentionDays: number = AUDIT_RETENTION_DAYS): Promise<number> {
+  if (retentionDays <= 0) return 0;
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.auditLog.deleteMany({ where: { createdAt: { lt: cutoff } } });
+  return count;
+}
+
+// Quote a CSV cell; a leading =, +, - or @ is escaped so spreadsheets do not run it as a formula
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export function toAuditCsv(entries: AuditRecord[]): string {
+  const header = ['createdAt', 'username', 'userId', 'action', 'resource', 'success', 'ipAddress', 'userAgent', 'details'];
+  const rows = entries.map(entry => [
+    entry.createdAt.toISOString(),
+    entry.username,
+    entry.userId,
+    entry.action,
+    entry.resource,
+    entry.success ? 'true' : 'false',
+    entry.ipAddress,
+    entry.userAgent,
+    entry.details
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
@@ -2,9 +2,27 @@ import { NextAuthOptions } from 'next-auth'
 import CredentialsProvider from 'next-auth/providers/credentials'
 import { PrismaClient } from '@prisma/client'
 import bcryptjs from 'bcryptjs'
+import { getRequestMetadata, recordAudit } from '@/lib/audit'
+import { assertLoginAllowed, clearFailedLogins, LoginThrottledError, recordFailedLogin } from '@/lib/login-throttle'
 
 const prisma = new PrismaClient()
 
+// authorize() receives the request headers as a plain object rather than a Request
+function toHeaders(headers?: Record<string, unknown>): Pick<Request, 'headers'> {
+  const entries = Object.entries(headers || {}).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  return { headers: new Headers(entries) }
+}
+
+function recordLoginFailure(username: string, reason: string, request: Pick<Request, 'headers'>, userId: string | null = null) {
+  return recordAudit({
+    userId,
+    action: 'login_failure',
+    resource: 'auth',
+    details: { username, reason },
+    success: false
+  }, request)
+}
+
 export const authOptions: NextAuthOptions = {
   providers: [
     CredentialsProvider({
@@ -13,46 +31,70 @@ export const authOptions: NextAuthOptions = {
         username: { label: 'Username', type: 'text' },
         password: { label: 'Password', type: 'password' }
       },
-      async authorize(credentials) {
-        console.log('Auth attempt:', credentials?.username)
+      async authorize(credentials, req) {
+        const request = toHeaders(req?.headers)
         
         if (!credentials?.username || !credentials?.password) {
-          console.log('Missing credentials')
+          return null
+        }
+
+        const { username, password } = credentials
+        const { ipAddress } = getRequestMetadata(request)
+
+        // Rethrown so NextAuth passes the wait time on to the login page
+        try {
+          await assertLoginAllowed(username, ipAddress)
+        } catch (error) {
+          if (!(error instanceof LoginThrottledError)) {
+            console.error('Auth error:', error)
+            return null
+          }
+          await recordLoginFailure(username, 'throttled', request)
+          throw error
+        }
+
+        // Unknown users, inactive users and wrong passwords all count towards the lockout
+        const fail = async (reason: string, userId: string | null = null) => {
+          await recordLoginFailure(username, reason, request, userId)
+          await recordFailedLogin(username, ipAddress, request)
           return null
         }
 
         try {
           const user = await prisma.user.findUnique({
             where: {
-              username: credentials.username
+              username
             }
           })
 
           if (!user) {
-            console.log('User not found:', credentials.username)
-            return null
+            return await fail('unknown_user')
           }
 
           if (!user.isActive) {
-            console.log('User not active:', credentials.username)
-            return null
+            return await fail('inactive', user.id)
           }
 
-          console.log('Checking password for user:', credentials.username)
-          const passwordMatch = await bcryptjs.compare(credentials.password, user.password)
+          const passwordMatch = await bcryptjs.compare(password, user.password)
           
           if (!passwordMatch) {
-            console.log('Password mismatch for user:', credentials.username)
-            return null
+            return await fail('invalid_password', user.id)
           }
 
-          console.log('Login successful for user:', credentials.username)
+          await clearFailedLogins(username)
 
           await prisma.user.update({
             where: { id: user.id },
             data: { lastLogin: new Date() }
           })
 
+          await recordAudit({
+            userId: user.id,
+            action: 'login_success',
+            resource: 'auth',
+            details: { username: user.username }
+          }, request)
+
           return {
             id: user.id,
             name: user.name,
@@ -77,6 +119,19 @@ export const authOptions: NextAuthOptions = {
         token.username = user.username
         token.isFirstLogin = user.isFirstLogin
         token.mustChangePassword = user.mustChangePassword
+        token.isActive = true
+      } else if (token.sub) {
+        // Pick up administrator changes (deactivation, deletion, forced password change)
+        // without waiting for the user to sign in again
+        const current = await prisma.user.findUnique({
+          where: { id: token.sub },
+          select: { isActive: true, isFirstLogin: true, mustChangePassword: true }
+        })
+        token.isActive = !!current?.isActive
+        if (current) {
+          token.isFirstLogin = current.isFirstLogin
+          token.mustChangePassword = current.mustChangePassword
+        }
       }
       return token
     },
@@ -86,6 +141,7 @@ export const authOptions: NextAuthOptions = {
         session.user.username = token.username as string
         session.user.isFirstLogin = token.isFirstLogin as boolean
         session.user.mustChangePassword = token.mustChangePassword as boolean
+        session.user.isActive = token.isActive !== false
       }
       return session
     }
@@ -0,0 +1,43 @@
+// Background audit log pruner
+// This module deletes audit entries older than AUDIT_RETENTION_DAYS once a day when imported.
+// With no retention configured the log is kept forever and nothing is scheduled.
+
+import { AUDIT_RETENTION_DAYS, pruneAuditLogs } from '@/lib/audit';
+
+const PRUNE_INTERVAL = 24 * 60 * 60 * 1000; // daily
+const STARTUP_DELAY = 60 * 1000;
+
+declare global {
+  var auditPruneTimer: NodeJS.Timeout | null | undefined;
+  var auditPruneInitialized: boolean | undefined;
+}
+
+export async function runAuditPrune() {
+  try {
+    const removed = await pruneAuditLogs();
+    if (removed > 0) {
+      console.log(`🧹 Audit log pruned: ${removed} entries older than ${AUDIT_RETENTION_DAYS} days removed`);
+    }
+  } catch (error) {
+    console.error('❌ Audit log prune failed:', error);
+  } finally {
+    if (global.auditPruneTimer) {
+      clearTimeout(global.auditPruneTimer);
+    }
+    global.auditPruneTimer = setTimeout(runAuditPrune, PRUNE_INTERVAL);
+  }
+}
+
+// Initialize the pruner on server startup
+function initializeAuditPrune() {
+  if (global.auditPruneInitialized || AUDIT_RETENTION_DAYS <= 0) {
+    return;
+  }
+
+  global.auditPruneInitialized = true;
+  console.log(`🚀 Initializing audit log retention (${AUDIT_RETENTION_DAYS} days)...`);
+  global.auditPruneTimer = setTimeout(runAuditPrune, STARTUP_DELAY);
+}
+
+// Auto-start the pruner when this module is imported
+initializeAuditPrune();
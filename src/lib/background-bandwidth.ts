@@ -0,0 +1,80 @@
+// Background bandwidth scheduler
+// This module applies the bandwidth schedule automatically when imported. A limit is only pushed to
+// rclone when the active entry changes, so a manual change from the settings page holds until the
+// next scheduled start time.
+
+import { recordAudit } from '@/lib/audit';
+import { findActiveEntry, getSchedule, setBandwidthLimit } from '@/lib/bandwidth';
+
+const SCHEDULE_CHECK_INTERVAL = 60 * 1000; // 1 minute
+const STARTUP_DELAY = 15 * 1000; // wait for the rclone daemon
+
+declare global {
+  var bandwidthScheduleTimer: NodeJS.Timeout | null | undefined;
+  var bandwidthScheduleInitialized: boolean | undefined;
+  // id and updatedAt of the entry last applied, or null when the schedule is empty
+  var bandwidthAppliedKey: string | null | undefined;
+}
+
+// Apply the entry in effect now; `force` re-applies it even if it was already applied
+export async function applyBandwidthSchedule(force: boolean = false) {
+  try {
+    const active = findActiveEntry(await getSchedule());
+    const key = active ? `${active.id}:${active.updatedAt.getTime()}` : null;
+
+    if (!force && key === global.bandwidthAppliedKey) {
+      return;
+    }
+
+    // Emptying or disabling the schedule lifts the limit it set
+    if (!active) {
+      if (global.bandwidthAppliedKey) {
+        await setBandwidthLimit({ upload: 'off', download: 'off' });
+        console.log('📶 Bandwidth schedule cleared, limit removed');
+      }
+      global.bandwidthAppliedKey = null;
+      return;
+    }
+
+    await setBandwidthLimit({ upload: active.upload, download: active.download });
+    global.bandwidthAppliedKey = key;
+    console.log(`📶 Bandwidth schedule applied: upload ${active.upload}, download ${active.download} (from ${active.startTime})`);
+
+    await recordAudit({
+      action: 'bwlimit_schedule_apply',
+      resource: 'rclone',
+      details: { entryId: active.id, startTime: active.startTime, upload: active.upload, download: active.download }
+    });
+  } catch (error) {
+    console.error('❌ Failed to apply bandwidth schedule:', error);
+  }
+}
+
+function scheduleNextCheck() {
+  if (global.bandwidthScheduleTimer) {
+    clearTimeout(global.bandwidthScheduleTimer);
+  }
+  global.bandwidthScheduleTimer = setTimeout(async () => {
+    await applyBandwidthSchedule();
+    scheduleNextCheck();
+  }, SCHEDULE_CHECK_INTERVAL);
+}
+
+// Initialize the scheduler on server startup
+function initializeBandwidthSchedule() {
+  if (global.bandwidthScheduleInitialized) {
+    return;
+  }
+
+  global.bandwidthScheduleInitialized = true;
+  global.bandwidthAppliedKey = null;
+
+  console.log(`🚀 Initializing bandwidth schedule (delay: ${STARTUP_DELAY / 1000}s)...`);
+  setTimeout(async () => {
+    await applyBandwidthSchedule(true);
+    scheduleNextCheck();
+  }, STARTUP_DELAY);
+}
+
+// Auto-start the scheduler when this module is imported
+initializeBandwidthSchedule();
@@ -0,0 +1,145 @@
+// Background remote health checker
+// This module checks every remote on a schedule when imported, and sends webhook alerts when a
+// remote stops working or its token is about to lapse.
+
+import { RemoteHealth } from '@prisma/client';
+import { rcloneClient } from '@/lib/rclone/client';
+import { checkRemoteHealth, getHealthStates, markAlerted, pruneHealth } from '@/lib/remote-health';
+
+const HEALTH_CHECK_INTERVAL = (parseInt(process.env.HEALTH_CHECK_INTERVAL_MINUTES || '30', 10) || 30) * 60 * 1000;
+// Slack/Discord-compatible incoming webhook; empty disables notifications
+const HEALTH_ALERT_WEBHOOK_URL = process.env.HEALTH_ALERT_WEBHOOK_URL || '';
+const HEALTH_ALERT_REPEAT = (parseInt(process.env.HEALTH_ALERT_REPEAT_HOURS || '24', 10) || 24) * 60 * 60 * 1000;
+const STARTUP_DELAY = 30 * 1000; // let the storage check go first
+const CONCURRENT_CHECKS = 3;
+
+declare global {
+  var healthJobRunning: boolean | undefined;
+  var healthJobTimer: NodeJS.Timeout | null | undefined;
+  var healthJobInitialized: boolean | undefined;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  healthy: 'is healthy again',
+  expiring: 'has a token that is about to expire',
+  token_expired: 'has an expired token and needs re-authorization',
+  error: 'is failing',
+};
+
+// Get list of all remotes
+async function getRemotesList(): Promise<string[] | null> {
+  try {
+    return await rcloneClient.listRemotes();
+  } catch (error) {
+    console.error('Failed to get remotes list:', error);
+    return null;
+  }
+}
+
+async function sendAlert(health: RemoteHealth) {
+  const text = `RRList: remote "${health.remote}" ${STATUS_LABELS[health.status] || health.status}` +
+    (health.error && health.status !== 'healthy' ? ` (${health.error})` : '') +
+    (health.tokenExpiry && health.status === 'expiring' ? `. Token expires ${health.tokenExpiry.toISOString()}` : '');
+
+  const response = await fetch(HEALTH_ALERT_WEBHOOK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    // "text" for Slack-style webhooks, "content" for Discord
+    body: JSON.stringify({
+      text,
+      content: text,
+      remote: health.remote,
+      status: health.status,
+      error: health.error,
+      tokenExpiry: health.tokenExpiry
+    }),
+    signal: AbortSignal.timeout(10000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook returned ${response.status}`);
+  }
+}
+
+// Alert on a new problem, repeat while it lasts, and report recovery once
+async function maybeAlert(health: RemoteHealth, previousStatus: string | null) {
+  if (!HEALTH_ALERT_WEBHOOK_URL) return;
+
+  const recovered = health.status === 'healthy' && previousStatus !== null && previousStatus !== 'healthy';
+  const due = health.status !== 'healthy' &&
+    (!health.alertedAt || Date.now() - health.alertedAt.getTime() >= HEALTH_ALERT_REPEAT);
+  if (!recovered && !due) return;
+
+  try {
+    await sendAlert(health);
+    if (due) {
+      await markAlerted(health.remote);
+    }
+    console.log(`📣 Health alert sent for ${health.remote}: ${health.status}`);
+  } catch (error) {
+    console.error(`❌ Failed to send health alert for ${health.remote}:`, error);
+  }
+}
+
+// Check one remote now (used by the manual check endpoint) and alert as the scheduler would
+export async function runRemoteCheck(remote: string): Promise<RemoteHealth> {
+  const { health, previousStatus } = await checkRemoteHealth(remote);
+  await maybeAlert(health, previousStatus);
+  return health;
+}
+
+// Check every remote, a few at a time
+export async function runHealthCheckJob() {
+  if (global.healthJobRunning) {
+    console.log('Health check already running, skipping...');
+    return;
+  }
+
+  global.healthJobRunning = true;
+  console.log('🩺 Starting remote health check...');
+
+  try {
+    const remotes = await getRemotesList();
+    if (!remotes) {
+      console.log('❌ rclone unreachable, skipping health check');
+      return;
+    }
+
+    await pruneHealth(remotes);
+
+    const queue = [...remotes];
+    while (queue.length > 0) {
+      const batch = queue.splice(0, CONCURRENT_CHECKS);
+      await Promise.allSettled(batch.map(remote => runRemoteCheck(remote)));
+    }
+
+    const states = await getHealthStates();
+    const unhealthy = states.filter(state => state.status !== 'healthy');
+    console.log(`🩺 Health check completed: ${states.length - unhealthy.length}/${states.length} remotes healthy`);
+  } catch (error) {
+    console.error('❌ Health check job failed:', error);
+  } finally {
+    global.healthJobRunning = false;
+
+    if (global.healthJobTimer) {
+      clearTimeout(global.healthJobTimer);
+    }
+    global.healthJobTimer = setTimeout(runHealthCheckJob, HEALTH_CHECK_INTERVAL);
+  }
+}
+
+// Initialize the checker on server startup
+function initializeHealthJob() {
+  if (global.healthJobInitialized) {
+    return;
+  }
+
+  global.healthJobInitialized = true;
+  console.log(`🚀 Initializing remote health checks (every ${HEALTH_CHECK_INTERVAL / 60000} minutes)...`);
+  global.healthJobTimer = setTimeout(runHealthCheckJob, STARTUP_DELAY);
+}
+
+// Auto-start the checker when this module is imported
+initializeHealthJob();
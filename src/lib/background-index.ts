@@ -0,0 +1,117 @@
+// Background search index crawler
+// This module schedules index crawls automatically when imported
+
+import { rcloneClient } from '@/lib/rclone/client';
+import { crawlRemote, getIndexStatus, removeRemoteFromIndex } from '@/lib/search-index';
+
+// Comma-separated remote names, or "*" for every configured remote; empty disables the index
+const SEARCH_INDEX_REMOTES = (process.env.SEARCH_INDEX_REMOTES || '').trim();
+const INDEX_CRAWL_INTERVAL = (parseInt(process.env.SEARCH_INDEX_INTERVAL_MINUTES || '60', 10) || 60) * 60 * 1000;
+const STARTUP_DELAY = 60 * 1000; // let the storage check go first
+
+declare global {
+  var indexJobRunning: boolean | undefined;
+  var indexJobTimer: NodeJS.Timeout | null | undefined;
+  var indexJobInitialized: boolean | undefined;
+  var indexJobController: AbortController | undefined;
+  var indexNextCrawlAt: number | undefined;
+}
+
+export function isIndexEnabled(): boolean {
+  return SEARCH_INDEX_REMOTES !== '';
+}
+
+// Get list of all remotes
+async function getRemotesList(): Promise<string[] | null> {
+  try {
+    return await rcloneClient.listRemotes();
+  } catch (error) {
+    console.error('Failed to get remotes list:', error);
+    return null;
+  }
+}
+
+// Remotes to index, or null when rclone could not be reached
+export async function getIndexedRemotes(): Promise<string[] | null> {
+  if (!isIndexEnabled()) return [];
+
+  const remotes = await getRemotesList();
+  if (!remotes) return null;
+  if (SEARCH_INDEX_REMOTES === '*') return remotes;
+
+  const configured = SEARCH_INDEX_REMOTES.split(',').map(remote => remote.trim()).filter(Boolean);
+  return configured.filter(remote => remotes.includes(remote));
+}
+
+function scheduleNextRun() {
+  if (global.indexJobTimer) {
+    clearTimeout(global.indexJobTimer);
+  }
+  global.indexNextCrawlAt = Date.now() + INDEX_CRAWL_INTERVAL;
+  global.indexJobTimer = setTimeout(() => {
+    console.log(`⏰ Scheduled index crawl starting (${new Date().toLocaleTimeString()})...`);
+    runIndexJob();
+  }, INDEX_CRAWL_INTERVAL);
+}
+
+// Crawl every indexed remote (or just `onlyRemote`) one after another.
+// Returns false when a crawl is already in progress.
+export function runIndexJob(onlyRemote?: string): boolean {
+  if (global.indexJobRunning) {
+    console.log('Index crawl already running, skipping...');
+    return false;
+  }
+
+  global.indexJobRunning = true;
+  global.indexJobController = new AbortController();
+  const signal = global.indexJobController.signal;
+
+  (async () => {
+    try {
+      const remotes = await getIndexedRemotes();
+      if (!remotes) {
+        console.log('❌ rclone unreachable, skipping index crawl');
+        return;
+      }
+
+      // Forget remotes that were removed from rclone or from SEARCH_INDEX_REMOTES
+      if (!onlyRemote) {
+        for (const { remote } of await getIndexStatus()) {
+          if (!remotes.includes(remote)) {
+            await removeRemoteFromIndex(remote);
+          }
+        }
+      }
+
+      for (const remote of remotes) {
+        if (signal.aborted) break;
+        if (onlyRemote && remote !== onlyRemote) continue;
+        await crawlRemote(remote, signal);
+      }
+    } catch (error) {
+      console.error('❌ Index crawl job failed:', error);
+    } finally {
+      global.indexJobRunning = false;
+      global.indexJobController = undefined;
+      scheduleNextRun();
+    }
+  })();
+
+  return true;
+}
+
+// Initialize the crawler on server startup
+function initializeIndexJob() {
+  if (global.indexJobInitialized || !isIndexEnabled()) {
+    return;
+  }
+
+  global.indexJobInitialized = true;
+
+  console.log(`🚀 Initializing search index crawler (delay: ${STARTUP_DELAY / 1000}s, interval: ${INDEX_CRAWL_INTERVAL / 60000} minutes)...`);
+  global.indexNextCrawlAt = Date.now() + STARTUP_DELAY;
+  global.indexJobTimer = setTimeout(() => runIndexJob(), STARTUP_DELAY);
+}
+
+// Auto-start the crawler when this module is imported
+initializeIndexJob();
@@ -0,0 +1,43 @@
+// Background login throttle pruner
+// This module deletes failed sign-in counters that have aged out of the failure window every
+// hour when imported. Without it, failures for made-up usernames would pile up forever.
+
+import { pruneLoginThrottles } from '@/lib/login-throttle';
+
+const PRUNE_INTERVAL = 60 * 60 * 1000; // hourly
+const STARTUP_DELAY = 60 * 1000;
+
+declare global {
+  var loginThrottlePruneTimer: NodeJS.Timeout | null | undefined;
+  var loginThrottlePruneInitialized: boolean | undefined;
+}
+
+export async function runLoginThrottlePrune() {
+  try {
+    const removed = await pruneLoginThrottles();
+    if (removed > 0) {
+      console.log(`🧹 Login throttles pruned: ${removed} expired counters removed`);
+    }
+  } catch (error) {
+    console.error('❌ Login throttle prune failed:', error);
+  } finally {
+    if (global.loginThrottlePruneTimer) {
+      clearTimeout(global.loginThrottlePruneTimer);
+    }
+    global.loginThrottlePruneTimer = setTimeout(runLoginThrottlePrune, PRUNE_INTERVAL);
+  }
+}
+
+// Initialize the pruner on server startup
+function initializeLoginThrottlePrune() {
+  if (global.loginThrottlePruneInitialized) {
+    return;
+  }
+
+  global.loginThrottlePruneInitialized = true;
+  console.log('🚀 Initializing login throttle pruning...');
+  global.loginThrottlePruneTimer = setTimeout(runLoginThrottlePrune, STARTUP_DELAY);
+}
+
+// Auto-start the pruner when this module is imported
+initializeLoginThrottlePrune();
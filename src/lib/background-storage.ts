@@ -1,7 +1,8 @@
 // Background storage monitoring service
 // This module starts storage monitoring automatically when imported
 
-const RCLONE_RC_URL = process.env.RCLONE_RC_URL || 'http://127.0.0.1:5572';
+import { rcloneClient } from '@/lib/rclone/client';
+
 const STORAGE_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
 const STARTUP_DELAY = 10 * 1000; // 10 seconds delay after server start
 
@@ -39,28 +40,7 @@ if (!global.storageSubscribers) {
 // Check storage for a single remote
 async function checkRemoteStorage(remote: string): Promise<StorageData> {
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-    
-    const response = await fetch(`${RCLONE_RC_URL}/operations/about`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        fs: `${remote}:`
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`API error: ${response.status} - ${errorData.error || response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await rcloneClient.about(remote);
     
     return {
       total: data.total,
@@ -80,21 +60,7 @@ async function checkRemoteStorage(remote: string): Promise<StorageData> {
 // Get list of all remotes
 async function getRemotesList(): Promise<string[]> {
   try {
-    const response = await fetch(`${RCLONE_RC_URL}/config/listremotes`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({}),
-      signal: AbortSignal.timeout(5000),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to get remotes list: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return data.remotes || [];
+    return await rcloneClient.listRemotes();
   } catch (error) {
     console.error('Failed to get remotes list:', error);
     return [];
@@ -218,17 +184,9 @@ async function initializeBackgroundJob() {
     const tryStartJob = async () => {
       try {
         // Check if rclone daemon is responding
-        const healthCheck = await fetch(`${RCLONE_RC_URL}/core/version`, {
-          method: 'POST',
-          signal: AbortSignal.timeout(5000),
-        });
-        
-        if (healthCheck.ok) {
-          console.log('✅ rclone daemon is ready, starting storage monitoring...');
-          runStorageCheckJob(); // Start immediately without waiting for requests
-        } else {
-          throw new Error(`Health check failed: ${healthCheck.status}`);
-        }
+        await rcloneClient.version({ retry: false });
+        console.log('✅ rclone daemon is ready, starting storage monitoring...');
+        runStorageCheckJob(); // Start immediately without waiting for requests
       } catch (error) {
         retryCount++;
         console.log(`⚠️ rclone daemon check attempt ${retryCount}/${maxRetries} failed:`, error instanceof Error ? error.message : 'Unknown error');
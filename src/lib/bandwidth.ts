@@ -0,0 +1,121 @@
+// Runtime bandwidth limiting through rclone's core/bwlimit
+// Limits are an upload:download pair of rclone sizes ("10M", "512K") where "off" means unlimited.
+// The schedule table works like rclone's own --bwlimit timetable: an entry applies from its start
+// time until the next entry starts, wrapping around the week.
+
+import { BandwidthSchedule, PrismaClient } from '@prisma/client';
+import { rcloneClient } from '@/lib/rclone/client';
+
+const prisma = new PrismaClient();
+
+const RATE_PATTERN = /^(off|\d+(\.\d+)?[bkmgtp]?)$/i;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface BandwidthLimit {
+  upload: string;
+  download: string;
+}
+
+export interface BandwidthStatus {
+  rate: string;
+  // Bytes per second, -1 when unlimited
+  bytesPerSecondTx: number;
+  bytesPerSecondRx: number;
+}
+
+export interface ScheduleEntryInput extends BandwidthLimit {
+  dayOfWeek: number | null;
+  startTime: string;
+  enabled: boolean;
+}
+
+export function isValidRate(rate: string): boolean {
+  return RATE_PATTERN.test(rate.trim());
+}
+
+export function validateScheduleEntry(entry: ScheduleEntryInput): string | null {
+  if (entry.dayOfWeek !== null && (!Number.isInteger(entry.dayOfWeek) || entry.dayOfWeek < 0 || entry.dayOfWeek > 6)) {
+    return 'Day of week must be between 0 (Sunday) and 6 (Saturday)';
+  }
+  if (!TIME_PATTERN.test(entry.startTime)) {
+    return 'Start time must be HH:MM';
+  }
+  if (!isValidRate(entry.upload) || !isValidRate(entry.download)) {
+    return 'Rates must be "off" or a size such as 512K or 10M';
+  }
+  return null;
+}
+
+// rclone takes "UP:DOWN", or a single value for both directions
+function formatRate({ upload, download }: BandwidthLimit): string {
+  const up = upload.trim().toLowerCase() === 'off' ? 'off' : upload.trim();
+  const down = download.trim().toLowerCase() === 'off' ? 'off' : download.trim();
+  return up === down ? up : `${up}:${down}`;
+}
+
+async function callBwLimit(rate?: string): Promise<BandwidthStatus> {
+  const data = await rcloneClient.bwlimit(rate);
+  return {
+    rate: data.rate || 'off',
+    bytesPerSecondTx: data.bytesPerSecondTx ?? data.bytesPerSecond ?? -1,
+    bytesPerSecondRx: data.bytesPerSecondRx ?? data.bytesPerSecond ?? -1
+  };
+}
+
+export function getBandwidthLimit(): Promise<BandwidthStatus> {
+  return callBwLimit();
+}
+
+export function setBandwidthLimit(limit: BandwidthLimit): Promise<BandwidthStatus> {
+  return callBwLimit(formatRate(limit));
+}
+
+export function getSchedule(): Promise<BandwidthSchedule[]> {
+  return prisma.bandwidthSchedule.findMany({
+    orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+  });
+}
+
+// The schedule is edited as a whole table, so replace it in one transaction
+export async function replaceSchedule(entries: ScheduleEntryInput[]): Promise<BandwidthSchedule[]> {
+  await prisma.$transaction([
+    prisma.bandwidthSchedule.deleteMany(),
+    ...entries.map(entry => prisma.bandwidthSchedule.create({
+      data: {
+        dayOfWeek: entry.dayOfWeek,
+        startTime: entry.startTime,
+        upload: entry.upload.trim(),
+        download: entry.download.trim(),
+        enabled: entry.enabled
+      }
+    }))
+  ]);
+  return getSchedule();
+}
+
+function minuteOfWeek(day: number, time: string): number {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return day * MINUTES_PER_DAY + hours * 60 + minutes;
+}
+
+// The entry in effect at `now`: the last one to start, or the week's final entry before the first start
+export function findActiveEntry(schedule: BandwidthSchedule[], now: Date = new Date()): BandwidthSchedule | null {
+  const starts: { minute: number; entry: BandwidthSchedule }[] = [];
+  for (const entry of schedule) {
+    if (!entry.enabled) continue;
+    const days = entry.dayOfWeek === null ? [0, 1, 2, 3, 4, 5, 6] : [entry.dayOfWeek];
+    for (const day of days) {
+      starts.push({ minute: minuteOfWeek(day, entry.startTime), entry });
+    }
+  }
+
+  if (starts.length === 0) {
+    return null;
+  }
+
+  starts.sort((a, b) => a.minute - b.minute);
+  const current = now.getDay() * MINUTES_PER_DAY + now.getHours() * 60 + now.getMinutes();
+  const started = starts.filter(start => start.minute <= current);
+  return (started.length > 0 ? started[started.length - 1] : starts[starts.length - 1]).entry;
+}
@@ -0,0 +1,32 @@
+// Browser-side download helpers
+
+export interface ArchiveSelection {
+  path: string;
+  isDir: boolean;
+}
+
+// Submit a hidden form so the browser streams the ZIP straight to disk
+export function downloadArchive(remote: string, base: string, items: ArchiveSelection[]) {
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = '/api/rclone/archive';
+  form.style.display = 'none';
+
+  const fields: Record<string, string> = {
+    remote,
+    base,
+    items: JSON.stringify(items)
+  };
+
+  for (const [name, value] of Object.entries(fields)) {
+    const input = document.createElement('input');
+    input.type = 'hidden';
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  }
+
+  document.body.appendChild(form);
+  form.submit();
+  document.body.removeChild(form);
+}
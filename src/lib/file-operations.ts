@@ -0,0 +1,52 @@
+// Move, copy and rename, within a remote or between remotes
+// Every operation runs through the job manager so folder moves never hold the HTTP request open;
+// clients follow progress and per-file failures over the jobs stream and can stop a job.
+
+import { Job } from '@prisma/client';
+import { submitJob } from '@/lib/jobs';
+import { rcloneClient } from '@/lib/rclone/client';
+import { FileItem } from '@/lib/types/files';
+
+export type FileOperation = 'move' | 'copy';
+
+// What already exists at the path, if anything (used to refuse overwrites). On case-insensitive
+// backends this can be an item whose name differs from the path in case.
+export async function getExistingItem(remote: string, path: string): Promise<FileItem | null> {
+  return rcloneClient.stat(remote, path);
+}
+
+// Files use operations/movefile|copyfile; folders use sync/move|copy. Within one remote rclone
+// uses server-side moves and copies when the backend supports them; between remotes it streams
+// the data through the rclone daemon.
+export async function startFileOperation(
+  userId: string,
+  operation: FileOperation,
+  remote: string,
+  path: string,
+  destinationRemote: string,
+  destination: string,
+  isDir: boolean,
+  rename: boolean = false
+): Promise<Job> {
+  const type = rename ? 'rename' : operation;
+  const params = { remote, path, destinationRemote, destination, isDir };
+
+  if (!isDir) {
+    return submitJob(userId, type, `operations/${operation}file`, {
+      srcFs: `${remote}:`,
+      srcRemote: path,
+      dstFs: `${destinationRemote}:`,
+      dstRemote: destination
+    }, params);
+  }
+
+  return submitJob(userId, type, `sync/${operation}`, {
+    srcFs: `${remote}:${path}`,
+    dstFs: `${destinationRemote}:${destination}`,
+    createEmptySrcDirs: true,
+    ...(operation === 'move' ? { deleteEmptySrcDirs: true } : {})
+  }, params, operation === 'move'
+    // deleteEmptySrcDirs empties the tree but can leave the source folder itself behind
+    ? { endpoint: 'operations/rmdir', body: { fs: `${remote}:`, remote: path } }
+    : undefined);
+}
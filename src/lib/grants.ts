@@ -0,0 +1,143 @@
+// Path-scoped access grants
+// A grant is a UserPermission override on a remote, optionally limited to a folder and everything
+// below it. Grants add to what the user's roles allow; denies win over both (see hasPermission).
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PERMISSION_CATALOG, PERMISSIONS, PermissionName } from '@/lib/permissions';
+import { isSafeRemotePath, normalizeRemotePath } from '@/lib/rclone/paths';
+import { isConfiguredRemote } from '@/lib/rclone/remotes';
+
+const prisma = new PrismaClient();
+
+// Permissions that make sense per remote and folder; admin permissions stay role-only
+export const GRANTABLE_PERMISSIONS: PermissionName[] = [
+  PERMISSIONS.REMOTE_LIST,
+  PERMISSIONS.FILE_READ,
+  PERMISSIONS.FILE_DOWNLOAD,
+  PERMISSIONS.FILE_WRITE,
+  PERMISSIONS.FILE_DELETE,
+];
+
+export class GrantAdminError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'GrantAdminError';
+  }
+}
+
+export interface GrantSummary {
+  id: string;
+  userId: string;
+  permission: string;
+  remoteName: string | null;
+  folderPath: string | null;
+  filePath: string | null;
+  granted: boolean;
+  createdAt: Date;
+}
+
+export interface GrantInput {
+  userId: string;
+  remote: string;
+  // '' grants on the whole remote
+  folderPath: string;
+  permissions: string[];
+  granted: boolean;
+}
+
+const grantInclude = {
+  permission: true
+} satisfies Prisma.UserPermissionInclude;
+
+type GrantWithPermission = Prisma.UserPermissionGetPayload<{ include: typeof grantInclude }>;
+
+function toSummary(grant: GrantWithPermission): GrantSummary {
+  return {
+    id: grant.id,
+    userId: grant.userId,
+    permission: grant.permission.name,
+    remoteName: grant.remoteName,
+    folderPath: grant.folderPath,
+    filePath: grant.filePath,
+    granted: grant.granted,
+    createdAt: grant.createdAt
+  };
+}
+
+export function grantablePermissions() {
+  return PERMISSION_CATALOG.filter(permission => GRANTABLE_PERMISSIONS.includes(permission.name));
+}
+
+export async function listGrants(userId: string): Promise<GrantSummary[]> {
+  const grants = await prisma.userPermission.findMany({
+    where: { userId },
+    include: grantInclude,
+    orderBy: [{ remoteName: 'asc' }, { folderPath: 'asc' }, { createdAt: 'asc' }]
+  });
+  return grants.map(toSummary);
+}
+
+// Grant or deny the given permissions on a folder, recursively. An existing override for the same
+// user, permission and folder is replaced, so switching grant to deny leaves no contradicting row.
+export async function setGrants(input: GrantInput): Promise<GrantSummary[]> {
+  const folderPath = normalizeRemotePath(input.folderPath);
+  if (folderPath && !isSafeRemotePath(folderPath)) {
+    throw new GrantAdminError('Invalid folder path');
+  }
+
+  const names = [...new Set(input.permissions)];
+  if (names.length === 0) {
+    throw new GrantAdminError('Select at least one permission');
+  }
+  const unknown = names.filter(name => !(GRANTABLE_PERMISSIONS as string[]).includes(name));
+  if (unknown.length > 0) {
+    throw new GrantAdminError(`Permission cannot be granted per folder: ${unknown.join(', ')}`);
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: input.userId }, select: { id: true } });
+  if (!user) {
+    throw new GrantAdminError('User not found', 404);
+  }
+
+  if (!(await isConfiguredRemote(input.remote))) {
+    throw new GrantAdminError(`Remote ${input.remote} not found`, 404);
+  }
+
+  const permissions = await prisma.permission.findMany({ where: { name: { in: names } } });
+  if (permissions.length !== names.length) {
+    throw new GrantAdminError('Permission catalogue is not seeded; run prisma db seed', 500);
+  }
+
+  const scope = {
+    userId: input.userId,
+    remoteName: input.remote,
+    folderPath: folderPath || null,
+    filePath: null
+  };
+
+  return prisma.$transaction(async tx => {
+    await tx.userPermission.deleteMany({
+      where: { ...scope, permissionId: { in: permissions.map(permission => permission.id) } }
+    });
+
+    const created: GrantSummary[] = [];
+    for (const permission of permissions) {
+      const grant = await tx.userPermission.create({
+        data: { ...scope, permissionId: permission.id, granted: input.granted },
+        include: grantInclude
+      });
+      created.push(toSummary(grant));
+    }
+    return created;
+  });
+}
+
+export async function deleteGrant(id: string): Promise<GrantSummary> {
+  const grant = await prisma.userPermission.findUnique({ where: { id }, include: grantInclude });
+  if (!grant) {
+    throw new GrantAdminError('Grant not found', 404);
+  }
+
+  await prisma.userPermission.delete({ where: { id } });
+  return toSummary(grant);
+}
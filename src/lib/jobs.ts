@@ -0,0 +1,310 @@
+// Async rclone job manager
+// Long RC calls are submitted with _async and recorded in the jobs table. One poller refreshes
+// running jobs from job/status and the job's stats group and pushes every change to SSE
+// subscribers. On startup, jobs still marked running are reconciled against rclone's job/list.
+
+import { Job, Prisma, PrismaClient } from '@prisma/client';
+import { rcloneClient, RcloneTimeoutError, RcloneUnreachableError } from '@/lib/rclone/client';
+
+const prisma = new PrismaClient();
+
+const POLL_INTERVAL = 2000;
+const FINISHED_JOB_RETENTION = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export type JobType = 'move' | 'copy' | 'rename' | 'purge';
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface FailedTransfer {
+  name: string;
+  error: string;
+}
+
+export interface JobProgress {
+  bytes: number;
+  totalBytes: number;
+  transfers: number;
+  totalTransfers: number;
+  speed: number;
+  eta: number | null;
+  failedFiles: FailedTransfer[];
+}
+
+// An RC call to make once the job has succeeded (e.g. removing a moved folder's empty source)
+export interface JobFollowUp {
+  endpoint: string;
+  body: Record<string, unknown>;
+}
+
+// What clients see; params describe the job for display and for refreshing listings
+export interface JobInfo {
+  id: string;
+  userId: string | null;
+  type: JobType;
+  params: Record<string, unknown>;
+  status: JobStatus;
+  progress: JobProgress | null;
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+declare global {
+  var jobSubscribers: Set<(job: JobInfo) => void> | undefined;
+  var jobPollerTimer: NodeJS.Timeout | null | undefined;
+  var jobPollerRunning: boolean | undefined;
+  var jobsReconciled: Promise<void> | undefined;
+  // Jobs the user asked to stop, so rclone's "context canceled" failure shows as cancelled
+  var jobCancelRequests: Set<string> | undefined;
+}
+
+if (!global.jobSubscribers) {
+  global.jobSubscribers = new Set();
+}
+
+if (!global.jobCancelRequests) {
+  global.jobCancelRequests = new Set();
+}
+
+export function toJobInfo(job: Job): JobInfo {
+  const { followUp, ...params } = job.params as Record<string, unknown>;
+  return {
+    id: job.id,
+    userId: job.userId,
+    type: job.type as JobType,
+    params,
+    status: job.status as JobStatus,
+    progress: job.progress as unknown as JobProgress | null,
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    finishedAt: job.finishedAt?.toISOString() || null
+  };
+}
+
+function notifySubscribers(job: Job) {
+  const info = toJobInfo(job);
+  global.jobSubscribers!.forEach(callback => {
+    try {
+      callback(info);
+    } catch (error) {
+      console.error('Error notifying job subscriber:', error);
+    }
+  });
+}
+
+// Submit an RC call as an async rclone job and start tracking it
+export async function submitJob(
+  userId: string | null,
+  type: JobType,
+  endpoint: string,
+  body: Record<string, unknown>,
+  params: Record<string, unknown>,
+  followUp?: JobFollowUp
+): Promise<Job> {
+  await ensureReconciled();
+
+  const rcloneJobId = await rcloneClient.startJob(endpoint, body);
+
+  const job = await prisma.job.create({
+    data: {
+      userId,
+      type,
+      params: { ...params, ...(followUp ? { followUp } : {}) } as Prisma.InputJsonValue,
+      rcloneJobId
+    }
+  });
+
+  console.log(`📦 Job ${job.id} (${type}) submitted as rclone job ${rcloneJobId}`);
+  notifySubscribers(job);
+  startPoller();
+  return job;
+}
+
+// Fetch state, progress and per-file failures for one running job and persist any change
+async function refreshJob(job: Job) {
+  const group = `job/${job.rcloneJobId}`;
+
+  let status;
+  try {
+    status = await rcloneClient.jobStatus(job.rcloneJobId);
+  } catch (error) {
+    // A daemon that is down or slow is retried on the next poll
+    if (error instanceof RcloneUnreachableError || error instanceof RcloneTimeoutError) {
+      throw error;
+    }
+    // rclone forgets finished jobs after --rc-job-expire-duration and all jobs on restart
+    await finishJob(job, 'failed', `Lost track of the rclone job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return;
+  }
+
+  const statusStartedAt = status.startTime ? new Date(status.startTime) : null;
+  if (job.rcloneStartedAt && statusStartedAt && job.rcloneStartedAt.getTime() !== statusStartedAt.getTime()) {
+    await finishJob(job, 'failed', 'rclone was restarted before the job finished');
+    return;
+  }
+
+  const [stats, transferred] = await Promise.all([
+    rcloneClient.stats(group).catch(() => null),
+    rcloneClient.transferred(group).catch(() => null)
+  ]);
+
+  const failedFiles: FailedTransfer[] = (transferred?.transferred || [])
+    .filter(transfer => transfer.error)
+    .map(transfer => ({ name: transfer.name, error: transfer.error! }));
+
+  const progress: JobProgress = {
+    bytes: stats?.bytes || 0,
+    totalBytes: stats?.totalBytes || 0,
+    transfers: stats?.transfers || 0,
+    totalTransfers: stats?.totalTransfers || 0,
+    speed: stats?.speed || 0,
+    eta: typeof stats?.eta === 'number' ? stats.eta : null,
+    failedFiles
+  };
+
+  if (status.finished) {
+    const success = !!status.success && failedFiles.length === 0;
+    const cancelled = !success && global.jobCancelRequests!.has(job.id);
+    const error = status.error || (failedFiles.length > 0 ? `${failedFiles.length} file${failedFiles.length > 1 ? 's' : ''} failed` : null);
+    await finishJob(job, success ? 'completed' : cancelled ? 'cancelled' : 'failed', cancelled ? null : error, progress);
+    return;
+  }
+
+  if (JSON.stringify(progress) === JSON.stringify(job.progress) && job.rcloneStartedAt) {
+    return;
+  }
+
+  const updated = await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      progress: progress as unknown as Prisma.InputJsonValue,
+      rcloneStartedAt: job.rcloneStartedAt || statusStartedAt
+    }
+  });
+  notifySubscribers(updated);
+}
+
+async function finishJob(job: Job, status: JobStatus, error: string | null, progress?: JobProgress) {
+  const { followUp } = job.params as { followUp?: JobFollowUp };
+  if (status === 'completed' && followUp) {
+    await rcloneClient.call(followUp.endpoint, followUp.body)
+      .catch(followUpError => console.log(`Job ${job.id} follow-up ${followUp.endpoint} skipped: ${followUpError.message}`));
+  }
+
+  global.jobCancelRequests!.delete(job.id);
+  const updated = await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status,
+      error,
+      finishedAt: new Date(),
+      ...(progress ? { progress: progress as unknown as Prisma.InputJsonValue } : {})
+    }
+  });
+
+  console.log(`📦 Job ${job.id} (${job.type}) ${status}${error ? `: ${error}` : ''}`);
+  notifySubscribers(updated);
+}
+
+async function pollRunningJobs() {
+  if (global.jobPollerRunning) {
+    return;
+  }
+  global.jobPollerRunning = true;
+
+  let remaining = 0;
+  try {
+    const jobs = await prisma.job.findMany({ where: { status: 'running' } });
+    await Promise.all(jobs.map(job => refreshJob(job).catch(error =>
+      console.error(`Failed to refresh job ${job.id}:`, error)
+    )));
+    remaining = await prisma.job.count({ where: { status: 'running' } });
+  } catch (error) {
+    console.error('Job poller failed:', error);
+    remaining = 1; // try again on the next tick
+  } finally {
+    global.jobPollerRunning = false;
+    global.jobPollerTimer = remaining > 0 ? setTimeout(pollRunningJobs, POLL_INTERVAL) : null;
+  }
+}
+
+function startPoller() {
+  if (!global.jobPollerTimer && !global.jobPollerRunning) {
+    global.jobPollerTimer = setTimeout(pollRunningJobs, POLL_INTERVAL);
+  }
+}
+
+// After a Next.js restart: fail jobs rclone no longer knows about, resume polling the rest,
+// and drop old finished records
+async function reconcileJobs() {
+  const cutoff = new Date(Date.now() - FINISHED_JOB_RETENTION);
+  await prisma.job.deleteMany({ where: { status: { not: 'running' }, finishedAt: { lt: cutoff } } });
+
+  const running = await prisma.job.findMany({ where: { status: 'running' } });
+  if (running.length === 0) {
+    return;
+  }
+
+  let known: Set<number>;
+  try {
+    const data = await rcloneClient.jobList();
+    known = new Set(data.jobids || []);
+  } catch (error) {
+    console.error('Failed to reconcile jobs with rclone, will retry while polling:', error);
+    startPoller();
+    return;
+  }
+
+  for (const job of running) {
+    if (!known.has(job.rcloneJobId)) {
+      await finishJob(job, 'failed', 'rclone no longer knows this job (it was restarted or the job expired)');
+    }
+  }
+
+  console.log(`📦 Reconciled ${running.length} running job(s) with rclone`);
+  startPoller();
+}
+
+export function ensureReconciled(): Promise<void> {
+  if (!global.jobsReconciled) {
+    global.jobsReconciled = reconcileJobs().catch(error => {
+      console.error('Job reconciliation failed:', error);
+    });
+  }
+  return global.jobsReconciled;
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  return prisma.job.findUnique({ where: { id } });
+}
+
+// Running jobs plus the most recent finished ones
+export async function listJobs(userId: string, limit: number = 50): Promise<JobInfo[]> {
+  await ensureReconciled();
+  const jobs = await prisma.job.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  });
+  return jobs.map(toJobInfo);
+}
+
+// Ask rclone to cancel a running job; the poller records the outcome
+export async function stopJob(job: Job) {
+  global.jobCancelRequests!.add(job.id);
+  await rcloneClient.jobStop(job.rcloneJobId);
+  console.log(`🛑 Job ${job.id} (${job.type}) stop requested`);
+}
+
+export async function deleteFinishedJobs(userId: string, id?: string): Promise<number> {
+  const result = await prisma.job.deleteMany({
+    where: { userId, status: { not: 'running' }, ...(id ? { id } : {}) }
+  });
+  return result.count;
+}
+
+export function subscribeJobs(callback: (job: JobInfo) => void): () => void {
+  global.jobSubscribers!.add(callback);
+  return () => {
+    global.jobSubscribers!.delete(callback);
+  };
+}
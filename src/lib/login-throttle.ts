@@ -0,0 +1,168 @@
+// Login brute-force protection
+// Failed sign-ins are counted per username and per client IP. Each failure doubles the wait before
+// the next attempt, and reaching the threshold locks the username or IP out for a while. Blocked
+// attempts are answered the same way whether or not the username exists.
+
+import { LoginThrottle, Prisma, PrismaClient } from '@prisma/client';
+import { recordAudit } from '@/lib/audit';
+
+const prisma = new PrismaClient();
+
+const MAX_USER_FAILURES = parseInt(process.env.LOGIN_MAX_FAILURES || '5', 10) || 5;
+const MAX_IP_FAILURES = parseInt(process.env.LOGIN_MAX_IP_FAILURES || '20', 10) || 20;
+const LOCKOUT_DURATION = (parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10) || 15) * 60 * 1000;
+// Failures older than this are forgotten
+const FAILURE_WINDOW = (parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '15', 10) || 15) * 60 * 1000;
+const BACKOFF_BASE = 1000;
+const BACKOFF_MAX = 60 * 1000;
+
+// Prefix of the error authorize() throws; the login page matches on it to show the lockout message
+export const LOGIN_THROTTLED_ERROR = 'LoginThrottled';
+
+export type ThrottleScope = 'user' | 'ip';
+
+export class LoginThrottledError extends Error {
+  constructor(public retryAfterSeconds: number) {
+    // NextAuth hands the message to the client as the sign-in error
+    super(`${LOGIN_THROTTLED_ERROR}:${retryAfterSeconds}`);
+    this.name = 'LoginThrottledError';
+  }
+}
+
+export interface Lockout {
+  id: string;
+  scope: ThrottleScope;
+  subject: string;
+  failures: number;
+  lockedUntil: Date;
+}
+
+function isWithinWindow(throttle: LoginThrottle, now: number): boolean {
+  return now - throttle.lastFailureAt.getTime() < FAILURE_WINDOW;
+}
+
+// Milliseconds until the next attempt is allowed: the lockout if one is active, otherwise the backoff
+function waitFor(throttle: LoginThrottle | null, now: number): number {
+  if (!throttle) return 0;
+
+  if (throttle.lockedUntil && throttle.lockedUntil.getTime() > now) {
+    return throttle.lockedUntil.getTime() - now;
+  }
+
+  if (throttle.failures === 0 || !isWithinWindow(throttle, now)) return 0;
+
+  const backoff = Math.min(BACKOFF_BASE * 2 ** (throttle.failures - 1), BACKOFF_MAX);
+  return Math.max(0, throttle.lastFailureAt.getTime() + backoff - now);
+}
+
+function findThrottle(scope: ThrottleScope, subject: string) {
+  return prisma.loginThrottle.findUnique({ where: { scope_subject: { scope, subject } } });
+}
+
+// Throws LoginThrottledError when the username or IP has to wait before trying again
+export async function assertLoginAllowed(username: string, ipAddress: string | null) {
+  const now = Date.now();
+  const [userThrottle, ipThrottle] = await Promise.all([
+    findThrottle('user', username),
+    ipAddress ? findThrottle('ip', ipAddress) : null
+  ]);
+
+  const wait = Math.max(waitFor(userThrottle, now), waitFor(ipThrottle, now));
+  if (wait > 0) {
+    throw new LoginThrottledError(Math.ceil(wait / 1000));
+  }
+}
+
+function notLocked(now: Date): Prisma.LoginThrottleWhereInput {
+  return { OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }] };
+}
+
+// Every step is a single conditional statement, so parallel failures each count and only one of
+// them starts the lockout
+async function countFailure(scope: ThrottleScope, subject: string, maxFailures: number, request: Pick<Request, 'headers'>) {
+  const now = new Date();
+
+  // Failures outside the window are forgotten before this one is counted
+  await prisma.loginThrottle.updateMany({
+    where: { scope, subject, lastFailureAt: { lt: new Date(now.getTime() - FAILURE_WINDOW) }, ...notLocked(now) },
+    data: { failures: 0 }
+  });
+
+  const throttle = await prisma.loginThrottle.upsert({
+    where: { scope_subject: { scope, subject } },
+    update: { failures: { increment: 1 }, lastFailureAt: now },
+    create: { scope, subject, failures: 1, lastFailureAt: now }
+  });
+
+  if (throttle.failures < maxFailures) {
+    return;
+  }
+
+  const lockedUntil = new Date(now.getTime() + LOCKOUT_DURATION);
+  const { count } = await prisma.loginThrottle.updateMany({
+    where: { id: throttle.id, ...notLocked(now) },
+    data: { lockedUntil }
+  });
+
+  if (count > 0) {
+    console.warn(`🔒 Login locked for ${scope} ${subject} until ${lockedUntil.toISOString()} after ${throttle.failures} failures`);
+    await recordAudit({
+      action: 'login_lockout',
+      resource: 'auth',
+      details: { scope, subject, failures: throttle.failures, lockedUntil: lockedUntil.toISOString() },
+      success: false
+    }, request);
+  }
+}
+
+export async function recordFailedLogin(username: string, ipAddress: string | null, request: Pick<Request, 'headers'>) {
+  await countFailure('user', username, MAX_USER_FAILURES, request);
+  if (ipAddress) {
+    await countFailure('ip', ipAddress, MAX_IP_FAILURES, request);
+  }
+}
+
+// A successful sign-in clears the username's failures. The IP keeps its count, so one valid
+// account cannot be used to reset the budget for guessing others.
+export async function clearFailedLogins(username: string) {
+  await prisma.loginThrottle.deleteMany({ where: { scope: 'user', subject: username } });
+}
+
+export async function listLockouts(): Promise<Lockout[]> {
+  const throttles = await prisma.loginThrottle.findMany({
+    where: { lockedUntil: { gt: new Date() } },
+    orderBy: { lockedUntil: 'desc' }
+  });
+  return throttles.map(throttle => ({
+    id: throttle.id,
+    scope: throttle.scope as ThrottleScope,
+    subject: throttle.subject,
+    failures: throttle.failures,
+    lockedUntil: throttle.lockedUntil!
+  }));
+}
+
+// Lift a lockout and forget the failures behind it; returns null when there was nothing to unlock
+export async function unlockLogin(id: string): Promise<Lockout | null> {
+  const throttle = await prisma.loginThrottle.findUnique({ where: { id } });
+  if (!throttle) return null;
+
+  await prisma.loginThrottle.delete({ where: { id } });
+  return {
+    id: throttle.id,
+    scope: throttle.scope as ThrottleScope,
+    subject: throttle.subject,
+    failures: throttle.failures,
+    lockedUntil: throttle.lockedUntil || new Date()
+  };
+}
+
+// Rows whose failures have aged out carry no state any more. Run on a schedule by
+// background-login-throttle, since failures for made-up usernames are never cleared by a sign-in.
+export async function pruneLoginThrottles(): Promise<number> {
+  const now = new Date();
+  const { count } = await prisma.loginThrottle.deleteMany({
+    where: { lastFailureAt: { lt: new Date(now.getTime() - FAILURE_WINDOW) }, ...notLocked(now) }
+  });
+  return count;
+}
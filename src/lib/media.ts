@@ -0,0 +1,90 @@
+// Media classification shared by the player and the file browser
+
+import { FileItem } from '@/lib/types/files';
+
+export type MediaKind = 'video' | 'audio';
+
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'webm', 'mkv', 'mov', 'avi', 'ogv'];
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'aac', 'wav', 'flac', 'ogg', 'oga', 'opus'];
+const SUBTITLE_EXTENSIONS = ['srt', 'vtt'];
+// Formats the thumbnail service can decode (SVG is left out on purpose)
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'tif', 'tiff'];
+
+export interface SubtitleTrack {
+  file: FileItem;
+  label: string;
+  language?: string;
+}
+
+function splitExtension(name: string): [string, string] {
+  const dot = name.lastIndexOf('.');
+  if (dot <= 0) return [name, ''];
+  return [name.slice(0, dot), name.slice(dot + 1).toLowerCase()];
+}
+
+export function getMediaKind(file: FileItem): MediaKind | null {
+  if (file.IsDir) return null;
+  const [, extension] = splitExtension(file.Name);
+  if (VIDEO_EXTENSIONS.includes(extension)) return 'video';
+  if (AUDIO_EXTENSIONS.includes(extension)) return 'audio';
+  return null;
+}
+
+export function isImageFile(file: FileItem): boolean {
+  if (file.IsDir) return false;
+  const [, extension] = splitExtension(file.Name);
+  return IMAGE_EXTENSIONS.includes(extension);
+}
+
+// Media files of a folder listing, in the order they are shown
+export function getMediaFiles(files: FileItem[]): FileItem[] {
+  return files.filter(file => getMediaKind(file) !== null);
+}
+
+// Sidecar subtitles: "movie.srt", "movie.en.vtt", "movie.ko.srt" next to "movie.mkv"
+export function findSubtitles(media: FileItem, files: FileItem[]): SubtitleTrack[] {
+  const [baseName] = splitExtension(media.Name);
+  const tracks: SubtitleTrack[] = [];
+
+  for (const file of files) {
+    if (file.IsDir) continue;
+    const [name, extension] = splitExtension(file.Name);
+    if (!SUBTITLE_EXTENSIONS.includes(extension)) continue;
+
+    if (name === baseName) {
+      tracks.push({ file, label: extension.toUpperCase() });
+    } else if (name.startsWith(`${baseName}.`)) {
+      const language = name.slice(baseName.length + 1);
+      tracks.push({ file, label: language, language });
+    }
+  }
+
+  return tracks;
+}
+
+// Convert SubRip to WebVTT, which is the only format <track> accepts
+export function srtToVtt(srt: string): string {
+  const body = srt
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2')
+    .trim();
+  return `WEBVTT\n\n${body}\n`;
+}
+
+// Only these sizes are generated, so the thumbnail cache stays bounded
+export const THUMBNAIL_SIZES = {
+  grid: 256,
+  preview: 1600
+} as const;
+
+export type ThumbnailSize = typeof THUMBNAIL_SIZES[keyof typeof THUMBNAIL_SIZES];
+
+// ModTime is part of the URL so browsers and the disk cache both see edits as new images
+export function getThumbnailUrl(remote: string, path: string, size: ThumbnailSize, modTime?: string): string {
+  const params = new URLSearchParams({ remote, path, size: String(size) });
+  if (modTime) {
+    params.set('modTime', modTime);
+  }
+  return `/api/rclone/thumbnail?${params.toString()}`;
+}
@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { rcloneClient } from '@/lib/rclone/client';
+import { completeAuthorization, startAuthorization } from '@/lib/oauth-reauth';
+
+vi.mock('@/lib/rclone/client', () => ({
+  rcloneClient: { getRemoteConfig: vi.fn(), updateRemote: vi.fn(), fscacheClear: vi.fn() }
+}));
+
+const storedToken = { access_token: 'old-access', token_type: 'Bearer', refresh_token: 'old-refresh', expiry: '2024-01-01T00:00:00Z' };
+
+// Run the whole flow against a token endpoint answering with the given body
+async function reauthorize(tokenResponse: Record<string, unknown>) {
+  const url = new URL(await startAuthorization('alice', 'dropbox', '/browser'));
+  vi.stubGlobal('fetch', vi.fn(async () => Response.json(tokenResponse)));
+  await completeAuthorization('alice', url.searchParams.get('state')!, 'code-1');
+
+  const [, parameters] = vi.mocked(rcloneClient.updateRemote).mock.calls[0];
+  return JSON.parse((parameters as { token: string }).token);
+}
+
+describe('completeAuthorization', () => {
+  beforeEach(() => {
+    vi.mocked(rcloneClient.getRemoteConfig).mockResolvedValue({
+      type: 'dropbox',
+      client_id: 'client',
+      client_secret: 'secret',
+      token: JSON.stringify(storedToken)
+    });
+    vi.mocked(rcloneClient.fscacheClear).mockResolvedValue(undefined as never);
+  });
+
+  it('stores the new refresh token', async () => {
+    const token = await reauthorize({ access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 3600 });
+    expect(token).toMatchObject({ access_token: 'new-access', refresh_token: 'new-refresh' });
+  });
+
+  it('keeps the stored refresh token when the provider sends none', async () => {
+    const token = await reauthorize({ access_token: 'new-access', expires_in: 3600 });
+    expect(token).toMatchObject({ access_token: 'new-access', refresh_token: 'old-refresh' });
+  });
+});
@@ -0,0 +1,191 @@
+// Browser-based OAuth re-authorization for remotes whose token can no longer be refreshed
+// RRList runs the authorization code flow itself and writes the resulting token with config/update.
+// Providers only redirect to URIs registered for the OAuth client, so the remote must use its own
+// client_id/client_secret with <NEXTAUTH_URL>/api/rclone/oauth/callback registered as a redirect
+// URI; rclone's built-in client only accepts its local 127.0.0.1:53682 redirect.
+
+import { randomBytes } from 'crypto';
+import { rcloneClient } from '@/lib/rclone/client';
+
+const PENDING_TTL = 10 * 60 * 1000; // consent has to finish within 10 minutes
+
+interface OAuthProvider {
+  authUrl: (config: Record<string, string>) => string;
+  tokenUrl: (config: Record<string, string>) => string;
+  scopes: (config: Record<string, string>) => string[];
+  extraParams?: Record<string, string>;
+}
+
+// Endpoints and scopes match what rclone's own config flow requests for each backend
+const OAUTH_PROVIDERS: Record<string, OAuthProvider> = {
+  drive: {
+    authUrl: () => 'https://accounts.google.com/o/oauth2/auth',
+    tokenUrl: () => 'https://oauth2.googleapis.com/token',
+    scopes: (config) => (config.scope || 'drive').split(',').map(scope =>
+      `https://www.googleapis.com/auth/${scope.trim() === 'drive.appfolder' ? 'drive.appdata' : scope.trim()}`
+    ),
+    extraParams: { access_type: 'offline', prompt: 'consent' }
+  },
+  onedrive: {
+    authUrl: (config) => `https://login.microsoftonline.com/${config.tenant || 'common'}/oauth2/v2.0/authorize`,
+    tokenUrl: (config) => `https://login.microsoftonline.com/${config.tenant || 'common'}/oauth2/v2.0/token`,
+    scopes: (config) => config.access_scopes
+      ? [...config.access_scopes.split(/\s+/), 'offline_access']
+      : ['Files.Read', 'Files.ReadWrite', 'Files.Read.All', 'Files.ReadWrite.All', 'Sites.Read.All', 'offline_access']
+  },
+  dropbox: {
+    authUrl: () => 'https://www.dropbox.com/oauth2/authorize',
+    tokenUrl: () => 'https://api.dropboxapi.com/oauth2/token',
+    scopes: () => ['files.metadata.write', 'files.content.write', 'files.content.read', 'sharing.write', 'account_info.read'],
+    extraParams: { token_access_type: 'offline' }
+  },
+  box: {
+    authUrl: () => 'https://app.box.com/api/oauth2/authorize',
+    tokenUrl: () => 'https://app.box.com/api/oauth2/token',
+    scopes: () => []
+  }
+};
+
+interface PendingAuthorization {
+  userId: string;
+  remote: string;
+  type: string;
+  returnTo: string;
+  createdAt: number;
+}
+
+declare global {
+  var oauthPendingAuthorizations: Map<string, PendingAuthorization> | undefined;
+}
+
+if (!global.oauthPendingAuthorizations) {
+  global.oauthPendingAuthorizations = new Map();
+}
+
+export class OAuthReauthError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'OAuthReauthError';
+  }
+}
+
+export function isOAuthBackend(type: string): boolean {
+  return type in OAUTH_PROVIDERS;
+}
+
+export function getRedirectUri(): string {
+  const baseUrl = (process.env.NEXTAUTH_URL || 'http://localhost:3003').replace(/\/$/, '');
+  return `${baseUrl}/api/rclone/oauth/callback`;
+}
+
+// Raw config including client credentials; stays on the server
+async function getRawConfig(remote: string): Promise<Record<string, string>> {
+  const config = await rcloneClient.getRemoteConfig(remote, { timeout: 10000 });
+  if (!config?.type) {
+    throw new OAuthReauthError(`Remote ${remote} not found`, 404);
+  }
+  return config;
+}
+
+function prunePending() {
+  const now = Date.now();
+  for (const [state, pending] of global.oauthPendingAuthorizations!) {
+    if (now - pending.createdAt > PENDING_TTL) {
+      global.oauthPendingAuthorizations!.delete(state);
+    }
+  }
+}
+
+// Build the provider's consent URL and remember who asked for it
+export async function startAuthorization(userId: string, remote: string, returnTo: string): Promise<string> {
+  const config = await getRawConfig(remote);
+  const provider = OAUTH_PROVIDERS[config.type];
+  if (!provider) {
+    throw new OAuthReauthError(`Backend type ${config.type} does not use OAuth or is not supported`);
+  }
+  if (!config.client_id || !config.client_secret) {
+    throw new OAuthReauthError(
+      `Set client_id and client_secret on ${remote} to an OAuth client that allows the redirect URI ${getRedirectUri()}`
+    );
+  }
+
+  prunePending();
+  const state = randomBytes(24).toString('hex');
+  global.oauthPendingAuthorizations!.set(state, { userId, remote, type: config.type, returnTo, createdAt: Date.now() });
+
+  const params = new URLSearchParams({
+    client_id: config.client_id,
+    redirect_uri: getRedirectUri(),
+    response_type: 'code',
+    state,
+    ...provider.extraParams
+  });
+  const scopes = provider.scopes(config);
+  if (scopes.length > 0) {
+    params.set('scope', scopes.join(' '));
+  }
+
+  return `${provider.authUrl(config)}?${params.toString()}`;
+}
+
+// Refresh token of the token currently stored on the remote, if it has a readable one
+function storedRefreshToken(config: Record<string, string>): string {
+  try {
+    const token = JSON.parse(config.token || '{}');
+    return typeof token.refresh_token === 'string' ? token.refresh_token : '';
+  } catch {
+    return '';
+  }
+}
+
+// Exchange the callback code for a token and store it on the remote.
+// Returns the remote and where to send the browser afterwards.
+export async function completeAuthorization(userId: string, state: string, code: string): Promise<{ remote: string; returnTo: string }> {
+  prunePending();
+  const pending = global.oauthPendingAuthorizations!.get(state);
+  if (!pending || pending.userId !== userId) {
+    throw new OAuthReauthError('Authorization request expired or was started by another user');
+  }
+  global.oauthPendingAuthorizations!.delete(state);
+
+  const config = await getRawConfig(pending.remote);
+  const provider = OAUTH_PROVIDERS[pending.type];
+
+  const response = await fetch(provider.tokenUrl(config), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getRedirectUri(),
+      client_id: config.client_id,
+      client_secret: config.client_secret
+    }).toString(),
+    signal: AbortSignal.timeout(15000),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.access_token) {
+    throw new OAuthReauthError(`Token exchange failed: ${data.error_description || data.error || response.statusText}`, 502);
+  }
+
+  // rclone stores oauth2.Token as JSON with an RFC 3339 expiry
+  const token = {
+    access_token: data.access_token,
+    token_type: data.token_type || 'Bearer',
+    // Providers may leave the refresh token out on re-consent (Dropbox, OneDrive); the old one still works
+    refresh_token: data.refresh_token || storedRefreshToken(config),
+    expiry: new Date(Date.now() + (data.expires_in || 3600) * 1000).toISOString()
+  };
+
+  await rcloneClient.updateRemote(pending.remote, { token: JSON.stringify(token) }, { nonInteractive: true });
+
+  // Drop cached backends so the next request uses the new token
+  await rcloneClient.fscacheClear().catch(error =>
+    console.error('Failed to clear rclone fs cache:', error)
+  );
+
+  return { remote: pending.remote, returnTo: pending.returnTo };
+}
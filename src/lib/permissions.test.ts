@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { countActiveAdmins, PERMISSIONS } from '@/lib/permissions';
+import { createUser } from '@/test/api';
+
+// createUser puts every permission in one role named "Test"
+function denyUserAdmin(userId: string) {
+  createUser(userId, { permissions: [PERMISSIONS.USER_ADMIN] }).permissions.push({
+    id: `${userId}-deny`,
+    permission: { name: PERMISSIONS.USER_ADMIN },
+    remoteName: null,
+    folderPath: null,
+    filePath: null,
+    granted: false
+  });
+}
+
+describe('countActiveAdmins', () => {
+  it('counts active users holding user:admin', async () => {
+    createUser('alice', { permissions: [PERMISSIONS.USER_ADMIN] });
+    createUser('bob', { permissions: [PERMISSIONS.USER_ADMIN] });
+    createUser('carol', { isActive: false, permissions: [PERMISSIONS.USER_ADMIN] });
+    createUser('dave', { permissions: [PERMISSIONS.FILE_READ] });
+
+    expect(await countActiveAdmins()).toBe(2);
+    expect(await countActiveAdmins({ excludeUserId: 'alice' })).toBe(1);
+  });
+
+  it('leaves out administrators whose user:admin is denied by an override', async () => {
+    createUser('alice', { permissions: [PERMISSIONS.USER_ADMIN] });
+    denyUserAdmin('bob');
+
+    expect(await countActiveAdmins({ excludeUserId: 'alice' })).toBe(0);
+  });
+
+  it('ignores what the given role grants', async () => {
+    createUser('alice', { permissions: [PERMISSIONS.USER_ADMIN] });
+
+    expect(await countActiveAdmins({ withoutRoleId: 'Test' })).toBe(0);
+    expect(await countActiveAdmins({ withoutRoleId: 'Other' })).toBe(1);
+  });
+});
@@ -0,0 +1,334 @@
+// Permission resolution for the rclone API routes
+// Effective permissions = role grants + per-user overrides (UserPermission), deny always wins
+
+import { PrismaClient } from '@prisma/client';
+import { isCanonicalRemotePath, normalizeRemotePath } from '@/lib/rclone/paths';
+
+const prisma = new PrismaClient();
+
+export const PERMISSIONS = {
+  REMOTE_LIST: 'remote:list',
+  FILE_READ: 'file:read',
+  FILE_DOWNLOAD: 'file:download',
+  FILE_WRITE: 'file:write',
+  FILE_DELETE: 'file:delete',
+  REMOTE_ADMIN: 'remote:admin',
+  USER_ADMIN: 'user:admin',
+} as const;
+
+export type PermissionName = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+// Permission catalogue, used by prisma/seed.ts to populate the Permission table
+export const PERMISSION_CATALOG: { name: PermissionName; resource: string; action: string; description: string }[] = [
+  { name: PERMISSIONS.REMOTE_LIST, resource: 'remote', action: 'list', description: 'See remotes and their storage usage' },
+  { name: PERMISSIONS.FILE_READ, resource: 'file', action: 'read', description: 'Browse directory listings' },
+  { name: PERMISSIONS.FILE_DOWNLOAD, resource: 'file', action: 'download', description: 'Download file contents' },
+  { name: PERMISSIONS.FILE_WRITE, resource: 'file', action: 'write', description: 'Upload, move, copy and rename files' },
+  { name: PERMISSIONS.FILE_DELETE, resource: 'file', action: 'delete', description: 'Delete files and folders' },
+  { name: PERMISSIONS.REMOTE_ADMIN, resource: 'remote', action: 'admin', description: 'Refresh tokens and manage remote configuration' },
+  { name: PERMISSIONS.USER_ADMIN, resource: 'user', action: 'admin', description: 'Manage users, roles and permissions' },
+];
+
+export interface SystemRole {
+  name: string;
+  description: string;
+  permissions: PermissionName[];
+}
+
+// System roles, seeded by prisma/seed.ts with exactly these permissions on every start.
+// They cannot be renamed, edited or deleted; create a custom role for anything else.
+export const SYSTEM_ROLES: SystemRole[] = [
+  {
+    name: 'Administrator',
+    description: 'Full access to every remote and to user management',
+    permissions: PERMISSION_CATALOG.map(permission => permission.name)
+  },
+  {
+    name: 'Editor',
+    description: 'Browse, download, upload, move and delete files on every remote',
+    permissions: [
+      PERMISSIONS.REMOTE_LIST,
+      PERMISSIONS.FILE_READ,
+      PERMISSIONS.FILE_DOWNLOAD,
+      PERMISSIONS.FILE_WRITE,
+      PERMISSIONS.FILE_DELETE
+    ]
+  },
+  {
+    name: 'Viewer',
+    description: 'Browse and download files on every remote',
+    permissions: [PERMISSIONS.REMOTE_LIST, PERMISSIONS.FILE_READ, PERMISSIONS.FILE_DOWNLOAD]
+  },
+];
+
+export interface PermissionOverride {
+  id: string;
+  permission: string;
+  remoteName: string | null;
+  folderPath: string | null;
+  filePath: string | null;
+  granted: boolean;
+}
+
+export interface EffectivePermissions {
+  userId: string;
+  rolePermissions: Set<string>;
+  // Permission name to the names of the roles granting it, for explainAccess
+  roleSources: Map<string, string[]>;
+  overrides: PermissionOverride[];
+}
+
+export interface PermissionScope {
+  remote?: string;
+  path?: string;
+}
+
+function isWithinFolder(path: string, folder: string): boolean {
+  const normalizedFolder = normalizeRemotePath(folder);
+  if (!normalizedFolder) return true;
+  return path === normalizedFolder || path.startsWith(`${normalizedFolder}/`);
+}
+
+// Check whether a user override applies to the requested scope
+function overrideMatches(override: PermissionOverride, scope: PermissionScope): boolean {
+  // Remote-scoped overrides never apply to global checks
+  if (override.remoteName && override.remoteName !== scope.remote) {
+    return false;
+  }
+
+  const isPathScoped = override.folderPath !== null || override.filePath !== null;
+  if (!isPathScoped) {
+    return true;
+  }
+
+  // Remote-level check: a path-scoped grant still makes the remote reachable,
+  // but a path-scoped deny must not hide the whole remote
+  if (scope.path === undefined) {
+    return override.granted;
+  }
+
+  const path = normalizeRemotePath(scope.path);
+  if (override.filePath !== null) {
+    return path === normalizeRemotePath(override.filePath);
+  }
+  return isWithinFolder(path, override.folderPath!);
+}
+
+// Load role grants and user overrides for a user
+export async function getEffectivePermissions(userId: string): Promise<EffectivePermissions> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      userRoles: {
+        include: {
+          role: {
+            include: {
+              rolePermissions: { include: { permission: true } }
+            }
+          }
+        }
+      },
+      permissions: { include: { permission: true } }
+    }
+  });
+
+  if (!user || !user.isActive) {
+    return { userId, rolePermissions: new Set(), roleSources: new Map(), overrides: [] };
+  }
+
+  const rolePermissions = new Set<string>();
+  const roleSources = new Map<string, string[]>();
+  for (const userRole of user.userRoles) {
+    for (const rolePermission of userRole.role.rolePermissions) {
+      const name = rolePermission.permission.name;
+      rolePermissions.add(name);
+      roleSources.set(name, [...(roleSources.get(name) || []), userRole.role.name]);
+    }
+  }
+
+  const overrides = user.permissions.map(userPermission => ({
+    id: userPermission.id,
+    permission: userPermission.permission.name,
+    remoteName: userPermission.remoteName,
+    folderPath: userPermission.folderPath,
+    filePath: userPermission.filePath,
+    granted: userPermission.granted
+  }));
+
+  return { userId, rolePermissions, roleSources, overrides };
+}
+
+// Check a single permission against the resolved grants
+export function hasPermission(
+  permissions: EffectivePermissions,
+  permission: PermissionName,
+  scope: PermissionScope = {}
+): boolean {
+  // Paths with relative segments are refused rather than matched against grants
+  if (scope.path !== undefined && !isCanonicalRemotePath(scope.path)) {
+    return false;
+  }
+
+  const matching = permissions.overrides.filter(
+    override => override.permission === permission && overrideMatches(override, scope)
+  );
+
+  if (matching.some(override => !override.granted)) {
+    return false;
+  }
+
+  return permissions.rolePermissions.has(permission) || matching.length > 0;
+}
+
+// hasPermission for an operation on a whole folder tree (purge, folder move or copy), which also
+// fails when a deny override for the permission lies anywhere below the folder
+export function hasPermissionOnTree(
+  permissions: EffectivePermissions,
+  permission: PermissionName,
+  scope: { remote: string; path: string }
+): boolean {
+  if (!hasPermission(permissions, permission, scope)) {
+    return false;
+  }
+
+  const folder = normalizeRemotePath(scope.path);
+  return !permissions.overrides.some(override =>
+    override.permission === permission &&
+    !override.granted &&
+    (!override.remoteName || override.remoteName === scope.remote) &&
+    [override.folderPath, override.filePath].some(target => target !== null && isWithinFolder(normalizeRemotePath(target), folder))
+  );
+}
+
+// Active users the user:admin check lets through, so role membership alone does not count when a
+// deny override takes the permission away. To check a change before making it, excludeUserId
+// leaves one user out and withoutRoleId ignores what one role grants.
+export async function countActiveAdmins(options: { excludeUserId?: string; withoutRoleId?: string } = {}): Promise<number> {
+  const candidates = await prisma.user.findMany({
+    where: {
+      isActive: true,
+      ...(options.excludeUserId ? { id: { not: options.excludeUserId } } : {}),
+      OR: [
+        { userRoles: { some: { role: { rolePermissions: { some: { permission: { name: PERMISSIONS.USER_ADMIN } } } } } } },
+        { permissions: { some: { granted: true, permission: { name: PERMISSIONS.USER_ADMIN } } } }
+      ]
+    },
+    select: { id: true }
+  });
+  const ignoredRole = options.withoutRoleId
+    ? await prisma.role.findUnique({ where: { id: options.withoutRoleId }, select: { name: true } })
+    : null;
+
+  let count = 0;
+  for (const candidate of candidates) {
+    const permissions = await getEffectivePermissions(candidate.id);
+    if (ignoredRole) {
+      const sources = permissions.roleSources.get(PERMISSIONS.USER_ADMIN) || [];
+      if (sources.every(name => name === ignoredRole.name)) {
+        permissions.rolePermissions.delete(PERMISSIONS.USER_ADMIN);
+      }
+    }
+    if (hasPermission(permissions, PERMISSIONS.USER_ADMIN)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// Keep only the remotes the user holds the given permission on
+export function filterRemotes(
+  permissions: EffectivePermissions,
+  permission: PermissionName,
+  remotes: string[]
+): string[] {
+  return remotes.filter(remote => hasPermission(permissions, permission, { remote }));
+}
+
+// Folders a permission holds from on a remote: [''] when it covers the whole remote,
+// otherwise the outermost granted folders that are not themselves denied
+export function getAccessRoots(
+  permissions: EffectivePermissions,
+  permission: PermissionName,
+  remote: string
+): string[] {
+  if (hasPermission(permissions, permission, { remote, path: '' })) {
+    return [''];
+  }
+
+  const folders = new Set(
+    permissions.overrides
+      .filter(override =>
+        override.permission === permission &&
+        override.granted &&
+        (!override.remoteName || override.remoteName === remote) &&
+        override.folderPath !== null
+      )
+      .map(override => normalizeRemotePath(override.folderPath!))
+      .filter(folder => hasPermission(permissions, permission, { remote, path: folder }))
+  );
+
+  return [...folders]
+    .filter(folder => ![...folders].some(other => other !== folder && isWithinFolder(folder, other)))
+    .sort();
+}
+
+// The granted root containing the path, or null when the path is not accessible.
+// The file browser does not navigate above it.
+export function getAccessRoot(
+  permissions: EffectivePermissions,
+  permission: PermissionName,
+  scope: { remote: string; path: string }
+): string | null {
+  if (!hasPermission(permissions, permission, scope)) {
+    return null;
+  }
+  const path = normalizeRemotePath(scope.path);
+  return getAccessRoots(permissions, permission, scope.remote).find(root => isWithinFolder(path, root)) ?? path;
+}
+
+export interface AccessExplanation {
+  permission: PermissionName;
+  allowed: boolean;
+  // Granted root containing the path, when allowed
+  root: string | null;
+  reasons: string[];
+}
+
+function describeOverride(override: PermissionOverride): string {
+  const target = override.filePath !== null
+    ? `file ${override.filePath}`
+    : override.folderPath !== null
+      ? `folder ${normalizeRemotePath(override.folderPath) || '/'}`
+      : 'everything';
+  return `${override.granted ? 'Granted' : 'Denied'} by user override on ${override.remoteName || 'all remotes'}: ${target}`;
+}
+
+// Explain the outcome of hasPermission for a path: which roles and overrides matched.
+// Denies are listed first because any matching deny decides the result.
+export function explainAccess(
+  permissions: EffectivePermissions,
+  permission: PermissionName,
+  scope: { remote: string; path: string }
+): AccessExplanation {
+  const allowed = hasPermission(permissions, permission, scope);
+  const matching = permissions.overrides.filter(
+    override => override.permission === permission && overrideMatches(override, scope)
+  );
+  const roles = permissions.roleSources.get(permission) || [];
+
+  const reasons = [
+    ...matching.filter(override => !override.granted).map(describeOverride),
+    ...(roles.length > 0 ? [`Granted by role ${roles.join(', ')}`] : []),
+    ...matching.filter(override => override.granted).map(describeOverride)
+  ];
+  if (reasons.length === 0) {
+    reasons.push('No role or user override grants this permission');
+  }
+
+  return {
+    permission,
+    allowed,
+    root: allowed ? getAccessRoot(permissions, permission, scope) : null,
+    reasons
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RcloneClient, RcloneUnreachableError } from '@/lib/rclone/client';
+
+function connectionError(code: string) {
+  return Object.assign(new TypeError('fetch failed'), { cause: { code } });
+}
+
+function client() {
+  return new RcloneClient({ baseUrl: 'http://rclone.test', retry: { retries: 2, initialDelayMs: 0, maxDelayMs: 0 } });
+}
+
+describe('RcloneClient.call retries', () => {
+  it('retries a refused connection for any call', async () => {
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(connectionError('ECONNREFUSED'))
+      .mockResolvedValueOnce(Response.json({ jobid: 7 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(client().call('operations/purge', { fs: 'gdrive:', remote: 'old' })).resolves.toEqual({ jobid: 7 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not repeat a non-idempotent call after a dropped connection', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(connectionError('ECONNRESET'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(client().call('operations/purge', { fs: 'gdrive:', remote: 'old' }))
+      .rejects.toBeInstanceOf(RcloneUnreachableError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('repeats an idempotent call after a dropped connection', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(connectionError('ECONNRESET'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(client().call('core/version', {}, { idempotent: true })).rejects.toBeInstanceOf(RcloneUnreachableError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
@@ -1,73 +1,548 @@
-// rclone RC API client
+// rclone RC API client shared by every route and background service
+// All calls go through RcloneClient.call, which applies timeouts, retries transient failures,
+// traces requests and turns rclone's error responses into the typed errors below.
+
+import { normalizeRemotePath } from '@/lib/rclone/paths';
+import type { FileItem } from '@/lib/types/files';
+
+const DEFAULT_TIMEOUT = 10000;
+
+// ---------------------------------------------------------------------------
+// Errors
+
+export class RcloneError extends Error {
+  constructor(message: string, public endpoint: string, public status?: number) {
+    super(message);
+    this.name = 'RcloneError';
+  }
+}
+
+// The remote's OAuth token is expired or revoked and could not be refreshed
+export class RcloneTokenExpiredError extends RcloneError {
+  constructor(message: string, endpoint: string, status?: number) {
+    super(message, endpoint, status);
+    this.name = 'RcloneTokenExpiredError';
+  }
+}
+
+// The object, directory, remote or job does not exist
+export class RcloneNotFoundError extends RcloneError {
+  constructor(message: string, endpoint: string, status?: number) {
+    super(message, endpoint, status);
+    this.name = 'RcloneNotFoundError';
+  }
+}
+
+// The daemon could not be reached or the connection failed. Only a refused connection proves
+// the request never ran; after a reset rclone may already have started it.
+export class RcloneUnreachableError extends RcloneError {
+  constructor(message: string, endpoint: string, public refused: boolean = false) {
+    super(message, endpoint);
+    this.name = 'RcloneUnreachableError';
+  }
+}
+
+// The daemon rejected RRList's RC credentials
+export class RcloneAuthError extends RcloneError {
+  constructor(message: string, endpoint: string, status?: number) {
+    super(message, endpoint, status);
+    this.name = 'RcloneAuthError';
+  }
+}
+
+export class RcloneTimeoutError extends RcloneError {
+  constructor(message: string, endpoint: string) {
+    super(message, endpoint);
+    this.name = 'RcloneTimeoutError';
+  }
+}
+
+export function isTokenErrorMessage(message: string): boolean {
+  return message.includes('invalid_grant') ||
+    message.includes('token expired') ||
+    message.includes("couldn't fetch token");
+}
+
+// ---------------------------------------------------------------------------
+// Options
+
+export interface RetryPolicy {
+  // Extra attempts after the first one
+  retries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  factor: number;
+}
+
+export interface CallOptions {
+  timeout?: number;
+  // Overrides the client's policy for this call; false disables retries
+  retry?: Partial<RetryPolicy> | false;
+  // Safe to repeat after a timeout or a dropped connection. A refused connection is always
+  // retried, since the request never reached rclone; other failures only for reads.
+  idempotent?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface TraceEvent {
+  id: number;
+  endpoint: string;
+  attempt: number;
+  durationMs: number;
+  status?: number;
+  error?: string;
+}
+
+export interface RcloneClientOptions {
+  baseUrl?: string;
+  // Basic auth for a daemon started with --rc-user/--rc-pass or --rc-htpasswd
+  username?: string;
+  password?: string;
+  timeout?: number;
+  retry?: Partial<RetryPolicy>;
+  onTrace?: (event: TraceEvent) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Response types
+
+export interface RcloneAbout {
+  total?: number;
+  used?: number;
+  free?: number;
+  trashed?: number;
+  other?: number;
+  objects?: number;
+}
+
+export interface RcloneListOptions {
+  recurse?: boolean;
+  noModTime?: boolean;
+  noMimeType?: boolean;
+  dirsOnly?: boolean;
+  filesOnly?: boolean;
+  showHash?: boolean;
+  showEncrypted?: boolean;
+  showOrigIDs?: boolean;
+  metadata?: boolean;
+}
+
+export interface RcloneTransfer {
+  name: string;
+  size: number;
+  bytes: number;
+  percentage?: number;
+  speed?: number;
+  speedAvg?: number;
+  eta?: number | null;
+  group?: string;
+  error?: string;
+  completed_at?: string;
+  started_at?: string;
+  checked?: boolean;
+  srcFs?: string;
+  dstFs?: string;
+}
+
+export interface RcloneStats {
+  bytes: number;
+  checks: number;
+  deletes: number;
+  elapsedTime: number;
+  errors: number;
+  eta?: number | null;
+  fatalError: boolean;
+  lastError?: string;
+  renames: number;
+  retryError: boolean;
+  speed: number;
+  totalBytes: number;
+  totalChecks: number;
+  totalTransfers: number;
+  transferTime: number;
+  transfers: number;
+  transferring?: RcloneTransfer[];
+  checking?: string[];
+}
+
+export interface RcloneJobStatus {
+  id: number;
+  group: string;
+  startTime: string;
+  endTime?: string;
+  duration: number;
+  finished: boolean;
+  success: boolean;
+  error: string;
+  output?: Record<string, unknown>;
+}
+
+export interface RcloneBwLimit {
+  rate: string;
+  bytesPerSecond: number;
+  // Only reported by rclone versions with separate upload/download limits
+  bytesPerSecondTx?: number;
+  bytesPerSecondRx?: number;
+}
+
+export interface RcloneConfigOptions {
+  obscure?: boolean;
+  noObscure?: boolean;
+  nonInteractive?: boolean;
+  continue?: boolean;
+  all?: boolean;
+  state?: string;
+  result?: string;
+}
+
+export interface RcloneProviderOption {
+  Name: string;
+  Help: string;
+  Provider?: string;
+  Default?: unknown;
+  DefaultStr?: string;
+  Type?: string;
+  Hide?: number;
+  Required?: boolean;
+  IsPassword?: boolean;
+  Sensitive?: boolean;
+  Advanced?: boolean;
+  Exclusive?: boolean;
+  Examples?: { Value: string; Help: string; Provider?: string }[];
+}
+
+export interface RcloneProvider {
+  Name: string;
+  Description: string;
+  Prefix: string;
+  Options: RcloneProviderOption[];
+}
+
+// ---------------------------------------------------------------------------
+// Client
+
+function readRetryEnv(): RetryPolicy {
+  return {
+    retries: Math.max(0, parseInt(process.env.RCLONE_RC_RETRIES || '2', 10) || 0),
+    initialDelayMs: parseInt(process.env.RCLONE_RC_RETRY_DELAY_MS || '500', 10) || 500,
+    maxDelayMs: 5000,
+    factor: 2
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+// AbortSignal.any is not available on Node 18
+function withTimeout(timeout: number, parent?: AbortSignal) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new RcloneTimeoutError('', '')), timeout);
+  const onAbort = () => controller.abort(parent!.reason);
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+  return {
+    signal: controller.signal,
+    timedOut: () => controller.signal.reason instanceof RcloneTimeoutError,
+    done: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+// Turn a failed fetch into an unreachable error (retried, see call) or, for certificate problems, a plain
+// RcloneError (not retried, since it will fail the same way every time)
+function toConnectionError(error: unknown, baseUrl: string, endpoint: string): RcloneError | null {
+  if (!(error instanceof Error)) return null;
+  const cause = (error as Error & { cause?: { code?: string; message?: string } }).cause;
+  const code = cause?.code || '';
+
+  if (/CERT|SELF_SIGNED|SSL|TLS|ERR_SSL/.test(code)) {
+    return new RcloneError(
+      `TLS connection to rclone daemon at ${baseUrl} failed (${code}); set RCLONE_RC_CA to the daemon's CA certificate`,
+      endpoint
+    );
+  }
+  if (['ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'ENOTFOUND', 'EAI_AGAIN'].includes(code) ||
+      error.message.includes('ECONNREFUSED') ||
+      (error.name === 'TypeError' && error.message === 'fetch failed')) {
+    const refused = code === 'ECONNREFUSED' || error.message.includes('ECONNREFUSED');
+    return new RcloneUnreachableError(`Cannot connect to rclone daemon at ${baseUrl}${code ? ` (${code})` : ''}`, endpoint, refused);
+  }
+  return null;
+}
+
+let requestCounter = 0;
+
 export class RcloneClient {
-  private baseUrl: string;
+  readonly baseUrl: string;
+  private timeout: number;
+  private retry: RetryPolicy;
+  private onTrace?: (event: TraceEvent) => void;
+  private authorization?: string;
 
-  constructor(baseUrl: string = 'http://localhost:5572') {
-    this.baseUrl = baseUrl;
+  constructor(options: RcloneClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || process.env.RCLONE_RC_URL || 'http://127.0.0.1:5572').replace(/\/$/, '');
+    const username = options.username ?? process.env.RCLONE_RC_USER ?? '';
+    const password = options.password ?? process.env.RCLONE_RC_PASS ?? '';
+    if (username) {
+      this.authorization = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+    }
+    this.timeout = options.timeout || DEFAULT_TIMEOUT;
+    this.retry = { ...readRetryEnv(), ...options.retry };
+    this.onTrace = options.onTrace || (process.env.RCLONE_RC_TRACE === '1'
+      ? (event) => console.log(
+          `🔌 rclone #${event.id} ${event.endpoint} attempt ${event.attempt}: ` +
+          `${event.error ? `failed (${event.error})` : event.status} in ${event.durationMs}ms`
+        )
+      : undefined);
+  }
+
+  // Credentials go on every request, JSON calls and serve URLs alike
+  private withAuth(headers?: HeadersInit): Headers {
+    const result = new Headers(headers);
+    if (this.authorization) {
+      result.set('Authorization', this.authorization);
+    }
+    return result;
   }
 
-  private async request(endpoint: string, options: any = {}) {
-    const url = `${this.baseUrl}/${endpoint}`;
-    
+  // Map a non-2xx rclone response to the error hierarchy
+  private toError(endpoint: string, status: number, message: string): RcloneError {
+    if (status === 401 || status === 403) {
+      return new RcloneAuthError(
+        this.authorization
+          ? 'rclone daemon rejected the RC credentials; check RCLONE_RC_USER and RCLONE_RC_PASS'
+          : 'rclone daemon requires authentication; set RCLONE_RC_USER and RCLONE_RC_PASS',
+        endpoint,
+        status
+      );
+    }
+    if (isTokenErrorMessage(message)) {
+      return new RcloneTokenExpiredError(message, endpoint, status);
+    }
+    if (status === 404 || message.includes('not found')) {
+      return new RcloneNotFoundError(message, endpoint, status);
+    }
+    return new RcloneError(message, endpoint, status);
+  }
+
+  private async attempt<T>(id: number, endpoint: string, params: object, attempt: number, options: CallOptions): Promise<T> {
+    const started = Date.now();
+    const timer = withTimeout(options.timeout || this.timeout, options.signal);
+    const trace = (event: Partial<TraceEvent>) => this.onTrace?.({
+      id, endpoint, attempt, durationMs: Date.now() - started, ...event
+    });
+
     try {
-      const response = await fetch(url, {
+      const response = await fetch(`${this.baseUrl}/${endpoint}`, {
         method: 'POST',
-        headers: {
+        headers: this.withAuth({
           'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(options),
+        }),
+        body: JSON.stringify(params),
+        signal: timer.signal,
       });
 
+      trace({ status: response.status });
+
       if (!response.ok) {
-        throw new Error(`rclone API error: ${response.status} ${response.statusText}`);
+        const errorData = await response.json().catch(() => ({}));
+        throw this.toError(endpoint, response.status, errorData.error || `rclone RC API error: ${response.status} ${response.statusText}`);
       }
 
-      return await response.json();
+      return await response.json() as T;
     } catch (error) {
-      console.error('rclone API request failed:', error);
+      if (error instanceof RcloneError) {
+        throw error;
+      }
+      if (timer.timedOut()) {
+        trace({ error: 'timeout' });
+        throw new RcloneTimeoutError(`rclone did not answer ${endpoint} within ${(options.timeout || this.timeout) / 1000}s`, endpoint);
+      }
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      const connectionError = toConnectionError(error, this.baseUrl, endpoint);
+      if (connectionError) {
+        trace({ error: connectionError.message });
+        throw connectionError;
+      }
+      trace({ error: error instanceof Error ? error.message : 'unknown' });
       throw error;
+    } finally {
+      timer.done();
     }
   }
 
-  // List all configured remotes
-  async listRemotes(): Promise<string[]> {
-    try {
-      const result = await this.request('config/listremotes');
-      return result.remotes || [];
-    } catch (error) {
-      console.error('Failed to list remotes:', error);
-      return [];
+  // Call any RC endpoint; the typed helpers below cover the ones RRList uses
+  async call<T = Record<string, unknown>>(endpoint: string, params: object = {}, options: CallOptions = {}): Promise<T> {
+    const policy = options.retry === false ? { ...this.retry, retries: 0 } : { ...this.retry, ...options.retry };
+    const id = ++requestCounter;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.attempt<T>(id, endpoint, params, attempt, options);
+      } catch (error) {
+        const retryable = error instanceof RcloneUnreachableError
+          ? error.refused || !!options.idempotent
+          : error instanceof RcloneTimeoutError && !!options.idempotent;
+        if (!retryable || attempt > policy.retries || options.signal?.aborted) {
+          throw error;
+        }
+        const delay = Math.min(policy.initialDelayMs * Math.pow(policy.factor, attempt - 1), policy.maxDelayMs);
+        await sleep(delay, options.signal);
+      }
     }
   }
 
-  // Get remote info
-  async getRemoteInfo(remote: string): Promise<any> {
+  // Raw response from the --rc-serve file endpoint ([remote:]/path), for streaming file contents
+  async serve(remote: string, path: string, init: RequestInit = {}): Promise<Response> {
+    const encodedPath = normalizeRemotePath(path).split('/').map(encodeURIComponent).join('/');
+    const endpoint = `[${remote}:]/${encodedPath}`;
+    const started = Date.now();
+    const id = ++requestCounter;
+
     try {
-      const result = await this.request('config/get', { 
-        name: remote 
-      });
-      return result;
+      const response = await fetch(`${this.baseUrl}/${endpoint}`, { ...init, headers: this.withAuth(init.headers) });
+      this.onTrace?.({ id, endpoint, attempt: 1, durationMs: Date.now() - started, status: response.status });
+      if (response.status === 401 || response.status === 403) {
+        await response.body?.cancel();
+        throw this.toError(endpoint, response.status, response.statusText);
+      }
+      return response;
     } catch (error) {
-      console.error(`Failed to get remote info for ${remote}:`, error);
-      return null;
+      throw toConnectionError(error, this.baseUrl, endpoint) || error;
     }
   }
 
-  // List directory contents
-  async listDirectory(remote: string, path: string = ''): Promise<any[]> {
-    try {
-      const remotePath = path ? `${remote}:${path}` : `${remote}:`;
-      const result = await this.request('operations/list', {
-        fs: remotePath,
-        remote: ''
-      });
-      return result.list || [];
-    } catch (error) {
-      console.error(`Failed to list directory ${remote}:${path}:`, error);
-      return [];
-    }
+  // core/*
+
+  version(options: CallOptions = {}) {
+    return this.call<{ version: string; decomposed: number[]; os: string; arch: string }>('core/version', {}, { timeout: 5000, idempotent: true, ...options });
+  }
+
+  stats(group?: string, options: CallOptions = {}) {
+    return this.call<RcloneStats>('core/stats', group ? { group } : {}, { timeout: 5000, idempotent: true, ...options });
+  }
+
+  transferred(group?: string, options: CallOptions = {}) {
+    return this.call<{ transferred: RcloneTransfer[] }>('core/transferred', group ? { group } : {}, { timeout: 5000, idempotent: true, ...options });
+  }
+
+  groupList(options: CallOptions = {}) {
+    return this.call<{ groups: string[] }>('core/group-list', {}, { timeout: 5000, idempotent: true, ...options });
+  }
+
+  statsReset(group?: string) {
+    return this.call('core/stats-reset', group ? { group } : {}, { timeout: 5000 });
+  }
+
+  bwlimit(rate?: string) {
+    return this.call<RcloneBwLimit>('core/bwlimit', rate ? { rate } : {}, { timeout: 5000, idempotent: true });
+  }
+
+  command(command: string, arg: string[], opt: Record<string, string> = {}, options: CallOptions = {}) {
+    return this.call<{ result: string; error: boolean }>('core/command', { command, arg, opt }, { timeout: 30000, ...options });
+  }
+
+  fscacheClear() {
+    return this.call('fscache/clear', {}, { timeout: 5000 });
+  }
+
+  // config/*
+
+  async listRemotes(options: CallOptions = {}): Promise<string[]> {
+    const data = await this.call<{ remotes?: string[] }>('config/listremotes', {}, { timeout: 5000, idempotent: true, ...options });
+    return data.remotes || [];
+  }
+
+  // Raw config section, secrets included; never send it to the browser as is
+  getRemoteConfig(name: string, options: CallOptions = {}) {
+    return this.call<Record<string, string>>('config/get', { name }, { timeout: 5000, idempotent: true, ...options });
+  }
+
+  async providers(): Promise<RcloneProvider[]> {
+    const data = await this.call<{ providers?: RcloneProvider[] }>('config/providers', {}, { idempotent: true });
+    return data.providers || [];
+  }
+
+  createRemote(name: string, type: string, parameters: Record<string, string>, opt: RcloneConfigOptions = {}) {
+    return this.call('config/create', { name, type, parameters, opt }, { timeout: 30000 });
+  }
+
+  updateRemote(name: string, parameters: Record<string, string>, opt: RcloneConfigOptions = {}) {
+    return this.call('config/update', { name, parameters, opt }, { timeout: 30000 });
+  }
+
+  deleteRemote(name: string) {
+    return this.call('config/delete', { name }, { timeout: 5000 });
+  }
+
+  // operations/*
+
+  // Entries below a directory; their Path is relative to that directory
+  async list(remote: string, dir: string, opt: RcloneListOptions = {}, options: CallOptions = {}): Promise<FileItem[]> {
+    const data = await this.call<{ list?: FileItem[] }>('operations/list', {
+      fs: dir ? `${remote}:${dir}` : `${remote}:`,
+      remote: '',
+      opt
+    }, { idempotent: true, ...options });
+    return data.list || [];
+  }
+
+  // The item at a path, or null when nothing exists there
+  async stat(remote: string, path: string, opt: RcloneListOptions = {}, options: CallOptions = {}): Promise<FileItem | null> {
+    const data = await this.call<{ item?: FileItem | null }>('operations/stat', {
+      fs: `${remote}:`,
+      remote: path,
+      opt
+    }, { idempotent: true, ...options });
+    return data.item || null;
+  }
+
+  about(remote: string, options: CallOptions = {}) {
+    return this.call<RcloneAbout>('operations/about', { fs: `${remote}:` }, { idempotent: true, ...options });
+  }
+
+  deleteFile(remote: string, path: string, options: CallOptions = {}) {
+    return this.call('operations/deletefile', { fs: `${remote}:`, remote: path }, { timeout: 30000, ...options });
+  }
+
+  rmdir(remote: string, path: string, options: CallOptions = {}) {
+    return this.call('operations/rmdir', { fs: `${remote}:`, remote: path }, { timeout: 30000, ...options });
+  }
+
+  // Submit any endpoint as an rclone job; returns the rclone job id
+  async startJob(endpoint: string, params: object): Promise<number> {
+    const data = await this.call<{ jobid: number }>(endpoint, { ...params, _async: true });
+    return data.jobid;
+  }
+
+  // job/*
+
+  jobStatus(jobid: number, options: CallOptions = {}) {
+    return this.call<RcloneJobStatus>('job/status', { jobid }, { timeout: 5000, idempotent: true, ...options });
+  }
+
+  jobList(options: CallOptions = {}) {
+    return this.call<{ jobids: number[]; executeId?: string }>('job/list', {}, { timeout: 5000, idempotent: true, ...options });
+  }
+
+  jobStop(jobid: number) {
+    return this.call('job/stop', { jobid }, { timeout: 5000 });
   }
 }
 
 // Default client instance
-export const rcloneClient = new RcloneClient();
\ No newline at end of file
+export const rcloneClient = new RcloneClient();
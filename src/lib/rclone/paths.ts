@@ -0,0 +1,36 @@
+// Path helpers for paths inside a remote (the part after "remote:")
+
+// Strip leading and trailing slashes
+export function normalizeRemotePath(path: string): string {
+  return path.replace(/^\/+|\/+$/g, '');
+}
+
+export function joinRemotePath(dir: string, name: string): string {
+  const cleanDir = normalizeRemotePath(dir);
+  return cleanDir ? `${cleanDir}/${name}` : name;
+}
+
+// Parent directory of a path ('' for top-level entries)
+export function parentRemotePath(path: string): string {
+  const cleanPath = normalizeRemotePath(path);
+  const index = cleanPath.lastIndexOf('/');
+  return index === -1 ? '' : cleanPath.slice(0, index);
+}
+
+// Reject names that could escape the target directory
+export function isValidFileName(name: string): boolean {
+  return !!name && name !== '.' && name !== '..' && !name.includes('/') && !name.includes('\\');
+}
+
+// No '.', '..' or empty segments. Serve URLs go through fetch, which collapses '..', so
+// 'a/../b' would otherwise be checked as a path below 'a' but read from 'b'.
+export function isCanonicalRemotePath(path: string): boolean {
+  const cleanPath = normalizeRemotePath(path);
+  return !cleanPath || cleanPath.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+// A path that points at an entry below the remote root, without relative segments
+export function isSafeRemotePath(path: string): boolean {
+  const cleanPath = normalizeRemotePath(path);
+  return !!cleanPath && cleanPath.split('/').every(segment => isValidFileName(segment));
+}
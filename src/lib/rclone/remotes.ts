@@ -0,0 +1,43 @@
+// Validation of remote names taken from requests
+// Routes build "remote:path" strings from the name, so anything other than a configured remote
+// could select an on-the-fly backend (":local") or a connection string ("name,opt=value") and
+// reach the container filesystem, bypassing remote-scoped deny overrides on the way.
+
+import { rcloneClient } from '@/lib/rclone/client';
+
+// Remotes change only through the admin console, which clears the cache
+const REMOTES_CACHE_TTL = 60 * 1000;
+
+declare global {
+  var configuredRemotesCache: { remotes: string[]; fetchedAt: number } | undefined;
+}
+
+export async function getConfiguredRemotes(): Promise<string[]> {
+  const cache = global.configuredRemotesCache;
+  if (cache && Date.now() - cache.fetchedAt < REMOTES_CACHE_TTL) {
+    return cache.remotes;
+  }
+
+  try {
+    const remotes = await rcloneClient.listRemotes();
+    global.configuredRemotesCache = { remotes, fetchedAt: Date.now() };
+    return remotes;
+  } catch (error) {
+    // A stale list is still a list of real remotes
+    if (cache) {
+      return cache.remotes;
+    }
+    throw error;
+  }
+}
+
+export function clearConfiguredRemotesCache() {
+  global.configuredRemotesCache = undefined;
+}
+
+export async function isConfiguredRemote(remote: unknown): Promise<boolean> {
+  if (typeof remote !== 'string' || !remote || remote.includes(':') || remote.includes(',')) {
+    return false;
+  }
+  return (await getConfiguredRemotes()).includes(remote);
+}
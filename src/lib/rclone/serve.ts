@@ -0,0 +1,65 @@
+// Helpers for rclone's --rc-serve file endpoint ([remote:]/path)
+
+// Content-Disposition header shared by every download response
+export function contentDisposition(filename: string, type: 'attachment' | 'inline' = 'attachment'): string {
+  return `${type}; filename="${encodeURIComponent(filename)}"`;
+}
+
+// Abort a serve request once no bytes have arrived for `idleMs`, instead of
+// capping the total duration; large transfers can run as long as data flows
+export function createIdleTimeout(idleMs: number, parent?: AbortSignal) {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      controller.abort(new Error(`No data received for ${idleMs / 1000}s`));
+    }, idleMs);
+  };
+
+  parent?.addEventListener('abort', () => controller.abort(parent.reason), { once: true });
+  controller.signal.addEventListener('abort', () => clearTimeout(timer), { once: true });
+  touch();
+
+  return {
+    signal: controller.signal,
+    // Pass the body through, re-arming the timer on every chunk
+    track(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+      touch();
+      return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, stream) {
+          touch();
+          stream.enqueue(chunk);
+        },
+        flush() {
+          clearTimeout(timer);
+        }
+      }));
+    }
+  };
+}
+
+// Buffer a whole body, or return null (and stop the transfer) as soon as more than maxBytes has
+// arrived. Content-Length may be missing or wrong, so the bytes themselves are counted.
+export async function readBodyWithLimit(body: ReadableStream<Uint8Array> | null, maxBytes: number): Promise<Buffer | null> {
+  if (!body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks);
+    }
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+}
@@ -0,0 +1,179 @@
+// Remote configuration management through rclone's config/* endpoints
+// Changes land in the daemon's config file, which entrypoint.sh syncs back to /config/rclone.conf.
+// Secret options (passwords, tokens, keys) are write-only: they are never returned to the browser,
+// only whether a value is set.
+
+import { rcloneClient, RcloneProviderOption } from '@/lib/rclone/client';
+import { clearConfiguredRemotesCache } from '@/lib/rclone/remotes';
+
+// rclone remote names: letters, digits, _ - . + @ and spaces, not starting with - or a space
+const REMOTE_NAME_PATTERN = /^[\w.+@][\w.+@\- ]*$/;
+// Option.Hide bit set for options the interactive configurator does not ask for
+const HIDE_CONFIGURATOR = 2;
+
+export interface ProviderOptionExample {
+  value: string;
+  help: string;
+  provider: string;
+}
+
+export interface ProviderOption {
+  name: string;
+  help: string;
+  provider: string;
+  default: string;
+  type: string;
+  required: boolean;
+  advanced: boolean;
+  exclusive: boolean;
+  secret: boolean;
+  examples: ProviderOptionExample[];
+}
+
+export interface Provider {
+  name: string;
+  description: string;
+  options: ProviderOption[];
+}
+
+export interface RemoteConfig {
+  name: string;
+  type: string;
+  // Non-secret options as stored in the config file
+  values: Record<string, string>;
+  // Secret options that currently have a value
+  secretsSet: string[];
+}
+
+declare global {
+  var rcloneProvidersCache: Provider[] | undefined;
+}
+
+export function isValidRemoteName(name: string): boolean {
+  return REMOTE_NAME_PATTERN.test(name) && !name.endsWith(' ');
+}
+
+function isSecretOption(option: RcloneProviderOption): boolean {
+  return !!option.IsPassword || !!option.Sensitive || option.Name === 'token';
+}
+
+// Backend option schemas; they only change when rclone is upgraded, so keep them for the process lifetime
+export async function getProviders(): Promise<Provider[]> {
+  if (global.rcloneProvidersCache) {
+    return global.rcloneProvidersCache;
+  }
+
+  const providers: Provider[] = (await rcloneClient.providers())
+    .map(provider => ({
+      name: provider.Name,
+      description: provider.Description || '',
+      options: (provider.Options || [])
+        .filter(option => !((option.Hide || 0) & HIDE_CONFIGURATOR))
+        .map(option => ({
+          name: option.Name,
+          help: option.Help || '',
+          provider: option.Provider || '',
+          default: option.DefaultStr ?? '',
+          type: option.Type || 'string',
+          required: !!option.Required,
+          advanced: !!option.Advanced,
+          exclusive: !!option.Exclusive,
+          secret: isSecretOption(option),
+          examples: (option.Examples || []).map(example => ({
+            value: String(example.Value ?? ''),
+            help: example.Help || '',
+            provider: example.Provider || ''
+          }))
+        }))
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  global.rcloneProvidersCache = providers;
+  return providers;
+}
+
+export async function getProvider(type: string): Promise<Provider | undefined> {
+  return (await getProviders()).find(provider => provider.name === type);
+}
+
+export async function listRemoteNames(): Promise<string[]> {
+  return rcloneClient.listRemotes();
+}
+
+// A remote's configuration with secrets reduced to "is set". Options of unknown backends are
+// treated as secret, since there is no schema to say otherwise.
+export async function getRemoteConfig(name: string): Promise<RemoteConfig | null> {
+  const data = await rcloneClient.getRemoteConfig(name);
+  if (!data || !data.type) {
+    return null;
+  }
+
+  const provider = await getProvider(data.type);
+  const publicOptions = new Set(provider?.options.filter(option => !option.secret).map(option => option.name) || []);
+  const values: Record<string, string> = {};
+  const secretsSet: string[] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    if (key === 'type') continue;
+    if (publicOptions.has(key)) {
+      values[key] = String(value);
+    } else if (value !== '') {
+      secretsSet.push(key);
+    }
+  }
+
+  return { name, type: data.type, values, secretsSet };
+}
+
+// Keep only options the backend knows; blank secrets mean "leave unchanged"
+async function cleanParameters(type: string, parameters: Record<string, unknown>): Promise<Record<string, string>> {
+  const provider = await getProvider(type);
+  if (!provider) {
+    throw new Error(`Unknown backend type: ${type}`);
+  }
+
+  const cleaned: Record<string, string> = {};
+  for (const option of provider.options) {
+    const value = parameters[option.name];
+    if (value === undefined || value === null) continue;
+    const text = String(value);
+    if (option.secret && text === '') continue;
+    cleaned[option.name] = text;
+  }
+  return cleaned;
+}
+
+// Returns the names of required options that are missing
+export async function missingRequiredOptions(type: string, parameters: Record<string, string>, existing: string[] = []): Promise<string[]> {
+  const provider = await getProvider(type);
+  if (!provider) return [];
+  const provided = new Set([...existing, ...Object.keys(parameters).filter(key => parameters[key] !== '')]);
+  return provider.options
+    .filter(option => option.required && !option.advanced && !option.default && !option.provider)
+    .map(option => option.name)
+    .filter(name => !provided.has(name));
+}
+
+// Passwords are obscured by rclone; OAuth backends are created without running the browser flow
+export async function createRemote(name: string, type: string, parameters: Record<string, unknown>): Promise<string[]> {
+  const cleaned = await cleanParameters(type, parameters);
+  await rcloneClient.createRemote(name, type, cleaned, { obscure: true, nonInteractive: true });
+  clearConfiguredRemotesCache();
+  return Object.keys(cleaned);
+}
+
+export async function updateRemote(name: string, type: string, parameters: Record<string, unknown>): Promise<string[]> {
+  const cleaned = await cleanParameters(type, parameters);
+  await rcloneClient.updateRemote(name, cleaned, { obscure: true, nonInteractive: true });
+  return Object.keys(cleaned);
+}
+
+export async function deleteRemote(name: string) {
+  await rcloneClient.deleteRemote(name);
+  clearConfiguredRemotesCache();
+
+  // Drop the remote from the storage cache so it disappears before the next background check
+  if (global.storageCache?.[name]) {
+    delete global.storageCache[name];
+  }
+}
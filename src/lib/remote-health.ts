@@ -0,0 +1,166 @@
+// Remote health checks with persisted state and history
+// Each check probes the remote with operations/about and reads the OAuth token from config/get,
+// so tokens that are about to lapse are flagged before listings start failing.
+
+import { PrismaClient, RemoteHealth } from '@prisma/client';
+import { rcloneClient, RcloneTimeoutError, RcloneTokenExpiredError } from '@/lib/rclone/client';
+
+const prisma = new PrismaClient();
+
+// How far ahead a token without a refresh token is reported as expiring
+const TOKEN_EXPIRY_WARNING = (parseInt(process.env.TOKEN_EXPIRY_WARNING_HOURS || '24', 10) || 24) * 60 * 60 * 1000;
+const HEALTH_HISTORY_DAYS = parseInt(process.env.HEALTH_HISTORY_DAYS || '30', 10) || 30;
+// Access tokens are refreshed on use; one still this far past expiry after a successful probe is not refreshing
+const REFRESH_GRACE = 2 * 60 * 60 * 1000;
+
+export type HealthStatus = 'healthy' | 'expiring' | 'token_expired' | 'error';
+
+export interface HealthResult {
+  remote: string;
+  status: HealthStatus;
+  error: string | null;
+  latencyMs: number | null;
+  tokenExpiry: Date | null;
+  hasRefreshToken: boolean;
+}
+
+// The token field is oauth2.Token JSON; remotes without one are not OAuth remotes
+async function readToken(remote: string): Promise<{ expiry: Date | null; hasRefreshToken: boolean } | null> {
+  const config = await rcloneClient.getRemoteConfig(remote);
+  if (!config?.token) {
+    return null;
+  }
+
+  try {
+    const token = JSON.parse(config.token);
+    const expiry = token.expiry ? new Date(token.expiry) : null;
+    return {
+      expiry: expiry && !isNaN(expiry.getTime()) && expiry.getFullYear() > 1 ? expiry : null,
+      hasRefreshToken: !!token.refresh_token
+    };
+  } catch (error) {
+    console.error(`Unreadable token for ${remote}:`, error);
+    return { expiry: null, hasRefreshToken: false };
+  }
+}
+
+// Probe a remote; backends without about support fall back to listing the root
+export async function probeRemote(remote: string): Promise<HealthResult> {
+  const started = Date.now();
+  let status: HealthStatus = 'healthy';
+  let error: string | null = null;
+  let latencyMs: number | null = null;
+
+  try {
+    try {
+      // A slow remote is reported as such rather than retried
+      await rcloneClient.about(remote, { timeout: 15000, idempotent: false });
+    } catch (aboutError) {
+      const message = aboutError instanceof Error ? aboutError.message : '';
+      if (aboutError instanceof RcloneTokenExpiredError || !message.includes('not supported')) {
+        throw aboutError;
+      }
+      await rcloneClient.list(remote, '', { dirsOnly: true }, { timeout: 15000, idempotent: false });
+    }
+    latencyMs = Date.now() - started;
+  } catch (probeError) {
+    error = probeError instanceof Error ? probeError.message : 'Unknown error';
+    if (probeError instanceof RcloneTimeoutError) {
+      error = 'Remote connection timeout';
+    }
+    status = probeError instanceof RcloneTokenExpiredError ? 'token_expired' : 'error';
+  }
+
+  // Read the token after probing, since a successful probe may have refreshed it
+  const token = await readToken(remote).catch(() => null);
+  if (status === 'healthy' && token?.expiry) {
+    const remaining = token.expiry.getTime() - Date.now();
+    if (!token.hasRefreshToken && remaining < TOKEN_EXPIRY_WARNING) {
+      status = remaining > 0 ? 'expiring' : 'token_expired';
+      error = remaining > 0
+        ? 'Token has no refresh token and expires soon'
+        : 'Token has no refresh token and has expired';
+    } else if (token.hasRefreshToken && remaining < -REFRESH_GRACE) {
+      status = 'expiring';
+      error = 'Token is not being refreshed';
+    }
+  }
+
+  return {
+    remote,
+    status,
+    error,
+    latencyMs,
+    tokenExpiry: token?.expiry || null,
+    hasRefreshToken: !!token?.hasRefreshToken
+  };
+}
+
+// Store a check result; returns the new state and the status it replaced
+export async function recordHealth(result: HealthResult): Promise<{ health: RemoteHealth; previousStatus: string | null }> {
+  const now = new Date();
+  const previous = await prisma.remoteHealth.findUnique({ where: { remote: result.remote } });
+  const statusChanged = previous?.status !== result.status;
+
+  const data = {
+    status: result.status,
+    error: result.error,
+    tokenExpiry: result.tokenExpiry,
+    hasRefreshToken: result.hasRefreshToken,
+    lastCheckedAt: now,
+    ...(result.status === 'healthy' ? { lastHealthyAt: now } : {}),
+    ...(statusChanged ? { alertedAt: null } : {})
+  };
+
+  const [health] = await prisma.$transaction([
+    prisma.remoteHealth.upsert({
+      where: { remote: result.remote },
+      create: { remote: result.remote, ...data },
+      update: data
+    }),
+    prisma.remoteHealthCheck.create({
+      data: {
+        remote: result.remote,
+        status: result.status,
+        error: result.error,
+        latencyMs: result.latencyMs,
+        tokenExpiry: result.tokenExpiry,
+        checkedAt: now
+      }
+    })
+  ]);
+
+  return { health, previousStatus: previous?.status || null };
+}
+
+export async function checkRemoteHealth(remote: string) {
+  return recordHealth(await probeRemote(remote));
+}
+
+export async function markAlerted(remote: string) {
+  await prisma.remoteHealth.update({ where: { remote }, data: { alertedAt: new Date() } });
+}
+
+export async function getHealthStates(remotes?: string[]): Promise<RemoteHealth[]> {
+  return prisma.remoteHealth.findMany({
+    where: remotes ? { remote: { in: remotes } } : undefined,
+    orderBy: { remote: 'asc' }
+  });
+}
+
+export async function getHealthHistory(remote: string, limit: number = 100) {
+  return prisma.remoteHealthCheck.findMany({
+    where: { remote },
+    orderBy: { checkedAt: 'desc' },
+    take: limit
+  });
+}
+
+// Forget removed remotes and drop history past the retention window
+export async function pruneHealth(currentRemotes: string[]) {
+  const cutoff = new Date(Date.now() - HEALTH_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  await prisma.remoteHealthCheck.deleteMany({
+    where: { OR: [{ checkedAt: { lt: cutoff } }, { remote: { notIn: currentRemotes } }] }
+  });
+  await prisma.remoteHealth.deleteMany({ where: { remote: { notIn: currentRemotes } } });
+}
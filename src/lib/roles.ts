@@ -0,0 +1,179 @@
+// Role administration
+// Custom roles bundle catalogue permissions; system roles (see SYSTEM_ROLES) are maintained by the
+// seed and are read-only here. A role change may not leave the instance without an active
+// user administrator.
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { countActiveAdmins, PERMISSION_CATALOG, PERMISSIONS, PermissionName } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+const MAX_ROLE_NAME_LENGTH = 50;
+
+export class RoleAdminError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RoleAdminError';
+  }
+}
+
+export interface RoleDetails {
+  id: string;
+  name: string;
+  description: string | null;
+  isSystem: boolean;
+  permissions: string[];
+  userCount: number;
+}
+
+export interface RoleInput {
+  name: string;
+  description?: string | null;
+  permissions: string[];
+}
+
+const roleInclude = {
+  rolePermissions: { include: { permission: true } },
+  _count: { select: { userRoles: true } }
+} satisfies Prisma.RoleInclude;
+
+type RoleWithPermissions = Prisma.RoleGetPayload<{ include: typeof roleInclude }>;
+
+function toDetails(role: RoleWithPermissions): RoleDetails {
+  return {
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    isSystem: role.isSystem,
+    permissions: role.rolePermissions.map(rolePermission => rolePermission.permission.name).sort(),
+    userCount: role._count.userRoles
+  };
+}
+
+function isCatalogPermission(name: string): name is PermissionName {
+  return PERMISSION_CATALOG.some(permission => permission.name === name);
+}
+
+function validateInput(input: RoleInput): { name: string; description: string | null; permissions: PermissionName[] } {
+  const name = input.name.trim();
+  if (!name || name.length > MAX_ROLE_NAME_LENGTH) {
+    throw new RoleAdminError(`Role name must be 1-${MAX_ROLE_NAME_LENGTH} characters`);
+  }
+
+  const unknown = input.permissions.filter(permission => !isCatalogPermission(permission));
+  if (unknown.length > 0) {
+    throw new RoleAdminError(`Unknown permission: ${unknown.join(', ')}`);
+  }
+
+  return {
+    name,
+    description: input.description?.trim() || null,
+    permissions: [...new Set(input.permissions)] as PermissionName[]
+  };
+}
+
+// Catalogue permission names to Permission row ids
+async function resolvePermissionIds(names: PermissionName[]): Promise<string[]> {
+  const permissions = await prisma.permission.findMany({ where: { name: { in: names } }, select: { id: true } });
+  if (permissions.length !== names.length) {
+    throw new RoleAdminError('Permission catalogue is not seeded; run prisma db seed', 500);
+  }
+  return permissions.map(permission => permission.id);
+}
+
+// Refuse a change that would take user:admin away from the only active administrators
+async function ensureAdminsRemainWithout(roleId: string) {
+  if (await countActiveAdmins({ withoutRoleId: roleId }) === 0) {
+    throw new RoleAdminError('No active administrator would be left', 409);
+  }
+}
+
+function uniqueConflict(error: unknown): RoleAdminError | null {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    return new RoleAdminError('A role with this name already exists', 409);
+  }
+  return null;
+}
+
+export async function listRoleDetails(): Promise<RoleDetails[]> {
+  const roles = await prisma.role.findMany({
+    include: roleInclude,
+    // System roles first, then custom roles by name
+    orderBy: [{ isSystem: 'desc' }, { name: 'asc' }]
+  });
+  return roles.map(toDetails);
+}
+
+export async function createRole(input: RoleInput): Promise<RoleDetails> {
+  const { name, description, permissions } = validateInput(input);
+  const permissionIds = await resolvePermissionIds(permissions);
+
+  try {
+    const role = await prisma.role.create({
+      data: {
+        name,
+        description,
+        isSystem: false,
+        rolePermissions: { create: permissionIds.map(permissionId => ({ permissionId })) }
+      },
+      include: roleInclude
+    });
+    return toDetails(role);
+  } catch (error) {
+    throw uniqueConflict(error) || error;
+  }
+}
+
+// Returns the updated role and the permissions added and removed, for the audit log
+export async function updateRole(
+  id: string,
+  input: RoleInput
+): Promise<{ role: RoleDetails; previous: RoleDetails; added: string[]; removed: string[] }> {
+  const existing = await prisma.role.findUnique({ where: { id }, include: roleInclude });
+  if (!existing) {
+    throw new RoleAdminError('Role not found', 404);
+  }
+  if (existing.isSystem) {
+    throw new RoleAdminError('System roles cannot be changed', 403);
+  }
+
+  const previous = toDetails(existing);
+  const { name, description, permissions } = validateInput(input);
+  const added = permissions.filter(permission => !previous.permissions.includes(permission));
+  const removed = previous.permissions.filter(permission => !(permissions as string[]).includes(permission));
+
+  if (removed.includes(PERMISSIONS.USER_ADMIN)) {
+    await ensureAdminsRemainWithout(id);
+  }
+
+  const permissionIds = await resolvePermissionIds(permissions);
+  try {
+    const role = await prisma.$transaction(async tx => {
+      await tx.rolePermission.deleteMany({ where: { roleId: id } });
+      await tx.rolePermission.createMany({ data: permissionIds.map(permissionId => ({ roleId: id, permissionId })) });
+      return tx.role.update({ where: { id }, data: { name, description }, include: roleInclude });
+    });
+    return { role: toDetails(role), previous, added, removed };
+  } catch (error) {
+    throw uniqueConflict(error) || error;
+  }
+}
+
+// Users holding the role simply lose it
+export async function deleteRole(id: string): Promise<RoleDetails> {
+  const existing = await prisma.role.findUnique({ where: { id }, include: roleInclude });
+  if (!existing) {
+    throw new RoleAdminError('Role not found', 404);
+  }
+  if (existing.isSystem) {
+    throw new RoleAdminError('System roles cannot be deleted', 403);
+  }
+
+  const role = toDetails(existing);
+  if (role.permissions.includes(PERMISSIONS.USER_ADMIN)) {
+    await ensureAdminsRemainWithout(id);
+  }
+
+  await prisma.role.delete({ where: { id } });
+  return role;
+}
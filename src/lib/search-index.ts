@@ -0,0 +1,355 @@
+// Persistent search index
+// The crawler mirrors each remote's tree into search_index_entries and keeps an FTS5 table of
+// names and paths in step with it, so searches never have to walk the remote.
+
+import { Prisma, PrismaClient, SearchIndexEntry } from '@prisma/client';
+import { FileItem } from '@/lib/types/files';
+import { compileMatcher, listDirectory, SearchQuery, SearchResult } from '@/lib/search';
+import { joinRemotePath } from '@/lib/rclone/paths';
+
+const prisma = new PrismaClient();
+
+// Unchanged folders are skipped between full crawls; the periodic full crawl catches backends
+// whose folder ModTime does not change when something deeper inside does
+const FULL_CRAWL_INTERVAL = (parseInt(process.env.SEARCH_INDEX_FULL_CRAWL_HOURS || '24', 10) || 24) * 60 * 60 * 1000;
+const FTS_MIN_TERM_LENGTH = 3; // the trigram tokenizer cannot match anything shorter
+const MAX_FTS_CANDIDATES = 5000;
+const SCAN_BATCH_SIZE = 2000;
+const MAX_SCANNED_ENTRIES = 200000;
+const ID_CHUNK_SIZE = 500; // stays well below SQLite's bound parameter limit
+
+export interface IndexSearchResult extends SearchResult {
+  Remote: string;
+}
+
+declare global {
+  var searchIndexReady: Promise<void> | undefined;
+}
+
+// Create the FTS table on first use. It is derived data (the entrypoint drops it before
+// pushing schema changes), so rebuild it whenever it is out of step with the entries table.
+export function ensureSearchIndex(): Promise<void> {
+  if (!global.searchIndexReady) {
+    global.searchIndexReady = (async () => {
+      await prisma.$executeRawUnsafe(
+        "CREATE VIRTUAL TABLE IF NOT EXISTS search_index_fts USING fts5(entry_id UNINDEXED, name, path, tokenize = 'trigram')"
+      );
+
+      const [{ count }] = await prisma.$queryRaw<{ count: bigint }[]>`SELECT count(*) AS count FROM search_index_fts`;
+      const entries = await prisma.searchIndexEntry.count();
+      if (Number(count) !== entries) {
+        console.log(`🔎 Rebuilding search index FTS table (${entries} entries)...`);
+        await prisma.$transaction([
+          prisma.$executeRaw`DELETE FROM search_index_fts`,
+          prisma.$executeRaw`INSERT INTO search_index_fts (entry_id, name, path) SELECT id, name, path FROM search_index_entries`,
+        ]);
+      }
+    })().catch(error => {
+      global.searchIndexReady = undefined;
+      throw error;
+    });
+  }
+  return global.searchIndexReady;
+}
+
+function toSize(item: FileItem): bigint | null {
+  return item.IsDir || item.Size === undefined || item.Size < 0 ? null : BigInt(item.Size);
+}
+
+function toModTime(item: FileItem): Date | null {
+  const time = item.ModTime ? new Date(item.ModTime) : null;
+  return time && !Number.isNaN(time.getTime()) ? time : null;
+}
+
+function isUnchanged(entry: SearchIndexEntry, item: FileItem): boolean {
+  return entry.isDir === item.IsDir &&
+    entry.size === toSize(item) &&
+    (entry.modTime?.getTime() ?? null) === (toModTime(item)?.getTime() ?? null) &&
+    entry.mimeType === (item.MimeType || null);
+}
+
+// Remove entries and everything below them, keeping the FTS table in step
+async function deleteEntries(tx: Prisma.TransactionClient, remote: string, paths: string[]) {
+  for (const path of paths) {
+    const ids = (await tx.searchIndexEntry.findMany({
+      where: { remote, OR: [{ path }, { path: { startsWith: `${path}/` } }] },
+      select: { id: true }
+    })).map(entry => entry.id);
+
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+      await tx.$executeRaw`DELETE FROM search_index_fts WHERE entry_id IN (${Prisma.join(chunk)})`;
+      await tx.searchIndexEntry.deleteMany({ where: { id: { in: chunk } } });
+    }
+  }
+}
+
+// Store one folder's direct children; returns the subfolders that still need listing
+async function syncDirectory(remote: string, dir: string, items: FileItem[], full: boolean): Promise<string[]> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.searchIndexEntry.findMany({ where: { remote, parent: dir } });
+    const byPath = new Map(existing.map(entry => [entry.path, entry]));
+    const seen = new Set<string>();
+    const pending: string[] = [];
+
+    for (const item of items) {
+      const path = joinRemotePath(dir, item.Name);
+      seen.add(path);
+      let previous = byPath.get(path);
+
+      if (previous && isUnchanged(previous, item)) {
+        if (item.IsDir && (full || !previous.crawledAt)) {
+          pending.push(path);
+        }
+        continue;
+      }
+
+      // A file replaced by a folder (or the other way round) starts over
+      if (previous && previous.isDir !== item.IsDir) {
+        await deleteEntries(tx, remote, [path]);
+        previous = undefined;
+      }
+
+      const data = {
+        name: item.Name,
+        parent: dir,
+        isDir: item.IsDir,
+        size: toSize(item),
+        modTime: toModTime(item),
+        mimeType: item.MimeType || null,
+        crawledAt: null,
+      };
+      const entry = await tx.searchIndexEntry.upsert({
+        where: { remote_path: { remote, path } },
+        create: { remote, path, ...data },
+        update: data,
+      });
+
+      // Name and path never change for an existing row, so only new rows touch the FTS table
+      if (!previous) {
+        await tx.$executeRaw`INSERT INTO search_index_fts (entry_id, name, path) VALUES (${entry.id}, ${entry.name}, ${entry.path})`;
+      }
+      if (item.IsDir) {
+        pending.push(path);
+      }
+    }
+
+    const removed = existing.filter(entry => !seen.has(entry.path)).map(entry => entry.path);
+    await deleteEntries(tx, remote, removed);
+
+    // The root has no entry of its own
+    if (dir) {
+      await tx.searchIndexEntry.updateMany({ where: { remote, path: dir }, data: { crawledAt: new Date() } });
+    }
+
+    return pending;
+  }, { timeout: 120000 });
+}
+
+// Crawl one remote breadth-first. Incremental crawls only descend into folders whose
+// ModTime changed, plus any folder that an earlier, interrupted crawl never listed.
+export async function crawlRemote(remote: string, signal: AbortSignal): Promise<void> {
+  await ensureSearchIndex();
+
+  const state = await prisma.searchIndexRemote.upsert({
+    where: { remote },
+    create: { remote, status: 'crawling' },
+    update: { status: 'crawling' },
+  });
+
+  const startedAt = Date.now();
+  const full = !state.lastFullCrawlAt || startedAt - state.lastFullCrawlAt.getTime() > FULL_CRAWL_INTERVAL;
+  const queue: string[] = [''];
+  const queued = new Set<string>(queue);
+
+  if (!full) {
+    const unlisted = await prisma.searchIndexEntry.findMany({
+      where: { remote, isDir: true, crawledAt: null },
+      select: { path: true }
+    });
+    for (const { path } of unlisted) {
+      queued.add(path);
+      queue.push(path);
+    }
+  }
+
+  console.log(`🔎 Starting ${full ? 'full' : 'incremental'} index crawl for ${remote}...`);
+
+  let listed = 0;
+  let failures = 0;
+  let lastFailure = '';
+
+  try {
+    while (queue.length > 0) {
+      if (signal.aborted) {
+        throw new Error('Crawl stopped');
+      }
+
+      const dir = queue.shift()!;
+      let items: FileItem[];
+      try {
+        items = await listDirectory(remote, dir, false, signal);
+      } catch (error) {
+        // The root failing means the remote is unusable; a single folder is retried next crawl
+        if (!dir || signal.aborted) throw error;
+        failures++;
+        lastFailure = `${dir}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        console.error(`Index listing failed for ${remote}:${dir}:`, error);
+        continue;
+      }
+
+      listed++;
+      for (const path of await syncDirectory(remote, dir, items, full)) {
+        if (!queued.has(path)) {
+          queued.add(path);
+          queue.push(path);
+        }
+      }
+    }
+
+    const entryCount = await prisma.searchIndexEntry.count({ where: { remote } });
+    await prisma.searchIndexRemote.update({
+      where: { remote },
+      data: {
+        status: 'ready',
+        entryCount,
+        lastCrawlAt: new Date(),
+        // A full crawl with failures does not count; the next one stays full
+        ...(full && failures === 0 ? { lastFullCrawlAt: new Date() } : {}),
+        lastDurationMs: Date.now() - startedAt,
+        error: failures > 0 ? `${failures} folder${failures > 1 ? 's' : ''} could not be listed (${lastFailure})` : null,
+      },
+    });
+
+    console.log(`✅ Index crawl completed for ${remote}: ${listed} folders listed, ${entryCount} entries`);
+  } catch (error) {
+    console.error(`❌ Index crawl failed for ${remote}:`, error);
+    await prisma.searchIndexRemote.update({
+      where: { remote },
+      data: {
+        status: 'error',
+        lastDurationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+}
+
+// Drop a remote that is no longer configured for indexing
+export async function removeRemoteFromIndex(remote: string): Promise<void> {
+  await ensureSearchIndex();
+  await prisma.$transaction([
+    prisma.$executeRaw`DELETE FROM search_index_fts WHERE entry_id IN (SELECT id FROM search_index_entries WHERE remote = ${remote})`,
+    prisma.searchIndexEntry.deleteMany({ where: { remote } }),
+    prisma.searchIndexRemote.deleteMany({ where: { remote } }),
+  ]);
+  console.log(`🗑️ Removed ${remote} from the search index`);
+}
+
+export async function getIndexStatus() {
+  return prisma.searchIndexRemote.findMany({ orderBy: { remote: 'asc' } });
+}
+
+// Longest literal run of a glob (or plain text) pattern, for the FTS prefilter
+function getFtsTerm(query: SearchQuery): string | null {
+  if (!query.pattern || query.mode === 'regex') return null;
+
+  const literals = query.pattern
+    .replace(/\[[^\]]*\]/g, '*')
+    .split(/[*?/]+/)
+    .map(literal => literal.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length);
+
+  return literals[0] && literals[0].length >= FTS_MIN_TERM_LENGTH ? literals[0] : null;
+}
+
+function toResult(entry: SearchIndexEntry): IndexSearchResult {
+  return {
+    Remote: entry.remote,
+    Name: entry.name,
+    Path: entry.path,
+    Parent: entry.parent,
+    IsDir: entry.isDir,
+    Size: entry.size === null ? (entry.isDir ? -1 : undefined) : Number(entry.size),
+    ModTime: entry.modTime?.toISOString(),
+    MimeType: entry.mimeType || undefined,
+  };
+}
+
+// Search the index across the given remotes. The FTS table narrows the candidates when the
+// pattern has a usable literal; the same matcher as the live search then applies every filter.
+export async function searchIndex(
+  query: SearchQuery,
+  remotes: string[],
+  limit: number,
+  isVisible: (remote: string, path: string) => boolean
+): Promise<{ results: IndexSearchResult[]; truncated: boolean }> {
+  await ensureSearchIndex();
+
+  const results: IndexSearchResult[] = [];
+  if (remotes.length === 0) {
+    return { results, truncated: false };
+  }
+
+  const matches = compileMatcher(query);
+  // Returns true once the limit is reached
+  const collect = (entries: SearchIndexEntry[]) => {
+    for (const entry of entries) {
+      const result = toResult(entry);
+      if (matches(result, entry.path) && isVisible(entry.remote, entry.path)) {
+        results.push(result);
+        if (results.length >= limit) return true;
+      }
+    }
+    return false;
+  };
+
+  const term = getFtsTerm(query);
+  if (term) {
+    const phrase = `"${term.replace(/"/g, '""')}"`;
+    // Filter by remote before the limit, or entries on other remotes could fill it
+    const rows = await prisma.$queryRaw<{ entry_id: string }[]>`
+      SELECT search_index_fts.entry_id FROM search_index_fts
+      JOIN search_index_entries ON search_index_entries.id = search_index_fts.entry_id
+      WHERE search_index_fts MATCH ${phrase} AND search_index_entries.remote IN (${Prisma.join(remotes)})
+      ORDER BY rank LIMIT ${MAX_FTS_CANDIDATES}`;
+
+    const entries: SearchIndexEntry[] = [];
+    for (let i = 0; i < rows.length; i += ID_CHUNK_SIZE) {
+      entries.push(...await prisma.searchIndexEntry.findMany({
+        where: { id: { in: rows.slice(i, i + ID_CHUNK_SIZE).map(row => row.entry_id) } }
+      }));
+    }
+
+    // Keep the FTS ranking
+    const order = new Map(rows.map((row, index) => [row.entry_id, index]));
+    entries.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+    const full = collect(entries);
+    return { results, truncated: full || rows.length >= MAX_FTS_CANDIDATES };
+  }
+
+  // No usable literal (short words, regex, filters only): scan the index in batches
+  let cursor: string | undefined;
+  let scanned = 0;
+  while (scanned < MAX_SCANNED_ENTRIES) {
+    const batch = await prisma.searchIndexEntry.findMany({
+      where: { remote: { in: remotes } },
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    scanned += batch.length;
+    if (collect(batch)) {
+      return { results, truncated: true };
+    }
+    if (batch.length < SCAN_BATCH_SIZE) {
+      return { results, truncated: false };
+    }
+    cursor = batch[batch.length - 1].id;
+  }
+
+  return { results, truncated: true };
+}
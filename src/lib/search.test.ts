@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { compileMatcher, MAX_PATTERN_LENGTH, parseSearchQuery, SearchQuery } from '@/lib/search';
+import { FileItem } from '@/lib/types/files';
+
+function query(pattern: string, mode: SearchQuery['mode'] = 'glob'): SearchQuery {
+  return { pattern, mode, type: 'any' };
+}
+
+function file(name: string): FileItem {
+  return { Path: name, Name: name, Size: 1, MimeType: 'text/plain', ModTime: '2024-01-01T00:00:00Z', IsDir: false };
+}
+
+function matches(search: SearchQuery, name: string, fullPath = name) {
+  return compileMatcher(search)(file(name), fullPath);
+}
+
+describe('parseSearchQuery', () => {
+  it('refuses overlong patterns', () => {
+    const params = new URLSearchParams({ q: 'a'.repeat(MAX_PATTERN_LENGTH + 1) });
+    expect(parseSearchQuery(params).error).toMatch(/at most/);
+  });
+});
+
+describe('glob matching', () => {
+  it('treats plain words as a substring match', () => {
+    expect(matches(query('Report'), 'annual-report.pdf')).toBe(true);
+    expect(matches(query('Report'), 'summary.pdf')).toBe(false);
+  });
+
+  it('keeps * and ? inside one path segment and lets ** cross them', () => {
+    expect(matches(query('*.jp?'), 'photo.jpg')).toBe(true);
+    expect(matches(query('docs/*.md'), 'a.md', 'docs/a.md')).toBe(true);
+    expect(matches(query('docs/*.md'), 'a.md', 'docs/sub/a.md')).toBe(false);
+    expect(matches(query('docs/**.md'), 'a.md', 'docs/sub/a.md')).toBe(true);
+  });
+
+  it('supports character classes and negation', () => {
+    expect(matches(query('file[0-9].txt'), 'file3.txt')).toBe(true);
+    expect(matches(query('file[!0-9].txt'), 'file3.txt')).toBe(false);
+    expect(matches(query('*[abc*'), 'x[abcx')).toBe(true);
+  });
+
+  it('stays fast on patterns that would backtrack as a regex', () => {
+    const started = Date.now();
+    expect(matches(query('*a*a*a*a*a*a*a*a*b'), 'a'.repeat(255))).toBe(false);
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+});
+
+describe('regex matching', () => {
+  it('matches names case-insensitively', () => {
+    expect(matches(query('^img_\\d+\\.(jpe?g|png)$', 'regex'), 'IMG_0042.JPG')).toBe(true);
+  });
+
+  it.each([
+    '(a+)+$',
+    '(a|aa)*b',
+    '(.*a){2}',
+    '(\\w+\\s?)*$',
+    '(a)\\1',
+    'a*a*a*a*b',
+    'a?'.repeat(11)
+  ])('refuses %s', pattern => {
+    expect(() => compileMatcher(query(pattern, 'regex'))).toThrow();
+  });
+
+  it('still reports syntax errors', () => {
+    expect(() => compileMatcher(query('(unclosed', 'regex'))).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,353 @@
+// Recursive remote search
+// Walks a remote (or a subtree) with operations/list and yields matching entries batch by batch,
+// so the search route can stream results while the walk is still running.
+
+import { FileItem } from '@/lib/types/files';
+import { getMediaKind, isImageFile } from '@/lib/media';
+import { rcloneClient } from '@/lib/rclone/client';
+import { joinRemotePath, normalizeRemotePath, parentRemotePath } from '@/lib/rclone/paths';
+
+export type SearchMode = 'glob' | 'regex';
+export type SearchType = 'any' | 'file' | 'folder' | 'image' | 'video' | 'audio' | 'document' | 'archive';
+
+export const SEARCH_TYPES: SearchType[] = ['any', 'file', 'folder', 'image', 'video', 'audio', 'document', 'archive'];
+
+const DOCUMENT_EXTENSIONS = ['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'odt', 'ods', 'odp', 'txt', 'md', 'rtf', 'csv'];
+const ARCHIVE_EXTENSIONS = ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz', 'zst', 'iso'];
+
+export interface SearchQuery {
+  pattern: string;
+  mode: SearchMode;
+  type: SearchType;
+  minSize?: number;
+  maxSize?: number;
+  modifiedAfter?: number;
+  modifiedBefore?: number;
+}
+
+export interface SearchResult extends FileItem {
+  // Folder containing the match, for linking back into the browser
+  Parent: string;
+}
+
+// Longer patterns are refused outright; no file name needs one
+export const MAX_PATTERN_LENGTH = 200;
+// Regex mode runs on the shared server thread, so patterns whose matching time can grow
+// polynomially or exponentially with the name length are refused (see checkRegexCost)
+const MAX_UNBOUNDED_QUANTIFIERS = 3;
+const MAX_QUANTIFIERS = 10;
+
+type GlobToken =
+  | { kind: 'char'; char: string; lower: string }
+  | { kind: 'any' }
+  | { kind: 'star'; crossesSlash: boolean }
+  | { kind: 'class'; regex: RegExp };
+
+function parseGlob(glob: string): GlobToken[] {
+  const tokens: GlobToken[] = [];
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      const crossesSlash = glob[i + 1] === '*';
+      if (crossesSlash) i++;
+      tokens.push({ kind: 'star', crossesSlash });
+    } else if (char === '?') {
+      tokens.push({ kind: 'any' });
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        tokens.push({ kind: 'char', char, lower: char });
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        tokens.push({ kind: 'class', regex: new RegExp(`^[${body}]$`, 'i') });
+        i = end;
+      }
+    } else {
+      tokens.push({ kind: 'char', char, lower: char.toLowerCase() });
+    }
+  }
+  return tokens;
+}
+
+function matchesGlobChar(token: Exclude<GlobToken, { kind: 'star' }>, char: string): boolean {
+  switch (token.kind) {
+    case 'char':
+      return token.char === char || token.lower === char.toLowerCase();
+    case 'any':
+      return char !== '/';
+    case 'class':
+      return token.regex.test(char);
+  }
+}
+
+// Shell-style glob matcher; '*' and '?' never cross a '/', '**' does. It tracks the set of
+// pattern positions reached so far instead of backtracking, so any pattern runs in linear time.
+function globMatcher(glob: string): (text: string) => boolean {
+  const tokens = parseGlob(glob);
+
+  // A star can match nothing, so reaching it also reaches the token after it
+  const skipEmptyStars = (reached: boolean[]) => {
+    for (let i = 0; i < tokens.length; i++) {
+      if (reached[i] && tokens[i].kind === 'star') reached[i + 1] = true;
+    }
+    return reached;
+  };
+  const initial = new Array<boolean>(tokens.length + 1).fill(false);
+  initial[0] = true;
+  skipEmptyStars(initial);
+
+  return (text) => {
+    let reached = initial;
+    for (const char of text) {
+      const next = new Array<boolean>(tokens.length + 1).fill(false);
+      let any = false;
+      for (let i = 0; i < tokens.length; i++) {
+        if (!reached[i]) continue;
+        const token = tokens[i];
+        if (token.kind === 'star') {
+          if (token.crossesSlash || char !== '/') next[i] = any = true;
+        } else if (matchesGlobChar(token, char)) {
+          next[i + 1] = any = true;
+        }
+      }
+      if (!any) return false;
+      reached = skipEmptyStars(next);
+    }
+    return reached[tokens.length];
+  };
+}
+
+// Refuse regexes that backtrack catastrophically: a repeated group that itself contains a
+// quantifier or an alternation ("(a+)+", "(a|ab)*"), backreferences, and more quantifiers than
+// a file name search needs ("a*a*a*a*b" is already polynomial in the name length).
+// Expects a pattern that new RegExp has accepted.
+function checkRegexCost(pattern: string) {
+  // One frame per open group: whether it contains a quantifier or an alternation
+  const groups = [{ quantified: false, alternation: false }];
+  // Whether the atom a following quantifier would repeat is a group with either of the above
+  let lastAtom: 'simple' | 'complex' | null = null;
+  let unbounded = 0;
+  let total = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const group = groups[groups.length - 1];
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) {
+        throw new Error('Backreferences are not supported');
+      }
+      i++;
+      lastAtom = 'simple';
+      continue;
+    }
+    if (char === '[') {
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+      lastAtom = 'simple';
+      continue;
+    }
+    if (char === '(') {
+      groups.push({ quantified: false, alternation: false });
+      // "(?:", "(?=", "(?<name>": the '?' is not a quantifier
+      if (pattern[i + 1] === '?') i++;
+      lastAtom = null;
+      continue;
+    }
+    if (char === ')') {
+      const closed = groups.pop()!;
+      groups[groups.length - 1].quantified ||= closed.quantified;
+      lastAtom = closed.quantified || closed.alternation ? 'complex' : 'simple';
+      continue;
+    }
+    if (char === '|') {
+      group.alternation = true;
+      lastAtom = null;
+      continue;
+    }
+
+    // Outside a valid "{n}", "{n,}" or "{n,m}" a brace is a literal
+    const braces = char === '{' ? pattern.slice(i).match(/^\{(\d+)(,(\d*))?\}/) : null;
+    let min = 0;
+    let max = Infinity;
+    if (char === '*' || char === '+' || char === '?') {
+      min = char === '+' ? 1 : 0;
+      max = char === '?' ? 1 : Infinity;
+    } else if (braces) {
+      min = Number(braces[1]);
+      max = braces[2] === undefined ? min : braces[3] ? Number(braces[3]) : Infinity;
+      i += braces[0].length - 1;
+    } else {
+      lastAtom = char === '^' || char === '$' ? null : 'simple';
+      continue;
+    }
+
+    // A lazy quantifier backtracks just as much
+    if (pattern[i + 1] === '?') i++;
+    if (lastAtom === 'complex' && max > 1) {
+      throw new Error('Repeating a group that contains a quantifier or alternation is not supported');
+    }
+    // An exact count leaves nothing to backtrack over
+    if (max === min) {
+      lastAtom = null;
+      continue;
+    }
+    if (max === Infinity && ++unbounded > MAX_UNBOUNDED_QUANTIFIERS) {
+      throw new Error(`At most ${MAX_UNBOUNDED_QUANTIFIERS} unbounded quantifiers (*, +, {n,}) are supported`);
+    }
+    if (++total > MAX_QUANTIFIERS) {
+      throw new Error(`At most ${MAX_QUANTIFIERS} quantifiers are supported`);
+    }
+    group.quantified = true;
+    lastAtom = null;
+  }
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function parseDate(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+export function parseSearchQuery(params: URLSearchParams): { query?: SearchQuery; error?: string } {
+  const pattern = (params.get('q') || '').trim();
+  const mode = (params.get('mode') || 'glob') as SearchMode;
+  const type = (params.get('type') || 'any') as SearchType;
+
+  if (mode !== 'glob' && mode !== 'regex') {
+    return { error: 'Mode must be glob or regex' };
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return { error: `Pattern must be at most ${MAX_PATTERN_LENGTH} characters` };
+  }
+  if (!SEARCH_TYPES.includes(type)) {
+    return { error: `Type must be one of ${SEARCH_TYPES.join(', ')}` };
+  }
+
+  const query: SearchQuery = {
+    pattern,
+    mode,
+    type,
+    minSize: parseNumber(params.get('minSize')),
+    maxSize: parseNumber(params.get('maxSize')),
+    modifiedAfter: parseDate(params.get('modifiedAfter')),
+    modifiedBefore: parseDate(params.get('modifiedBefore')),
+  };
+
+  if (!pattern && query.type === 'any' && query.minSize === undefined && query.maxSize === undefined &&
+      query.modifiedAfter === undefined && query.modifiedBefore === undefined) {
+    return { error: 'Enter a name pattern or at least one filter' };
+  }
+
+  return { query };
+}
+
+function matchesType(item: FileItem, type: SearchType): boolean {
+  const extension = item.Name.split('.').pop()?.toLowerCase() || '';
+  switch (type) {
+    case 'any':
+      return true;
+    case 'file':
+      return !item.IsDir;
+    case 'folder':
+      return item.IsDir;
+    case 'image':
+      return isImageFile(item) || (!item.IsDir && extension === 'svg');
+    case 'video':
+    case 'audio':
+      return getMediaKind(item) === type;
+    case 'document':
+      return !item.IsDir && DOCUMENT_EXTENSIONS.includes(extension);
+    case 'archive':
+      return !item.IsDir && ARCHIVE_EXTENSIONS.includes(extension);
+  }
+}
+
+// Throws on an invalid or too costly regex, so the route can report it before starting the walk
+export function compileMatcher(query: SearchQuery): (item: FileItem, fullPath: string) => boolean {
+  let nameMatcher: ((item: FileItem, fullPath: string) => boolean) | null = null;
+
+  if (query.pattern) {
+    if (query.mode === 'regex') {
+      const regex = new RegExp(query.pattern, 'i');
+      checkRegexCost(query.pattern);
+      nameMatcher = (item) => regex.test(item.Name);
+    } else {
+      // Plain words behave like the quick filter: a substring match
+      const glob = /[*?[]/.test(query.pattern) ? query.pattern : `*${query.pattern}*`;
+      const matches = globMatcher(glob);
+      // Patterns with a '/' are matched against the whole path
+      nameMatcher = glob.includes('/')
+        ? (_item, fullPath) => matches(fullPath)
+        : (item) => matches(item.Name);
+    }
+  }
+
+  return (item, fullPath) => {
+    if (nameMatcher && !nameMatcher(item, fullPath)) return false;
+    if (!matchesType(item, query.type)) return false;
+
+    const size = item.Size ?? -1;
+    if (query.minSize !== undefined && (item.IsDir || size < query.minSize)) return false;
+    if (query.maxSize !== undefined && (item.IsDir || size > query.maxSize)) return false;
+
+    if (query.modifiedAfter !== undefined || query.modifiedBefore !== undefined) {
+      const modified = item.ModTime ? new Date(item.ModTime).getTime() : NaN;
+      if (Number.isNaN(modified)) return false;
+      if (query.modifiedAfter !== undefined && modified < query.modifiedAfter) return false;
+      if (query.modifiedBefore !== undefined && modified > query.modifiedBefore) return false;
+    }
+
+    return true;
+  };
+}
+
+export async function listDirectory(remote: string, dir: string, recurse: boolean, signal: AbortSignal): Promise<FileItem[]> {
+  // Abort on timeout or when the search itself is cancelled; a timed-out recursive walk is not retried
+  return rcloneClient.list(remote, dir, {
+    recurse,
+    noModTime: false,
+    showEncrypted: false,
+    showOrigIDs: false,
+    showHash: false
+  }, { timeout: recurse ? 600000 : 30000, idempotent: !recurse, signal });
+}
+
+function toResult(item: FileItem, dir: string): SearchResult {
+  const fullPath = joinRemotePath(dir, item.Path);
+  return { ...item, Path: fullPath, Parent: parentRemotePath(fullPath) };
+}
+
+// List the root once, then recurse into each top-level folder separately so that
+// matches from the first folders are sent while the rest are still being walked
+export async function* searchRemote(
+  remote: string,
+  root: string,
+  signal: AbortSignal
+): AsyncGenerator<{ items: SearchResult[]; directory: string; error?: string }> {
+  const base = normalizeRemotePath(root);
+  const topLevel = await listDirectory(remote, base, false, signal);
+
+  yield { items: topLevel.map(item => toResult(item, base)), directory: base };
+
+  for (const folder of topLevel.filter(item => item.IsDir)) {
+    if (signal.aborted) return;
+
+    const dir = joinRemotePath(base, folder.Path);
+    try {
+      const items = await listDirectory(remote, dir, true, signal);
+      yield { items: items.map(item => toResult(item, dir)), directory: dir };
+    } catch (error) {
+      if (signal.aborted) return;
+      // One unreadable folder should not end the whole search
+      yield { items: [], directory: dir, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { rcloneClient } from '@/lib/rclone/client';
+import { getThumbnail, ThumbnailError } from '@/lib/thumbnails';
+
+vi.mock('@/lib/rclone/client', () => ({
+  rcloneClient: { serve: vi.fn(), stat: vi.fn() }
+}));
+
+describe('getThumbnail', () => {
+  afterEach(() => {
+    vi.mocked(rcloneClient.serve).mockReset();
+  });
+
+  it('stops reading a source without Content-Length once it passes the size limit', async () => {
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += 1024 * 1024;
+        controller.enqueue(new Uint8Array(1024 * 1024));
+      }
+    });
+    vi.mocked(rcloneClient.serve).mockResolvedValue(new Response(body));
+
+    const result = getThumbnail('gdrive', 'huge.jpg', 256, '2024-01-01T00:00:00Z');
+
+    await expect(result).rejects.toBeInstanceOf(ThumbnailError);
+    await expect(result).rejects.toMatchObject({ status: 413 });
+    expect(sent).toBeLessThan(60 * 1024 * 1024);
+  });
+});
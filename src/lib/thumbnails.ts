@@ -0,0 +1,142 @@
+// Image thumbnails
+// Images are fetched through rclone's serve endpoint, resized with sharp and cached on disk.
+// The cache key covers remote, path, size and ModTime, so an edited file gets a new thumbnail.
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { createHash, randomUUID } from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import { rcloneClient } from '@/lib/rclone/client';
+import { readBodyWithLimit } from '@/lib/rclone/serve';
+
+const THUMBNAIL_CACHE_DIR = process.env.THUMBNAIL_CACHE_DIR || '/tmp/rrlist-thumbnails';
+// Keep this low: every thumbnail is a full download from the remote
+const THUMBNAIL_CONCURRENCY = Math.max(1, parseInt(process.env.THUMBNAIL_CONCURRENCY || '2', 10) || 2);
+const MAX_SOURCE_SIZE = 50 * 1024 * 1024; // 50MB
+
+export class ThumbnailError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ThumbnailError';
+  }
+}
+
+// Generation slots and in-flight work, shared across route module instances
+declare global {
+  var thumbnailSlots: { active: number; waiting: (() => void)[] } | undefined;
+  var thumbnailJobs: Map<string, Promise<Buffer>> | undefined;
+}
+
+if (!global.thumbnailSlots) {
+  global.thumbnailSlots = { active: 0, waiting: [] };
+}
+
+if (!global.thumbnailJobs) {
+  global.thumbnailJobs = new Map();
+}
+
+async function acquireSlot(): Promise<void> {
+  const slots = global.thumbnailSlots!;
+  if (slots.active < THUMBNAIL_CONCURRENCY) {
+    slots.active++;
+    return;
+  }
+  // The releasing caller hands its slot straight to us
+  await new Promise<void>(resolve => slots.waiting.push(resolve));
+}
+
+function releaseSlot() {
+  const slots = global.thumbnailSlots!;
+  const next = slots.waiting.shift();
+  if (next) {
+    next();
+  } else {
+    slots.active--;
+  }
+}
+
+// ModTime from the listing, when the client did not pass one along
+async function getModTime(remote: string, filePath: string): Promise<string> {
+  const item = await rcloneClient.stat(remote, filePath, {}, { timeout: 30000 });
+  if (!item) {
+    throw new ThumbnailError('File not found', 404);
+  }
+  return item.ModTime || '';
+}
+
+async function generateThumbnail(remote: string, filePath: string, size: number): Promise<Buffer> {
+  const response = await rcloneClient.serve(remote, filePath, {
+    method: 'GET',
+    signal: AbortSignal.timeout(60000),
+  });
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new ThumbnailError(`HTTP ${response.status}: ${response.statusText}`, response.status === 404 ? 404 : 502);
+  }
+
+  const contentLength = Number(response.headers.get('content-length') || 0);
+  if (contentLength > MAX_SOURCE_SIZE) {
+    await response.body?.cancel();
+    throw new ThumbnailError('Image is too large to preview', 413);
+  }
+
+  const source = await readBodyWithLimit(response.body, MAX_SOURCE_SIZE);
+  if (!source) {
+    throw new ThumbnailError('Image is too large to preview', 413);
+  }
+
+  try {
+    return await sharp(source, { animated: false, limitInputPixels: 100_000_000 })
+      .rotate() // honour EXIF orientation
+      .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+  } catch (error) {
+    console.error(`Thumbnail decode failed for ${remote}:${filePath}:`, error);
+    throw new ThumbnailError('Unsupported or corrupt image', 415);
+  }
+}
+
+export async function getThumbnail(remote: string, filePath: string, size: number, modTime?: string): Promise<Buffer> {
+  const resolvedModTime = modTime || await getModTime(remote, filePath);
+  const key = createHash('sha256')
+    .update([remote, filePath, size, resolvedModTime].join('\0'))
+    .digest('hex');
+  const cacheFile = path.join(THUMBNAIL_CACHE_DIR, key.slice(0, 2), `${key}.webp`);
+
+  const cached = await readFile(cacheFile).catch(() => null);
+  if (cached) {
+    return cached;
+  }
+
+  // Grid views request the same image from several tabs; generate it once
+  const pending = global.thumbnailJobs!.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const job = (async () => {
+    await acquireSlot();
+    try {
+      const thumbnail = await generateThumbnail(remote, filePath, size);
+
+      // Write to a temp file first so a crash never leaves a truncated cache entry
+      await mkdir(path.dirname(cacheFile), { recursive: true });
+      const tempFile = `${cacheFile}.${randomUUID()}.tmp`;
+      await writeFile(tempFile, thumbnail);
+      await rename(tempFile, cacheFile);
+
+      return thumbnail;
+    } finally {
+      releaseSlot();
+    }
+  })();
+
+  global.thumbnailJobs!.set(key, job);
+  try {
+    return await job;
+  } finally {
+    global.thumbnailJobs!.delete(key);
+  }
+}
@@ -0,0 +1,270 @@
+// Live transfer statistics from the rclone daemon
+// While at least one dashboard is connected, core/stats, core/transferred and per-group stats
+// are sampled every few seconds. Groups named job/<id> are matched to RRList jobs so the
+// dashboard can show who started each transfer.
+
+import { PrismaClient } from '@prisma/client';
+import { rcloneClient, RcloneStats } from '@/lib/rclone/client';
+
+const prisma = new PrismaClient();
+
+const SAMPLE_INTERVAL = 2000;
+const HISTORY_LENGTH = 150; // 5 minutes of samples
+const MAX_GROUPS = 50;
+const MAX_RECENT = 30;
+
+export interface ActiveTransfer {
+  name: string;
+  size: number;
+  bytes: number;
+  percentage: number;
+  speed: number;
+  eta: number | null;
+  group: string | null;
+}
+
+export interface CompletedTransfer {
+  name: string;
+  size: number;
+  bytes: number;
+  error: string | null;
+  completedAt: string | null;
+  group: string | null;
+}
+
+export interface GroupJob {
+  id: string;
+  type: string;
+  userId: string | null;
+  username: string | null;
+}
+
+export interface GroupStats {
+  group: string;
+  speed: number;
+  bytes: number;
+  totalBytes: number;
+  transfers: number;
+  errors: number;
+  lastError: string | null;
+  job: GroupJob | null;
+}
+
+export interface ThroughputSample {
+  timestamp: number;
+  speed: number;
+}
+
+export interface TransferStatsSnapshot {
+  timestamp: number;
+  speed: number;
+  bytes: number;
+  checks: number;
+  transfers: number;
+  errors: number;
+  lastError: string | null;
+  elapsedTime: number;
+  transferring: ActiveTransfer[];
+  recent: CompletedTransfer[];
+  groups: GroupStats[];
+  history: ThroughputSample[];
+  error?: string;
+}
+
+declare global {
+  var transferStatsSubscribers: Set<(snapshot: TransferStatsSnapshot) => void> | undefined;
+  var transferStatsTimer: NodeJS.Timeout | null | undefined;
+  var transferStatsHistory: ThroughputSample[] | undefined;
+  var transferStatsLatest: TransferStatsSnapshot | null | undefined;
+}
+
+if (!global.transferStatsSubscribers) {
+  global.transferStatsSubscribers = new Set();
+}
+
+if (!global.transferStatsHistory) {
+  global.transferStatsHistory = [];
+}
+
+// RRList jobs behind job/<rclone id> groups; rclone reuses ids after a restart, so the newest wins
+async function resolveGroupJobs(groups: string[]): Promise<Map<string, GroupJob>> {
+  const rcloneJobIds = groups
+    .map(group => /^job\/(\d+)$/.exec(group))
+    .filter((match): match is RegExpExecArray => !!match)
+    .map(match => parseInt(match[1], 10));
+
+  const result = new Map<string, GroupJob>();
+  if (rcloneJobIds.length === 0) {
+    return result;
+  }
+
+  const jobs = await prisma.job.findMany({
+    where: { rcloneJobId: { in: rcloneJobIds } },
+    orderBy: { createdAt: 'desc' },
+    include: { user: { select: { username: true } } }
+  });
+
+  for (const job of jobs) {
+    const group = `job/${job.rcloneJobId}`;
+    if (!result.has(group)) {
+      result.set(group, { id: job.id, type: job.type, userId: job.userId, username: job.user?.username || null });
+    }
+  }
+  return result;
+}
+
+async function sampleStats(): Promise<TransferStatsSnapshot> {
+  // The next sample comes in two seconds anyway, so failures are not retried
+  const noRetry = { retry: false } as const;
+  const [stats, transferred, groupList] = await Promise.all([
+    rcloneClient.stats(undefined, noRetry),
+    rcloneClient.transferred(undefined, noRetry).catch(() => ({ transferred: [] })),
+    rcloneClient.groupList(noRetry).catch(() => ({ groups: [] }))
+  ]);
+
+  const groupNames = (groupList.groups || []).slice(-MAX_GROUPS);
+  const [groupStats, groupJobs] = await Promise.all([
+    Promise.all(groupNames.map(group =>
+      rcloneClient.stats(group, noRetry).then(data => ({ group, data })).catch(() => null)
+    )),
+    resolveGroupJobs(groupNames)
+  ]);
+
+  const timestamp = Date.now();
+  const history = global.transferStatsHistory!;
+  history.push({ timestamp, speed: stats.speed || 0 });
+  if (history.length > HISTORY_LENGTH) {
+    history.splice(0, history.length - HISTORY_LENGTH);
+  }
+
+  return {
+    timestamp,
+    speed: stats.speed || 0,
+    bytes: stats.bytes || 0,
+    checks: stats.checks || 0,
+    transfers: stats.transfers || 0,
+    errors: stats.errors || 0,
+    lastError: stats.lastError || null,
+    elapsedTime: stats.elapsedTime || 0,
+    transferring: (stats.transferring || []).map(transfer => ({
+      name: transfer.name,
+      size: transfer.size || 0,
+      bytes: transfer.bytes || 0,
+      percentage: transfer.percentage || 0,
+      speed: transfer.speed || 0,
+      eta: typeof transfer.eta === 'number' ? transfer.eta : null,
+      group: transfer.group || null
+    })),
+    recent: (transferred.transferred || []).slice(-MAX_RECENT).reverse().map(transfer => ({
+      name: transfer.name,
+      size: transfer.size || 0,
+      bytes: transfer.bytes || 0,
+      error: transfer.error || null,
+      completedAt: transfer.completed_at || null,
+      group: transfer.group || null
+    })),
+    groups: groupStats
+      .filter((entry): entry is { group: string; data: RcloneStats } => !!entry)
+      .map(({ group, data }) => ({
+        group,
+        speed: data.speed || 0,
+        bytes: data.bytes || 0,
+        totalBytes: data.totalBytes || 0,
+        transfers: data.transfers || 0,
+        errors: data.errors || 0,
+        lastError: data.lastError || null,
+        job: groupJobs.get(group) || null
+      }))
+      .reverse(),
+    history: [...history]
+  };
+}
+
+async function runSampler() {
+  let snapshot: TransferStatsSnapshot;
+  try {
+    snapshot = await sampleStats();
+  } catch (error) {
+    console.error('Transfer stats sampling failed:', error);
+    snapshot = {
+      ...(global.transferStatsLatest || emptySnapshot()),
+      timestamp: Date.now(),
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+
+  global.transferStatsLatest = snapshot;
+  global.transferStatsSubscribers!.forEach(callback => {
+    try {
+      callback(snapshot);
+    } catch (error) {
+      console.error('Error notifying transfer stats subscriber:', error);
+    }
+  });
+
+  // Stop sampling once the last dashboard has disconnected
+  global.transferStatsTimer = global.transferStatsSubscribers!.size > 0
+    ? setTimeout(runSampler, SAMPLE_INTERVAL)
+    : null;
+}
+
+function emptySnapshot(): TransferStatsSnapshot {
+  return {
+    timestamp: Date.now(),
+    speed: 0,
+    bytes: 0,
+    checks: 0,
+    transfers: 0,
+    errors: 0,
+    lastError: null,
+    elapsedTime: 0,
+    transferring: [],
+    recent: [],
+    groups: [],
+    history: [...global.transferStatsHistory!]
+  };
+}
+
+export function getLatestTransferStats(): TransferStatsSnapshot {
+  return global.transferStatsLatest || emptySnapshot();
+}
+
+export function subscribeTransferStats(callback: (snapshot: TransferStatsSnapshot) => void): () => void {
+  global.transferStatsSubscribers!.add(callback);
+  if (!global.transferStatsTimer) {
+    global.transferStatsTimer = setTimeout(runSampler, 0);
+  }
+  return () => {
+    global.transferStatsSubscribers!.delete(callback);
+  };
+}
+
+// Clear rclone's counters (all groups, or one) and the throughput history
+export async function resetTransferStats(group?: string) {
+  await rcloneClient.statsReset(group);
+  if (!group) {
+    global.transferStatsHistory = [];
+    global.transferStatsLatest = null;
+  }
+}
+
+// Admins see everything; other users keep the daemon-wide totals but only their own jobs' groups
+// and file names
+export function viewTransferStats(snapshot: TransferStatsSnapshot, userId: string, isAdmin: boolean): TransferStatsSnapshot {
+  if (isAdmin) {
+    return snapshot;
+  }
+
+  const ownGroups = new Set(
+    snapshot.groups.filter(group => group.job?.userId === userId).map(group => group.group)
+  );
+  const isOwn = (group: string | null) => !!group && ownGroups.has(group);
+
+  return {
+    ...snapshot,
+    lastError: null,
+    transferring: snapshot.transferring.filter(transfer => isOwn(transfer.group)),
+    recent: snapshot.recent.filter(transfer => isOwn(transfer.group)),
+    groups: snapshot.groups.filter(group => isOwn(group.group))
+  };
+}
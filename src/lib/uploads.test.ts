@@ -0,0 +1,50 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let stagingDir: string;
+
+// UPLOAD_STAGING_DIR is read when the module loads
+async function loadUploads() {
+  vi.resetModules();
+  vi.stubEnv('UPLOAD_STAGING_DIR', stagingDir);
+  return import('@/lib/uploads');
+}
+
+function body(...chunks: string[]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+      controller.close();
+    }
+  });
+}
+
+describe('appendChunk', () => {
+  beforeEach(async () => {
+    stagingDir = await mkdtemp(path.join(tmpdir(), 'rrlist-uploads-'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(stagingDir, { recursive: true, force: true });
+  });
+
+  it('appends at the current offset', async () => {
+    const { appendChunk, createUploadSession } = await loadUploads();
+    const upload = await createUploadSession('user', 'gdrive', '', 'a.txt', 6);
+
+    expect(await appendChunk(upload, 0, body('abc'))).toBe(3);
+    expect(await appendChunk(upload, 0, body('def'))).toBeNull();
+    expect(await appendChunk(upload, 3, body('def'))).toBe(6);
+  });
+
+  it('stops writing once a chunk passes the declared size', async () => {
+    const { appendChunk, createUploadSession, getReceivedBytes, UploadOverflowError } = await loadUploads();
+    const upload = await createUploadSession('user', 'gdrive', '', 'a.txt', 4);
+
+    await expect(appendChunk(upload, 0, body('abc', 'def', 'ghi'))).rejects.toBeInstanceOf(UploadOverflowError);
+    expect(await getReceivedBytes(upload)).toBeLessThanOrEqual(4);
+  });
+});
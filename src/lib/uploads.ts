@@ -0,0 +1,228 @@
+// Resumable upload staging
+// Chunks are appended to a local staging file; once complete, rclone moves it to the remote
+// with operations/movefile as an async job so large transfers don't hold the HTTP request open.
+
+import { createWriteStream } from 'fs';
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { rcloneClient, RcloneError } from '@/lib/rclone/client';
+import { joinRemotePath } from '@/lib/rclone/paths';
+
+// Must be readable by the rclone daemon (both run as appuser in the container)
+const UPLOAD_STAGING_DIR = process.env.UPLOAD_STAGING_DIR || '/tmp/rrlist-uploads';
+const STALE_UPLOAD_AGE = 24 * 60 * 60 * 1000; // 24 hours
+// Largest file a session may be created for, since it is staged on local disk; 0 allows any size
+export const MAX_UPLOAD_SIZE = Math.max(0, parseInt(process.env.MAX_UPLOAD_SIZE_MB || '10240', 10) || 0) * 1024 * 1024;
+
+export type UploadStatus = 'uploading' | 'finalizing' | 'completed' | 'failed';
+
+export interface UploadSession {
+  id: string;
+  userId: string;
+  remote: string;
+  path: string;
+  name: string;
+  size: number;
+  status: UploadStatus;
+  jobId?: number;
+  error?: string;
+  createdAt: number;
+}
+
+// A chunk carried more bytes than the session has left; the staging file holds only those that fit
+export class UploadOverflowError extends Error {
+  constructor() {
+    super('Received more data than declared');
+    this.name = 'UploadOverflowError';
+  }
+}
+
+// Chunk writes in progress, to reject a retry racing a write that hasn't noticed the dropped connection
+declare global {
+  var activeUploadWrites: Set<string> | undefined;
+}
+
+if (!global.activeUploadWrites) {
+  global.activeUploadWrites = new Set();
+}
+
+function partFile(id: string) {
+  return path.join(UPLOAD_STAGING_DIR, `${id}.part`);
+}
+
+function metaFile(id: string) {
+  return path.join(UPLOAD_STAGING_DIR, `${id}.json`);
+}
+
+async function saveSession(session: UploadSession) {
+  await writeFile(metaFile(session.id), JSON.stringify(session));
+}
+
+// Remove staging files left behind by abandoned uploads
+async function cleanupStaleUploads() {
+  try {
+    const entries = await readdir(UPLOAD_STAGING_DIR);
+    const now = Date.now();
+    for (const entry of entries) {
+      const filePath = path.join(UPLOAD_STAGING_DIR, entry);
+      const info = await stat(filePath).catch(() => null);
+      if (info && now - info.mtimeMs > STALE_UPLOAD_AGE) {
+        await rm(filePath, { force: true });
+      }
+    }
+  } catch (error) {
+    console.error('Failed to clean up stale uploads:', error);
+  }
+}
+
+export async function createUploadSession(
+  userId: string,
+  remote: string,
+  dir: string,
+  name: string,
+  size: number
+): Promise<UploadSession> {
+  await mkdir(UPLOAD_STAGING_DIR, { recursive: true });
+  await cleanupStaleUploads();
+
+  const session: UploadSession = {
+    id: randomUUID(),
+    userId,
+    remote,
+    path: dir,
+    name,
+    size,
+    status: 'uploading',
+    createdAt: Date.now()
+  };
+
+  await writeFile(partFile(session.id), '');
+  await saveSession(session);
+
+  console.log(`Upload session created: ${session.id} -> ${remote}:${joinRemotePath(dir, name)} (${size} bytes)`);
+  return session;
+}
+
+export async function getUploadSession(id: string): Promise<UploadSession | null> {
+  // IDs are UUIDs; anything else must not reach the filesystem
+  if (!/^[0-9a-f-]{36}$/.test(id)) {
+    return null;
+  }
+
+  try {
+    const data = await readFile(metaFile(id), 'utf8');
+    return JSON.parse(data) as UploadSession;
+  } catch {
+    return null;
+  }
+}
+
+// Bytes received so far; the client resumes from here after a dropped connection
+export async function getReceivedBytes(session: UploadSession): Promise<number> {
+  const info = await stat(partFile(session.id)).catch(() => null);
+  return info ? info.size : 0;
+}
+
+// Pass bytes through until more than limit have arrived, counting what was actually sent
+// rather than trusting Content-Length
+function limitBytes(limit: number) {
+  let written = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      written += chunk.length;
+      if (written > limit) {
+        callback(new UploadOverflowError());
+        return;
+      }
+      callback(null, chunk);
+    }
+  });
+}
+
+// Append one chunk at the given offset. Returns the new offset, or null if the offset doesn't match.
+// Throws UploadOverflowError once the chunk would take the file past the declared size.
+export async function appendChunk(
+  session: UploadSession,
+  offset: number,
+  body: ReadableStream<Uint8Array>
+): Promise<number | null> {
+  if (global.activeUploadWrites!.has(session.id)) {
+    return null;
+  }
+
+  global.activeUploadWrites!.add(session.id);
+  try {
+    const received = await getReceivedBytes(session);
+    if (received !== offset) {
+      return null;
+    }
+
+    await pipeline(
+      Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+      limitBytes(session.size - offset),
+      createWriteStream(partFile(session.id), { flags: 'a' })
+    );
+
+    return await getReceivedBytes(session);
+  } finally {
+    global.activeUploadWrites!.delete(session.id);
+  }
+}
+
+// Hand the completed staging file to rclone as an async move job
+export async function finalizeUpload(session: UploadSession): Promise<UploadSession> {
+  try {
+    session.jobId = await rcloneClient.startJob('operations/movefile', {
+      srcFs: UPLOAD_STAGING_DIR,
+      srcRemote: `${session.id}.part`,
+      dstFs: `${session.remote}:`,
+      dstRemote: joinRemotePath(session.path, session.name)
+    });
+    session.status = 'finalizing';
+  } catch (error) {
+    // Only a refusal from rclone fails the upload; connection problems are left to the caller
+    if (!(error instanceof RcloneError) || error.status === undefined) {
+      throw error;
+    }
+    session.status = 'failed';
+    session.error = error.message;
+  }
+
+  await saveSession(session);
+  return session;
+}
+
+// Refresh the status of a finalizing upload from rclone's job/status
+export async function refreshUploadStatus(session: UploadSession): Promise<UploadSession> {
+  if (session.status !== 'finalizing' || session.jobId === undefined) {
+    return session;
+  }
+
+  const job = await rcloneClient.jobStatus(session.jobId);
+  if (!job.finished) {
+    return session;
+  }
+
+  if (job.success) {
+    session.status = 'completed';
+    console.log(`Upload completed: ${session.remote}:${joinRemotePath(session.path, session.name)}`);
+  } else {
+    session.status = 'failed';
+    session.error = job.error || 'Transfer to remote failed';
+    console.error(`Upload failed: ${session.id}: ${session.error}`);
+  }
+
+  await saveSession(session);
+  await rm(partFile(session.id), { force: true });
+  return session;
+}
+
+export async function cancelUpload(session: UploadSession) {
+  await rm(partFile(session.id), { force: true });
+  await rm(metaFile(session.id), { force: true });
+  console.log(`Upload cancelled: ${session.id}`);
+}
@@ -0,0 +1,294 @@
+// User administration
+// Administrators are active users holding a role that grants user:admin. The last one can never be
+// deleted, deactivated or lose that role, so the instance always keeps someone who can manage it.
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import bcryptjs from 'bcryptjs';
+import { randomBytes } from 'crypto';
+import { countActiveAdmins, getEffectivePermissions, hasPermission, PERMISSIONS } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+// Readable characters only; the password is typed in by hand once
+const TEMPORARY_PASSWORD_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+const TEMPORARY_PASSWORD_LENGTH = 14;
+
+export class UserAdminError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'UserAdminError';
+  }
+}
+
+export interface UserSummary {
+  id: string;
+  username: string;
+  email: string;
+  name: string | null;
+  isActive: boolean;
+  isFirstLogin: boolean;
+  mustChangePassword: boolean;
+  lastLogin: Date | null;
+  createdAt: Date;
+  roles: { id: string; name: string }[];
+}
+
+export interface RoleSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  isSystem: boolean;
+}
+
+export interface CreateUserInput {
+  username: string;
+  email: string;
+  name?: string | null;
+  roleIds?: string[];
+}
+
+export interface UpdateUserInput {
+  email?: string;
+  name?: string | null;
+  isActive?: boolean;
+  mustChangePassword?: boolean;
+  roleIds?: string[];
+}
+
+const userInclude = {
+  userRoles: { include: { role: true } }
+} satisfies Prisma.UserInclude;
+
+type UserWithRoles = Prisma.UserGetPayload<{ include: typeof userInclude }>;
+
+function toSummary(user: UserWithRoles): UserSummary {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    name: user.name,
+    isActive: user.isActive,
+    isFirstLogin: user.isFirstLogin,
+    mustChangePassword: user.mustChangePassword,
+    lastLogin: user.lastLogin,
+    createdAt: user.createdAt,
+    roles: user.userRoles
+      .map(userRole => ({ id: userRole.role.id, name: userRole.role.name }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  };
+}
+
+export function isValidUsername(username: string): boolean {
+  return USERNAME_PATTERN.test(username);
+}
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email);
+}
+
+export function generateTemporaryPassword(): string {
+  const bytes = randomBytes(TEMPORARY_PASSWORD_LENGTH);
+  return Array.from(bytes, byte => TEMPORARY_PASSWORD_CHARS[byte % TEMPORARY_PASSWORD_CHARS.length]).join('');
+}
+
+export async function listUsers(): Promise<UserSummary[]> {
+  const users = await prisma.user.findMany({
+    include: userInclude,
+    orderBy: { username: 'asc' }
+  });
+  return users.map(toSummary);
+}
+
+export async function getUser(id: string): Promise<UserSummary | null> {
+  const user = await prisma.user.findUnique({ where: { id }, include: userInclude });
+  return user ? toSummary(user) : null;
+}
+
+export async function listRoles(): Promise<RoleSummary[]> {
+  return prisma.role.findMany({
+    select: { id: true, name: true, description: true, isSystem: true },
+    orderBy: { name: 'asc' }
+  });
+}
+
+// Role ids that grant user administration
+async function getAdminRoleIds(): Promise<Set<string>> {
+  const roles = await prisma.role.findMany({
+    where: { rolePermissions: { some: { permission: { name: PERMISSIONS.USER_ADMIN } } } },
+    select: { id: true }
+  });
+  return new Set(roles.map(role => role.id));
+}
+
+// Refuse a change that would leave no active administrator besides `userId`
+async function ensureOtherAdminExists(userId: string) {
+  if (await countActiveAdmins({ excludeUserId: userId }) === 0) {
+    throw new UserAdminError('This is the last active administrator', 409);
+  }
+}
+
+async function validateRoleIds(roleIds: string[]) {
+  const found = await prisma.role.count({ where: { id: { in: roleIds } } });
+  if (found !== new Set(roleIds).size) {
+    throw new UserAdminError('Unknown role');
+  }
+}
+
+function uniqueConflict(error: unknown): UserAdminError | null {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    const fields = (error.meta?.target as string[] | string | undefined) || '';
+    return new UserAdminError(
+      String(fields).includes('email') ? 'Email is already in use' : 'Username is already taken',
+      409
+    );
+  }
+  return null;
+}
+
+// The account starts with a temporary password that must be changed at first login
+export async function createUser(input: CreateUserInput): Promise<{ user: UserSummary; temporaryPassword: string }> {
+  const username = input.username.trim();
+  const email = input.email.trim();
+  if (!isValidUsername(username)) {
+    throw new UserAdminError('Username must be 3-32 letters, digits, _ - or .');
+  }
+  if (!isValidEmail(email)) {
+    throw new UserAdminError('Invalid email address');
+  }
+
+  const roleIds = input.roleIds || [];
+  await validateRoleIds(roleIds);
+
+  const temporaryPassword = generateTemporaryPassword();
+  try {
+    const user = await prisma.user.create({
+      data: {
+        username,
+        email,
+        name: input.name?.trim() || null,
+        password: await bcryptjs.hash(temporaryPassword, 12),
+        isFirstLogin: true,
+        mustChangePassword: true,
+        userRoles: { create: roleIds.map(roleId => ({ roleId })) }
+      },
+      include: userInclude
+    });
+    return { user: toSummary(user), temporaryPassword };
+  } catch (error) {
+    throw uniqueConflict(error) || error;
+  }
+}
+
+// Returns the updated user and the names of the fields that changed, for the audit log
+export async function updateUser(
+  id: string,
+  input: UpdateUserInput,
+  actorId: string
+): Promise<{ user: UserSummary; changed: string[] }> {
+  const existing = await prisma.user.findUnique({ where: { id }, include: userInclude });
+  if (!existing) {
+    throw new UserAdminError('User not found', 404);
+  }
+
+  const data: Prisma.UserUpdateInput = {};
+  const changed: string[] = [];
+
+  if (input.email !== undefined && input.email.trim() !== existing.email) {
+    if (!isValidEmail(input.email.trim())) {
+      throw new UserAdminError('Invalid email address');
+    }
+    data.email = input.email.trim();
+    changed.push('email');
+  }
+  if (input.name !== undefined && (input.name?.trim() || null) !== existing.name) {
+    data.name = input.name?.trim() || null;
+    changed.push('name');
+  }
+  if (input.mustChangePassword !== undefined && input.mustChangePassword !== existing.mustChangePassword) {
+    data.mustChangePassword = input.mustChangePassword;
+    changed.push('mustChangePassword');
+  }
+  if (input.isActive !== undefined && input.isActive !== existing.isActive) {
+    if (!input.isActive && id === actorId) {
+      throw new UserAdminError('You cannot deactivate your own account');
+    }
+    data.isActive = input.isActive;
+    changed.push('isActive');
+  }
+
+  const currentRoleIds = existing.userRoles.map(userRole => userRole.roleId);
+  const roleIds = input.roleIds ? [...new Set(input.roleIds)] : currentRoleIds;
+  const rolesChanged = roleIds.length !== currentRoleIds.length || roleIds.some(roleId => !currentRoleIds.includes(roleId));
+  if (rolesChanged) {
+    await validateRoleIds(roleIds);
+    changed.push('roles');
+  }
+
+  // Losing admin rights, by deactivation or by role change, needs another administrator around
+  // Both are judged like the routes judge them, so deny and grant overrides count
+  const adminRoleIds = await getAdminRoleIds();
+  const permissions = await getEffectivePermissions(id);
+  const wasAdmin = hasPermission(permissions, PERMISSIONS.USER_ADMIN);
+  const staysAdmin = (input.isActive ?? existing.isActive) && hasPermission({
+    ...permissions,
+    rolePermissions: new Set(roleIds.some(roleId => adminRoleIds.has(roleId)) ? [PERMISSIONS.USER_ADMIN] : [])
+  }, PERMISSIONS.USER_ADMIN);
+  if (wasAdmin && !staysAdmin) {
+    await ensureOtherAdminExists(id);
+  }
+
+  try {
+    const user = await prisma.$transaction(async tx => {
+      if (rolesChanged) {
+        await tx.userRole.deleteMany({ where: { userId: id } });
+        await tx.userRole.createMany({ data: roleIds.map(roleId => ({ userId: id, roleId })) });
+      }
+      return tx.user.update({ where: { id }, data, include: userInclude });
+    });
+    return { user: toSummary(user), changed };
+  } catch (error) {
+    throw uniqueConflict(error) || error;
+  }
+}
+
+export async function deleteUser(id: string, actorId: string): Promise<UserSummary> {
+  if (id === actorId) {
+    throw new UserAdminError('You cannot delete your own account');
+  }
+
+  const existing = await prisma.user.findUnique({ where: { id }, include: userInclude });
+  if (!existing) {
+    throw new UserAdminError('User not found', 404);
+  }
+
+  if (hasPermission(await getEffectivePermissions(id), PERMISSIONS.USER_ADMIN)) {
+    await ensureOtherAdminExists(id);
+  }
+
+  // Roles, overrides and sessions cascade; jobs keep running with no owner
+  await prisma.user.delete({ where: { id } });
+  return toSummary(existing);
+}
+
+// Replace the password with a one-time temporary one the user must change at next login
+export async function resetPassword(id: string): Promise<{ user: UserSummary; temporaryPassword: string }> {
+  const temporaryPassword = generateTemporaryPassword();
+  try {
+    const user = await prisma.user.update({
+      where: { id },
+      data: {
+        password: await bcryptjs.hash(temporaryPassword, 12),
+        mustChangePassword: true
+      },
+      include: userInclude
+    });
+    return { user: toSummary(user), temporaryPassword };
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      throw new UserAdminError('User not found', 404);
+    }
+    throw error;
+  }
+}
@@ -8,7 +8,7 @@ export default withAuth(
     const token = req.nextauth.token
 
     if (pathname.startsWith('/auth/')) {
-      if (token && pathname !== '/auth/change-password') {
+      if (token && token.isActive !== false && pathname !== '/auth/change-password') {
         if (token.mustChangePassword || token.isFirstLogin) {
           return NextResponse.redirect(new URL('/auth/change-password', req.url))
         }
@@ -32,11 +32,12 @@ export default withAuth(
           return true
         }
         
+        // Deactivated accounts are sent back to the login page
         if (pathname.startsWith('/auth/change-password')) {
-          return !!token
+          return !!token && token.isActive !== false
         }
         
-        return !!token
+        return !!token && token.isActive !== false
       },
     },
   }
@@ -0,0 +1,73 @@
+// Helpers for calling route handlers directly in tests
+
+import { NextRequest } from 'next/server';
+import { vi } from 'vitest';
+import { getServerSession } from 'next-auth';
+import { PERMISSION_CATALOG } from '@/lib/permissions';
+import { fakeUsers, FakeUser } from '@/test/fake-prisma';
+
+export type RouteHandler = (request: NextRequest, context: unknown) => Promise<Response>;
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Every HTTP method handler a route module exports
+export function routeHandlers(module: Record<string, unknown>): [string, RouteHandler][] {
+  return Object.entries(module)
+    .filter(([name, value]) => HTTP_METHODS.includes(name) && typeof value === 'function')
+    .map(([name, value]) => [name, value as RouteHandler]);
+}
+
+interface RequestOptions {
+  method?: string;
+  json?: unknown;
+  form?: Record<string, string>;
+}
+
+export function apiRequest(path: string, options: RequestOptions = {}): NextRequest {
+  const url = new URL(path, 'http://localhost:3003');
+  if (options.form) {
+    const body = new FormData();
+    for (const [key, value] of Object.entries(options.form)) {
+      body.set(key, value);
+    }
+    return new NextRequest(url, { method: options.method || 'POST', body });
+  }
+  if (options.json !== undefined) {
+    return new NextRequest(url, {
+      method: options.method || 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(options.json)
+    });
+  }
+  return new NextRequest(url, { method: options.method || 'GET' });
+}
+
+export function createUser(id: string, options: { isActive?: boolean; permissions?: string[] } = {}): FakeUser {
+  const user: FakeUser = {
+    id,
+    isActive: options.isActive ?? true,
+    userRoles: options.permissions
+      ? [{ role: { name: 'Test', rolePermissions: options.permissions.map(name => ({ permission: { name } })) } }]
+      : [],
+    permissions: []
+  };
+  fakeUsers.set(id, user);
+  return user;
+}
+
+export const ALL_PERMISSIONS = PERMISSION_CATALOG.map(permission => permission.name);
+
+// Session as getServerSession returns it; null signs out. The session reflects the token, so it
+// can still say active after an administrator deactivated the user.
+export function signIn(user: FakeUser | null, session: { isActive?: boolean; mustChangePassword?: boolean } = {}) {
+  vi.mocked(getServerSession).mockResolvedValue(user && {
+    expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    user: {
+      id: user.id,
+      username: user.id,
+      isActive: session.isActive ?? true,
+      isFirstLogin: false,
+      mustChangePassword: session.mustChangePassword ?? false
+    }
+  });
+}
@@ -0,0 +1,56 @@
+// In-memory stand-in for PrismaClient
+// Only users are stored, which is all getEffectivePermissions needs; user.findMany returns them
+// filtered by isActive and id only, and role ids are taken to be role names. Every other query
+// resolves to an empty result, so routes that get past their permission check fail harmlessly.
+
+export interface FakeUser {
+  id: string;
+  isActive: boolean;
+  userRoles: { role: { name: string; rolePermissions: { permission: { name: string } }[] } }[];
+  permissions: {
+    id: string;
+    permission: { name: string };
+    remoteName: string | null;
+    folderPath: string | null;
+    filePath: string | null;
+    granted: boolean;
+  }[];
+}
+
+export const fakeUsers = new Map<string, FakeUser>();
+
+function emptyResult(method: string) {
+  if (method === 'findMany' || method === 'groupBy') return [];
+  if (method === 'count') return 0;
+  if (method === 'deleteMany' || method === 'updateMany') return { count: 0 };
+  return null;
+}
+
+function model(name: string) {
+  return new Proxy({}, {
+    get: (_target, method: string) => async (args?: { where?: { id?: string | { not: string }; isActive?: boolean } }) => {
+      const where = args?.where || {};
+      if (name === 'user' && method === 'findUnique') {
+        return fakeUsers.get(typeof where.id === 'string' ? where.id : '') || null;
+      }
+      if (name === 'user' && method === 'findMany') {
+        return [...fakeUsers.values()].filter(user =>
+          (where.isActive === undefined || user.isActive === where.isActive) &&
+          (typeof where.id !== 'object' || user.id !== where.id.not)
+        );
+      }
+      if (name === 'role' && method === 'findUnique' && typeof where.id === 'string') {
+        return { id: where.id, name: where.id };
+      }
+      return emptyResult(method);
+    }
+  });
+}
+
+export class FakePrismaClient {
+  constructor() {
+    return new Proxy(this, {
+      get: (_target, property: string) => property.startsWith('$') ? async () => [] : model(property)
+    });
+  }
+}
@@ -0,0 +1,41 @@
+// Test doubles shared by every test: NextAuth sessions, the database and the rclone daemon
+
+import { beforeEach, vi } from 'vitest';
+import { fakeUsers } from '@/test/fake-prisma';
+
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn()
+}));
+
+vi.mock('@/lib/auth', () => ({
+  authOptions: {}
+}));
+
+vi.mock('@prisma/client', async (importOriginal) => {
+  const { FakePrismaClient } = await import('@/test/fake-prisma');
+  return { ...(await importOriginal<typeof import('@prisma/client')>()), PrismaClient: FakePrismaClient };
+});
+
+// "gdrive" is the only configured remote
+vi.mock('@/lib/rclone/remotes', () => ({
+  getConfiguredRemotes: async () => ['gdrive'],
+  isConfiguredRemote: async (remote: unknown) => remote === 'gdrive',
+  clearConfiguredRemotesCache: () => {}
+}));
+
+// Background services start on import; keep their timers out of the tests
+vi.mock('@/lib/background-bandwidth', () => ({ applyBandwidthSchedule: vi.fn() }));
+vi.mock('@/lib/background-health', () => ({ runRemoteCheck: vi.fn() }));
+vi.mock('@/lib/background-index', () => ({
+  getIndexedRemotes: vi.fn(async () => null),
+  isIndexEnabled: vi.fn(() => false),
+  runIndexJob: vi.fn()
+}));
+
+beforeEach(() => {
+  fakeUsers.clear();
+  // Any request to the rclone daemon fails the test that expects none
+  vi.stubGlobal('fetch', vi.fn(async () => {
+    throw new Error('Unexpected request to rclone');
+  }));
+});
@@ -10,6 +10,7 @@ declare module "next-auth" {
       image?: string | null
       isFirstLogin: boolean
       mustChangePassword: boolean
+      isActive: boolean
     }
   }
 
@@ -26,5 +27,7 @@ declare module "next-auth/jwt" {
     username: string
     isFirstLogin: boolean
     mustChangePassword: boolean
+    // Refreshed from the database on every session read; false once the account is deactivated or deleted
+    isActive?: boolean
   }
 }
\ No newline at end of file